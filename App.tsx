@@ -1,13 +1,20 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   getWordDetails, 
   generateWordImage, 
-  chatAboutWord, 
+  getMnemonicScene,
+  streamChatAboutWord, 
   playPronunciation,
   getAdditionalMeanings,
-  generateStoryFromWords
-} from './services/gemini';
+  getInflections,
+  generateStoryFromWords,
+  checkSpelling,
+  analyzeSentence,
+  SPEECH_VOICES,
+  DEFAULT_VOICE,
+  SpeechOptions
+} from './services/ai';
 import { 
   SearchIcon, 
   VolumeIcon, 
@@ -25,31 +32,65 @@ import {
   GridIcon,
   BookmarkIcon,
   TrashIcon,
-  PenToolIcon
+  PenToolIcon,
+  LayersIcon,
+  DownloadIcon,
+  UploadIcon,
+  StopIcon,
+  HistoryIcon,
+  MicIcon,
+  ChartIcon
 } from './components/Icons';
 import { Loader } from './components/Loader';
-import { WordDefinition, ChatMessage, SupportedLanguage, AdditionalMeaning, SavedItem, StoryQuiz } from './types';
+import { ReviewSession } from './components/ReviewSession';
+import { StoryQuizPanel } from './components/StoryQuizPanel';
+import { QuizSession } from './components/QuizSession';
+import { SentenceAnalysisCard } from './components/SentenceAnalysisCard';
+import { ReaderView, HarvestedWord } from './components/ReaderView';
+import { ItemEditor, ItemOrganization } from './components/ItemEditor';
+import { ImagePromptEditor, ImageRequest, IMAGE_STYLE_LABELS } from './components/ImagePromptEditor';
+import { SpeakButton } from './components/SpeakButton';
+import { PronunciationPractice } from './components/PronunciationPractice';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { InflectionTables } from './components/InflectionTables';
+import { ExportPanel } from './components/ExportPanel';
+import { ImportPanel } from './components/ImportPanel';
+import { StoredImage } from './components/StoredImage';
+import { StorageIndicator } from './components/StorageIndicator';
+import { Markdown } from './components/Markdown';
+import { withReviewState, scheduleReview, prioritizeReview, getDueItems } from './services/srs';
+import { getCachedLookup, updateCachedLookup, appendCachedImage, lookupKey, formsKey } from './services/cache';
+import { Route, RouteState, LANGUAGE_CODES, languageFromCode, parseRoute, formatRoute, pushRoute, replaceRoute } from './services/router';
+import { createTranslator, isRtlLanguage, LANGUAGE_NAMES, MessageKey, TranslationContext } from './services/i18n';
+import { createImportQueue, dedupeWords, ImportJob } from './services/importer';
+import { createSavedItem, hasSavedWord, savedEntriesFor, getSenses, exampleSentence, grammarEntries, getDecks, itemsInDeck } from './services/wordbook';
+import { applyWordbookFilter, getLanguagePairs, isFiltered, DEFAULT_WORDBOOK_FILTER, WordbookFilter, WordbookSort, SavedWithin } from './services/wordbookFilter';
+import { ReviewStatus } from './services/srs';
+import { loadSearchHistory, persistSearchHistory, recordSearch, getSuggestions, isKnownTerm, SearchHistoryEntry } from './services/searchHistory';
+import { loadActivity, persistActivity, recordActivity, ActivityEvent } from './services/activityLog';
+import { loadChatThread, saveChatThread, listChatThreads, deleteChatThread, ChatThread } from './services/chatThreads';
+import { saveImage, deleteImage, imageIdFor, migrateLegacyImages } from './services/imageStore';
+import { loadImageFeedback, persistImageFeedback, getImageRating, rateImage, getStyleScores, pickImageStyle, imagePromptOptions, ImageFeedback, ImageStyleId } from './services/imageFeedback';
+import { mnemonicContext } from './services/imagePrompt';
+import { WordDefinition, WordSense, GrammarInfo, SentenceAnalysis, SentenceToken, ChatMessage, SupportedLanguage, AdditionalMeaning, Inflections, SavedItem, StoryQuiz, ReviewGrade } from './types';
 
-type View = 'search' | 'wordbook';
+type View = 'search' | 'wordbook' | 'review' | 'quiz' | 'reader' | 'stats';
 
-// Helper Component for Interactive Quiz Blanks
-const QuizBlank = ({ word }: { word: string }) => {
-  const [revealed, setRevealed] = useState(false);
-
-  return (
-    <span 
-      onClick={() => setRevealed(true)}
-      className={`inline-flex items-center justify-center min-w-[80px] px-2 py-0 mx-1 rounded cursor-pointer transition-all duration-300 border-b-2 ${
-        revealed 
-          ? 'bg-orange-100 border-orange-500 text-orange-900 font-bold' 
-          : 'bg-stone-200 border-stone-400 text-transparent hover:bg-stone-300'
-      }`}
-    >
-      {revealed ? word : <span className="select-none opacity-0">{word}</span>}
-    </span>
-  );
+const GRAMMAR_LABELS: Record<keyof GrammarInfo, MessageKey> = {
+  article: 'grammar.article',
+  gender: 'grammar.gender',
+  measureWord: 'grammar.measureWord',
+  reading: 'grammar.reading',
+  romanization: 'grammar.romanization',
 };
 
+// The search term and language pair the current result was looked up (and cached) with
+interface LookupContext {
+  term: string;
+  targetLanguage: SupportedLanguage;
+  nativeLanguage: SupportedLanguage;
+}
+
 function App() {
   // State
   const [view, setView] = useState<View>('search');
@@ -57,34 +98,97 @@ function App() {
   
   // Language State
   const [targetLanguage, setTargetLanguage] = useState<SupportedLanguage>(SupportedLanguage.SPANISH); // Explain in
-  const [nativeLanguage, setNativeLanguage] = useState<SupportedLanguage>(SupportedLanguage.ENGLISH); // Native Language
+  const [nativeLanguage, setNativeLanguage] = useState<SupportedLanguage>(() => // Native Language, also the UI language
+    languageFromCode(localStorage.getItem('leximind_ui_language')) ?? SupportedLanguage.ENGLISH
+  );
+  const t = useMemo(() => createTranslator(nativeLanguage), [nativeLanguage]);
+
+  // The interface language and direction follow the "I speak" selector
+  useEffect(() => {
+    localStorage.setItem('leximind_ui_language', LANGUAGE_CODES[nativeLanguage]);
+    document.documentElement.lang = LANGUAGE_CODES[nativeLanguage];
+    document.documentElement.dir = isRtlLanguage(nativeLanguage) ? 'rtl' : 'ltr';
+  }, [nativeLanguage]);
   
   // Data State
   const [wordData, setWordData] = useState<WordDefinition | null>(null);
   const [gallery, setGallery] = useState<string[]>([]);
   const [activeImageIndex, setActiveImageIndex] = useState(0);
+  const [activeSenseIndex, setActiveSenseIndex] = useState(0); // Sense that "Save to Wordbook" stores
   const [additionalMeanings, setAdditionalMeanings] = useState<AdditionalMeaning[] | null>(null);
-  const [imageFeedbacks, setImageFeedbacks] = useState<Record<string, 'like' | 'dislike'>>({});
+  const [inflections, setInflections] = useState<Record<string, Inflections>>({}); // By part of speech (formsKey)
+  const [imageFeedback, setImageFeedback] = useState<ImageFeedback[]>(loadImageFeedback);
+  const [imageStyles, setImageStyles] = useState<Record<string, ImageStyleId>>({}); // By image id; restored from the lookup cache
+  const [isImagePromptOpen, setIsImagePromptOpen] = useState(false);
+  const [lookupContext, setLookupContext] = useState<LookupContext | null>(null);
+  const lookupIdRef = useRef(0); // Lets async work from a superseded lookup bail out
+  const [fromCache, setFromCache] = useState(false);
+
+  // Sentence Mode
+  const [searchMode, setSearchMode] = useState<'word' | 'sentence'>('word');
+  const [sentenceAnalysis, setSentenceAnalysis] = useState<SentenceAnalysis | null>(null);
+  const [loadingSentence, setLoadingSentence] = useState(false);
+
+  // Search History & Suggestions
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>(loadSearchHistory);
+  const [activity, setActivity] = useState<ActivityEvent[]>(loadActivity);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(-1);
+  const [spellingCheck, setSpellingCheck] = useState<{ term: string; suggestions: string[] } | null>(null);
+  const [checkingSpelling, setCheckingSpelling] = useState(false);
   
   // Saved Items
   const [savedItems, setSavedItems] = useState<SavedItem[]>(() => {
     try {
       const local = localStorage.getItem('leximind_saved');
-      return local ? JSON.parse(local) : [];
+      return local ? (JSON.parse(local) as SavedItem[]).map(withReviewState) : [];
     } catch {
       return [];
     }
   });
 
+  const [storageError, setStorageError] = useState<MessageKey | null>(null);
+
   // Story Mode State
   const [storyQuiz, setStoryQuiz] = useState<StoryQuiz | null>(null);
   const [loadingStory, setLoadingStory] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  // Wordbook organization: the active deck scopes stories, quizzes and exports (null = all words)
+  const [activeDeck, setActiveDeck] = useState<string | null>(null);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const decks = useMemo(() => getDecks(savedItems), [savedItems]);
+  const deckItems = useMemo(() => itemsInDeck(savedItems, activeDeck), [savedItems, activeDeck]);
+
+  // Search, filters and sort only change what the grid shows, not what the deck scopes
+  const [wordbookFilter, setWordbookFilter] = useState<WordbookFilter>(DEFAULT_WORDBOOK_FILTER);
+  const languagePairs = useMemo(() => getLanguagePairs(savedItems), [savedItems]);
+  const visibleItems = useMemo(() => applyWordbookFilter(deckItems, wordbookFilter), [deckItems, wordbookFilter]);
+  const updateWordbookFilter = (changes: Partial<WordbookFilter>) => setWordbookFilter(prev => ({ ...prev, ...changes }));
+
+  // A deck disappears once its last word is moved or removed
+  useEffect(() => {
+    if (activeDeck !== null && !decks.includes(activeDeck)) setActiveDeck(null);
+  }, [activeDeck, decks]);
+
+  // Bulk Import State
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importJobs, setImportJobs] = useState<ImportJob[]>([]);
+  const importQueueRef = useRef<ReturnType<typeof createImportQueue> | null>(null);
   
   // Loading States
   const [loadingWord, setLoadingWord] = useState(false);
   const [loadingImage, setLoadingImage] = useState(false);
   const [loadingAudio, setLoadingAudio] = useState(false);
+  const [speech, setSpeech] = useState<SpeechOptions>(() => {
+    try {
+      return { voice: DEFAULT_VOICE, slow: false, ...JSON.parse(localStorage.getItem('leximind_speech') || '{}') };
+    } catch {
+      return { voice: DEFAULT_VOICE, slow: false };
+    }
+  });
   const [loadingMoreMeanings, setLoadingMoreMeanings] = useState(false);
+  const [loadingInflections, setLoadingInflections] = useState(false);
   const [loadingNewImage, setLoadingNewImage] = useState(false);
   
   // Chat State
@@ -93,16 +197,67 @@ function App() {
   const [chatInput, setChatInput] = useState('');
   const [isChatSending, setIsChatSending] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const restoredChatRef = useRef<ChatMessage[] | null>(null); // Skip re-saving a thread we just loaded
+  const [showChatThreads, setShowChatThreads] = useState(false);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [notedMessageIds, setNotedMessageIds] = useState<string[]>([]);
 
   useEffect(() => {
-    localStorage.setItem('leximind_saved', JSON.stringify(savedItems));
+    try {
+      localStorage.setItem('leximind_saved', JSON.stringify(savedItems));
+      setStorageError(null);
+    } catch (err) {
+      console.error("Failed to persist wordbook", err);
+      setStorageError('storage.wordbookFull');
+    }
   }, [savedItems]);
 
+  useEffect(() => {
+    persistSearchHistory(searchHistory);
+  }, [searchHistory]);
+
+  useEffect(() => {
+    persistActivity(activity);
+  }, [activity]);
+
+  useEffect(() => {
+    persistImageFeedback(imageFeedback);
+  }, [imageFeedback]);
+
+  useEffect(() => {
+    localStorage.setItem('leximind_speech', JSON.stringify(speech));
+  }, [speech]);
+
+  // One-off move of inline base64 images from older versions into the image store
+  useEffect(() => {
+    migrateLegacyImages(savedItems)
+      .then(migrated => {
+        if (!migrated) return;
+        // Only carry the image over: grades and edits made while migrating must survive
+        const imageIds = new Map(migrated.filter(item => !item.imageUrl).map(item => [item.id, item.imageId]));
+        setSavedItems(prev => prev.map(item => {
+          if (!item.imageUrl || !imageIds.has(item.id)) return item;
+          const { imageUrl, ...rest } = item;
+          return { ...rest, imageId: imageIds.get(item.id) };
+        }));
+      })
+      .catch(err => console.error("Image migration failed", err));
+  }, []);
+
   // Handlers
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!query.trim()) return;
+  const lookupWord = async (
+    term: string,
+    options: { forceRefresh?: boolean; targetLanguage?: SupportedLanguage; nativeLanguage?: SupportedLanguage } = {}
+  ) => {
+    const target = options.targetLanguage ?? targetLanguage;
+    const native = options.nativeLanguage ?? nativeLanguage;
+    setTargetLanguage(target);
+    // "I speak" is also the saved UI language, so a shared link's pair stays in lookupContext only
     setView('search');
+    const lookupId = ++lookupIdRef.current;
+    // A newer lookup owns the screen once it starts; this one then stops touching state
+    const isStale = () => lookupId !== lookupIdRef.current;
 
     // Reset all states
     setLoadingWord(true);
@@ -110,37 +265,229 @@ function App() {
     setWordData(null);
     setGallery([]);
     setActiveImageIndex(0);
+    setActiveSenseIndex(0);
     setAdditionalMeanings(null);
-    setImageFeedbacks({});
+    setInflections({});
+    chatAbortRef.current?.abort();
     setChatMessages([]);
     setIsChatOpen(false);
+    setShowChatThreads(false);
+    setSpellingCheck(null);
+    setLookupContext({ term, targetLanguage: target, nativeLanguage: native });
+    setFromCache(false);
 
     try {
-      // Parallel fetch
-      const detailsPromise = getWordDetails(query, targetLanguage, nativeLanguage);
-      const imagePromise = generateWordImage(query);
+      const cached = options.forceRefresh ? null : await getCachedLookup(term, target, native);
+      if (isStale()) return;
+
+      // Parallel fetch of whatever the cache doesn't have
+      const detailsPromise = cached?.definition
+        ? Promise.resolve(cached.definition)
+        : getWordDetails(term, target, native);
+      const imagePromise = cached?.images.length
+        ? Promise.resolve(null)
+        : generateStyledImage(term, native);
 
       const details = await detailsPromise;
+      if (isStale()) return;
       setWordData(details);
+      setAdditionalMeanings(cached?.meanings ?? null);
+      // Entries cached before forms were keyed by part of speech hold a bare table set; ignore those
+      setInflections(cached?.inflections && !('kind' in cached.inflections) ? cached.inflections : {});
+      setFromCache(!!cached?.definition);
       setLoadingWord(false);
+      setSearchHistory(prev => recordSearch(prev, { term, targetLanguage: target, nativeLanguage: native, searchedAt: Date.now() }));
+      setActivity(prev => recordActivity(prev, { type: 'lookup', word: details.word, at: Date.now() }));
+
+      // Restore the tutor conversation about this word, unless the user already started a new one
+      loadChatThread(details.word, target, native).then(thread => {
+        if (!thread || isStale()) return;
+        restoredChatRef.current = thread.messages;
+        setChatMessages(prev => (prev.length === 0 ? thread.messages : prev));
+      });
 
-      const img = await imagePromise;
-      if (img) {
-        setGallery([img]);
+      if (!cached?.definition) {
+        await updateCachedLookup(term, target, native, { definition: details }, { reset: options.forceRefresh });
+        if (isStale()) return;
+      }
+
+      if (cached?.images.length) {
+        setGallery(cached.images);
+        setImageStyles(prev => ({ ...prev, ...cached.imageStyles }));
+      } else {
+        const generated = await imagePromise;
+        if (isStale()) return;
+        if (generated?.image) {
+          setGallery([generated.image]);
+          setImageStyles(prev => ({ ...prev, [imageIdFor(generated.image)]: generated.style }));
+          await appendCachedImage(term, target, native, generated.image, generated.style);
+        }
       }
     } catch (error) {
       console.error("Error fetching data", error);
     } finally {
-      setLoadingWord(false);
-      setLoadingImage(false);
+      if (!isStale()) {
+        setLoadingWord(false);
+        setLoadingImage(false);
+      }
     }
   };
 
+  const searchTerm = (term: string) => {
+    setQuery(term);
+    setShowSuggestions(false);
+    setSpellingCheck(null);
+    navigate({ name: 'word', word: term, targetLanguage, nativeLanguage });
+  };
+
+  const handleAnalyzeSentence = async (sentence: string) => {
+    setLoadingSentence(true);
+    try {
+      setSentenceAnalysis(await analyzeSentence(sentence, targetLanguage, nativeLanguage));
+    } catch (err) {
+      console.error("Sentence analysis failed", err);
+    } finally {
+      setLoadingSentence(false);
+    }
+  };
+
+  // Open a token's full card below the analysis, in its dictionary form
+  const handleSelectToken = (token: SentenceToken) => {
+    navigate({ name: 'word', word: token.lemma || token.text, targetLanguage, nativeLanguage });
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = query.trim();
+    if (!term) return;
+    setShowSuggestions(false);
+    setSpellingCheck(null);
+
+    if (searchMode === 'sentence') {
+      await handleAnalyzeSentence(term);
+      return;
+    }
+    setSentenceAnalysis(null);
+
+    // New terms get a cheap spelling check first, so a typo doesn't cost a full definition + image
+    if (!isKnownTerm(term, searchHistory, savedItems) && !(await getCachedLookup(term, targetLanguage, nativeLanguage))) {
+      setCheckingSpelling(true);
+      try {
+        const check = await checkSpelling(term, nativeLanguage);
+        if (!check.isValid && check.suggestions.length > 0) {
+          setSpellingCheck({ term, suggestions: check.suggestions.slice(0, 4) });
+          return;
+        }
+      } catch (err) {
+        console.warn("Spelling check failed, searching as typed", err);
+      } finally {
+        setCheckingSpelling(false);
+      }
+    }
+    searchTerm(term);
+  };
+
+  const suggestions = showSuggestions && searchMode === 'word' ? getSuggestions(query, searchHistory, savedItems) : [];
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedSuggestion(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedSuggestion(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Enter' && suggestions[highlightedSuggestion]) {
+      e.preventDefault();
+      searchTerm(suggestions[highlightedSuggestion].term);
+    }
+  };
+
+  // The current lookup as a route, or plain search when nothing has been looked up yet
+  const wordRoute = (panel?: 'chat'): Route =>
+    lookupContext
+      ? { name: 'word', word: lookupContext.term, targetLanguage: lookupContext.targetLanguage, nativeLanguage: lookupContext.nativeLanguage, panel }
+      : { name: 'search' };
+
+  // Bring the screen in line with a route (from a link, back/forward, or navigate())
+  const applyRoute = async (route: Route, state: RouteState) => {
+    switch (route.name) {
+      case 'word': {
+        const isCurrent = !!wordData && !!lookupContext &&
+          lookupKey(lookupContext.term, lookupContext.targetLanguage, lookupContext.nativeLanguage) ===
+          lookupKey(route.word, route.targetLanguage, route.nativeLanguage);
+        if (isCurrent) {
+          setView('search');
+        } else {
+          // Keep a pasted sentence in the box while its tokens are explored
+          if (searchMode === 'word') setQuery(route.word);
+          await lookupWord(route.word, { targetLanguage: route.targetLanguage, nativeLanguage: route.nativeLanguage });
+        }
+        setIsChatOpen(route.panel === 'chat');
+        return;
+      }
+      case 'wordbook':
+        setView('wordbook');
+        setIsChatOpen(false);
+        setStoryQuiz(route.panel === 'story' ? state.story ?? null : null);
+        // A story link without its story (e.g. shared by URL) just shows the Wordbook
+        if (route.panel === 'story' && !state.story) replaceRoute({ name: 'wordbook' });
+        return;
+      case 'review':
+      case 'quiz':
+      case 'reader':
+      case 'stats':
+        setView(route.name);
+        setIsChatOpen(false);
+        return;
+      default:
+        setView('search');
+        setIsChatOpen(false);
+    }
+  };
+
+  const navigate = (route: Route, options: { replace?: boolean; state?: RouteState } = {}) => {
+    const state = options.state ?? {};
+    const unchanged = formatRoute(route) === `${window.location.pathname}${window.location.search}`;
+    (options.replace || unchanged ? replaceRoute : pushRoute)(route, state);
+    applyRoute(route, state);
+  };
+
+  const openPanel = (route: Route, state: RouteState = {}) =>
+    navigate(route, { state: { ...state, panelOpened: true } });
+
+  // Closing a panel opened in-app steps back, so the back button doesn't reopen it
+  const closePanel = (parent: Route) => {
+    if ((window.history.state as RouteState | null)?.panelOpened) {
+      window.history.back();
+    } else {
+      navigate(parent, { replace: true });
+    }
+  };
+
+  // Deep links on load, then back/forward. The ref keeps the listener on the latest render's state.
+  const applyLocationRef = useRef((_state: RouteState) => {});
+  applyLocationRef.current = (state: RouteState) =>
+    applyRoute(parseRoute(window.location.pathname, window.location.search, { targetLanguage, nativeLanguage }), state);
+
+  useEffect(() => {
+    applyLocationRef.current(window.history.state ?? {});
+    const handlePopState = (e: PopStateEvent) => applyLocationRef.current(e.state ?? {});
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handleRefreshLookup = async () => {
+    if (!lookupContext) return;
+    await lookupWord(lookupContext.term, { ...lookupContext, forceRefresh: true });
+  };
+
   const handleAudioPlay = async () => {
     if (!wordData) return;
     try {
       setLoadingAudio(true);
-      await playPronunciation(wordData.word);
+      await playPronunciation(wordData.word, speech);
     } catch (err) {
       console.error("Audio playback failed", err);
     } finally {
@@ -154,6 +501,9 @@ function App() {
     try {
       const meanings = await getAdditionalMeanings(wordData.word, targetLanguage);
       setAdditionalMeanings(meanings);
+      if (lookupContext) {
+        await updateCachedLookup(lookupContext.term, lookupContext.targetLanguage, lookupContext.nativeLanguage, { meanings });
+      }
     } catch (err) {
       console.error("Failed to load meanings", err);
     } finally {
@@ -161,17 +511,66 @@ function App() {
     }
   };
 
-  const handleGenerateNewImage = async () => {
-    if (!wordData) return;
-    setLoadingNewImage(true);
+  // Forms of the selected sense's part of speech ("run" the verb conjugates, "run" the noun doesn't)
+  const handleLoadInflections = async () => {
+    if (!wordData || !activeSense) return;
+    const lookupId = lookupIdRef.current;
+    const context = lookupContext;
+    const partOfSpeech = activeSense.partOfSpeech;
+    setLoadingInflections(true);
     try {
-      // Create a slight variation in prompt context based on existing gallery size
-      const context = gallery.length === 1 ? "Abstract and colorful interpretation" : "Real world scenario usage";
-      const newImg = await generateWordImage(wordData.word, context);
-      if (newImg) {
-        setGallery(prev => [...prev, newImg]);
-        setActiveImageIndex(prev => prev + 1);
+      const forms = await getInflections(wordData.word, partOfSpeech, context?.targetLanguage ?? targetLanguage);
+      const next = { ...inflections, [formsKey(partOfSpeech)]: forms };
+      if (context) {
+        await updateCachedLookup(context.term, context.targetLanguage, context.nativeLanguage, { inflections: next });
       }
+      // Another word was opened while these loaded
+      if (lookupId !== lookupIdRef.current) return;
+      setInflections(next);
+    } catch (err) {
+      console.error("Failed to load inflections", err);
+    } finally {
+      setLoadingInflections(false);
+    }
+  };
+
+  // Generate in the best-rated style not already used, steered by the learner's past ratings.
+  // A mnemonic picture needs its sound-alike scene from the text model first.
+  const generateStyledImage = async (
+    word: string,
+    native: SupportedLanguage,
+    context?: string,
+    usedStyles: ImageStyleId[] = []
+  ) => {
+    const style = pickImageStyle(imageFeedback, usedStyles);
+    let promptContext = context;
+    if (style.id === 'mnemonic') {
+      const scene = await getMnemonicScene(word, native, context).catch(err => {
+        console.error("Failed to build mnemonic scene", err);
+        return null;
+      });
+      if (!scene) return { image: '', style: style.id };
+      promptContext = mnemonicContext(scene);
+    }
+    const image = await generateWordImage(word, promptContext, imagePromptOptions(imageFeedback, style));
+    return { image, style: style.id };
+  };
+
+  const handleGenerateNewImage = async (sense?: WordSense) => {
+    if (!wordData || !lookupContext) return;
+    const origin = { lookupId: lookupIdRef.current, context: lookupContext };
+    setLoadingNewImage(true);
+    try {
+      // Illustrate a specific sense, or vary the style of the images so far
+      const context = sense ? `The meaning "${sense.definition}" (${sense.partOfSpeech})` : undefined;
+      const usedStyles = gallery.map(img => imageStyles[imageIdFor(img)]).filter(Boolean);
+      const { image, style } = await generateStyledImage(
+        wordData.word,
+        origin.context.nativeLanguage,
+        context,
+        usedStyles
+      );
+      if (image) await addToGallery(image, style, origin);
     } catch (err) {
       console.error("Failed to generate new image", err);
     } finally {
@@ -179,55 +578,171 @@ function App() {
     }
   };
 
-  const toggleFeedback = (type: 'like' | 'dislike') => {
-    const currentUrl = gallery[activeImageIndex];
-    if (!currentUrl) return;
-
-    setImageFeedbacks(prev => {
-      const current = prev[currentUrl];
-      if (current === type) {
-        const newState = { ...prev };
-        delete newState[currentUrl];
-        return newState;
-      }
-      return { ...prev, [currentUrl]: type };
+  // From the prompt editor: a chosen preset, with the prompt exactly as the learner left it
+  const handleGenerateCustomImage = async ({ style, prompt }: ImageRequest) => {
+    if (!wordData || !lookupContext) return;
+    const origin = { lookupId: lookupIdRef.current, context: lookupContext };
+    setIsImagePromptOpen(false);
+    setLoadingNewImage(true);
+    try {
+      const newImg = await generateWordImage(wordData.word, undefined, { style: style.prompt, prompt });
+      if (newImg) await addToGallery(newImg, style.id, origin);
+    } catch (err) {
+      console.error("Failed to generate custom image", err);
+    } finally {
+      setLoadingNewImage(false);
+    }
+  };
+
+  // `origin` is the lookup the image was generated for: it's cached there, and only shown if still on screen
+  const addToGallery = async (
+    image: string,
+    style: ImageStyleId,
+    origin: { lookupId: number; context: LookupContext }
+  ) => {
+    const { term, targetLanguage: target, nativeLanguage: native } = origin.context;
+    await appendCachedImage(term, target, native, image, style);
+    if (origin.lookupId !== lookupIdRef.current) return;
+    setGallery(prev => {
+      setActiveImageIndex(prev.length);
+      return [...prev, image];
     });
+    setImageStyles(prev => ({ ...prev, [imageIdFor(image)]: style }));
   };
 
-  const handleSaveItem = () => {
+  const toggleFeedback = (type: 'like' | 'dislike') => {
+    if (!currentImageId || !wordData) return;
+    setImageFeedback(prev => rateImage(prev, {
+      imageId: currentImageId,
+      word: wordData.word,
+      style: imageStyles[currentImageId],
+      rating: getImageRating(prev, currentImageId) === type ? null : type,
+      ratedAt: Date.now(),
+    }));
+  };
+
+  const handleSaveItem = async () => {
     if (!wordData || !currentImage) return;
     
-    const newItem: SavedItem = {
-      id: Date.now().toString(),
-      word: wordData.word,
-      definition: wordData.definition,
-      imageUrl: currentImage,
-      timestamp: Date.now()
-    };
+    try {
+      const newItem = createSavedItem(
+        wordData,
+        await saveImage(currentImage),
+        lookupContext?.targetLanguage ?? targetLanguage,
+        lookupContext?.nativeLanguage ?? nativeLanguage,
+        activeSense
+      );
+      if (activeDeck) newItem.deck = activeDeck;
 
-    setSavedItems(prev => {
-      // Prevent duplicates of same word/image combo
-      if (prev.some(item => item.word === newItem.word && item.imageUrl === newItem.imageUrl)) {
-        return prev;
+      setSavedItems(prev => {
+        // Prevent duplicates of same word/sense/image combo
+        if (prev.some(item => item.word === newItem.word && item.definition === newItem.definition && item.imageId === newItem.imageId)) {
+          return prev;
+        }
+        return [newItem, ...prev];
+      });
+    } catch (err) {
+      console.error("Failed to save image", err);
+      setStorageError('storage.imageFull');
+    }
+  };
+
+  // Enrich one imported word, reusing cached lookups where possible
+  const enrichImportJob = async (job: ImportJob) => {
+    const cached = await getCachedLookup(job.word, job.targetLanguage, job.nativeLanguage);
+    const details = cached?.definition ?? await getWordDetails(job.word, job.targetLanguage, job.nativeLanguage);
+    if (!cached?.definition) {
+      await updateCachedLookup(job.word, job.targetLanguage, job.nativeLanguage, { definition: details });
+    }
+
+    // A failed picture shouldn't cost the word: it's saved without one and can get an image from its card later
+    let imageUrl = cached?.images[0] ?? '';
+    if (job.withImage && !imageUrl) {
+      const generated = await generateStyledImage(details.word, job.nativeLanguage);
+      imageUrl = generated.image;
+      if (imageUrl) {
+        await appendCachedImage(job.word, job.targetLanguage, job.nativeLanguage, imageUrl, generated.style);
+      } else {
+        console.warn(`Image generation failed for "${details.word}"; saving it without an image`);
       }
-      return [newItem, ...prev];
-    });
+    }
+
+    const created = createSavedItem(details, imageUrl ? await saveImage(imageUrl) : '', job.targetLanguage, job.nativeLanguage);
+    const newItem = job.example
+      ? { ...created, examples: [job.example, ...(created.examples ?? []).filter(ex => ex !== job.example)] }
+      : created;
+    setSavedItems(prev => hasSavedWord(prev, newItem.word, job) ? prev : [newItem, ...prev]);
+  };
+
+  // Queue words picked in the reader; the sentence each came from becomes its first example
+  const handleHarvestWords = (words: HarvestedWord[], withImage: boolean) => {
+    const fresh = dedupeWords(words.map(w => w.word), savedItems, importJobs, { targetLanguage, nativeLanguage });
+    if (fresh.length === 0) return;
+    const examples = Object.fromEntries(words.map(w => [w.word.toLowerCase(), w.example]));
+    importQueueRef.current?.enqueue(fresh, { targetLanguage, nativeLanguage, withImage }, examples);
+  };
+
+  // The queue outlives renders, so it goes through the ref to reach the latest ratings and state
+  const enrichImportJobRef = useRef(enrichImportJob);
+  enrichImportJobRef.current = enrichImportJob;
+
+  if (!importQueueRef.current) {
+    importQueueRef.current = createImportQueue({ process: job => enrichImportJobRef.current(job), onChange: setImportJobs });
+  }
+
+  const handleImportWords = (words: string[], withImage: boolean) => {
+    importQueueRef.current?.enqueue(words, { targetLanguage, nativeLanguage, withImage });
   };
 
   const handleRemoveSavedItem = (id: string) => {
-    setSavedItems(prev => prev.filter(item => item.id !== id));
+    const removed = savedItems.find(item => item.id === id);
+    const remaining = savedItems.filter(item => item.id !== id);
+    setSavedItems(remaining);
+    // Images are shared by content, so only drop the blob once nothing points at it
+    if (removed?.imageId && !remaining.some(item => item.imageId === removed.imageId)) {
+      deleteImage(removed.imageId).catch(err => console.error("Failed to delete image", err));
+    }
+  };
+
+  const handleOrganizeItem = (id: string, changes: ItemOrganization) => {
+    setSavedItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    setEditingItemId(null);
+  };
+
+  const handleGradeReview = (id: string, grade: ReviewGrade) => {
+    const graded = savedItems.find(item => item.id === id);
+    if (graded) setActivity(prev => recordActivity(prev, { type: 'review', word: graded.word, grade, at: Date.now() }));
+    setSavedItems(prev => prev.map(item =>
+      item.id === id ? { ...item, review: scheduleReview(item.review, grade) } : item
+    ));
+  };
+
+  // Words missed in a story or quiz jump the review queue
+  const handlePracticeMisses = (words: string[]) => {
+    const missed = new Set(words.map(w => w.toLowerCase()));
+    const at = Date.now();
+    setActivity(prev => recordActivity(prev, ...words.map(word => ({ type: 'missed' as const, word, at }))));
+    setSavedItems(prev => prev.map(item =>
+      missed.has(item.word.toLowerCase()) ? { ...item, review: prioritizeReview(item.review) } : item
+    ));
   };
 
   const handleGenerateStory = async () => {
-    if (savedItems.length === 0) return;
+    if (deckItems.length === 0) return;
+    const replacing = !!storyQuiz;
     setLoadingStory(true);
     setStoryQuiz(null);
     
     try {
       // Extract unique words
-      const uniqueWords = Array.from(new Set(savedItems.map(i => i.word)));
+      const uniqueWords = Array.from(new Set(deckItems.map(i => i.word)));
       const quiz = await generateStoryFromWords(uniqueWords, targetLanguage);
-      setStoryQuiz(quiz);
+      // The story travels in the history entry so back/forward can bring it back
+      if (replacing) {
+        navigate({ name: 'wordbook', panel: 'story' }, { replace: true, state: { ...window.history.state, story: quiz } });
+      } else {
+        openPanel({ name: 'wordbook', panel: 'story' }, { story: quiz });
+      }
     } catch (err) {
       console.error("Story generation failed", err);
     } finally {
@@ -235,9 +750,53 @@ function App() {
     }
   };
 
+  // Stream a model reply to `userText` into a new message, given the conversation before it
+  const streamModelReply = async (history: ChatMessage[], userText: string) => {
+    if (!wordData || !lookupContext) return;
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const botId = (Date.now() + 1).toString();
+    const setBotText = (text: string) =>
+      setChatMessages(prev => prev.map(m => (m.id === botId ? { ...m, text } : m)));
+
+    setChatMessages(prev => [...prev, { id: botId, role: 'model', text: '' }]);
+    setIsChatSending(true);
+
+    let text = '';
+    try {
+      const stream = streamChatAboutWord(
+        history.filter(m => m.text).map(m => ({ role: m.role, text: m.text })),
+        userText,
+        wordData.word,
+        lookupContext.targetLanguage,
+        lookupContext.nativeLanguage,
+        controller.signal
+      );
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+        text += chunk;
+        setBotText(text);
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Chat failed", err);
+      }
+    } finally {
+      if (!text) {
+        const status = controller.signal.aborted ? 'stopped' : 'failed';
+        setChatMessages(prev => prev.map(m => (m.id === botId ? { ...m, status } : m)));
+      }
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsChatSending(false);
+      }
+    }
+  };
+
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!chatInput.trim() || !wordData) return;
+    if (!chatInput.trim() || !wordData || isChatSending) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
@@ -245,60 +804,106 @@ function App() {
       text: chatInput
     };
 
+    const history = chatMessages;
     setChatMessages(prev => [...prev, userMsg]);
     setChatInput('');
-    setIsChatSending(true);
+    await streamModelReply(history, userMsg.text);
+  };
+
+  const handleStopChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // Drop a model answer (and anything after it) and ask the same question again
+  const handleRegenerate = async (messageId: string) => {
+    const index = chatMessages.findIndex(m => m.id === messageId);
+    const question = chatMessages[index - 1];
+    if (index < 1 || question?.role !== 'user' || isChatSending) return;
+
+    setChatMessages(chatMessages.slice(0, index));
+    await streamModelReply(chatMessages.slice(0, index - 1), question.text);
+  };
 
+  // Persist the conversation once a reply has finished
+  useEffect(() => {
+    if (isChatSending || !wordData || !lookupContext || chatMessages.length === 0) return;
+    if (chatMessages === restoredChatRef.current) return;
+    saveChatThread(wordData.word, lookupContext.targetLanguage, lookupContext.nativeLanguage, chatMessages)
+      .catch(err => console.error("Failed to save chat thread", err));
+  }, [chatMessages, isChatSending]);
+
+  const handleToggleChatThreads = async () => {
+    if (showChatThreads) {
+      setShowChatThreads(false);
+      return;
+    }
     try {
-      const history = chatMessages.map(m => ({ role: m.role, text: m.text }));
-      const responseText = await chatAboutWord(history, userMsg.text, wordData.word, targetLanguage, nativeLanguage);
-      
-      const botMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: responseText || "I couldn't answer that at the moment."
-      };
-      setChatMessages(prev => [...prev, botMsg]);
+      setChatThreads(await listChatThreads());
     } catch (err) {
-      console.error("Chat failed", err);
-    } finally {
-      setIsChatSending(false);
+      console.error("Failed to load chat history", err);
+    }
+    setShowChatThreads(true);
+  };
+
+  const handleOpenChatThread = (thread: ChatThread) => {
+    navigate({ name: 'word', word: thread.word, targetLanguage: thread.targetLanguage, nativeLanguage: thread.nativeLanguage, panel: 'chat' });
+  };
+
+  const handleDeleteChatThread = async (thread: ChatThread) => {
+    try {
+      await deleteChatThread(thread.key);
+      setChatThreads(prev => prev.filter(t => t.key !== thread.key));
+    } catch (err) {
+      console.error("Failed to delete chat thread", err);
     }
   };
 
+  // Append a tutor answer to the notes of the saved entry for this word
+  // Attach to one entry for this language pair: the one on screen if saved, else the current sense, else the first
+  const handleAttachNote = (msg: ChatMessage) => {
+    if (!wordData || !lookupContext) return;
+    const entries = savedEntriesFor(savedItems, wordData.word, lookupContext);
+    const target =
+      entries.find(item => item.imageId === currentImageId && item.definition === activeSense?.definition) ??
+      entries.find(item => item.definition === activeSense?.definition) ??
+      entries[0];
+    if (!target) return;
+    setSavedItems(prev => prev.map(item =>
+      item.id === target.id
+        ? { ...item, notes: item.notes ? `${item.notes}\n\n${msg.text}` : msg.text }
+        : item
+    ));
+    setNotedMessageIds(prev => [...prev, msg.id]);
+  };
+
   // Auto-scroll chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages, isChatOpen]);
 
-  // Render Helper for Story Content
-  const renderStoryContent = (content: string) => {
-    // Split by {{word}}
-    const parts = content.split(/(\{\{.*?\}\})/g);
-    
-    return (
-      <p className="text-xl leading-loose text-stone-800 font-serif">
-        {parts.map((part, i) => {
-          if (part.startsWith('{{') && part.endsWith('}}')) {
-            const word = part.slice(2, -2);
-            return <QuizBlank key={i} word={word} />;
-          }
-          return <span key={i}>{part}</span>;
-        })}
-      </p>
-    );
-  };
-
   const currentImage = gallery[activeImageIndex];
-  const currentFeedback = currentImage ? imageFeedbacks[currentImage] : undefined;
-  const isCurrentSaved = savedItems.some(item => item.imageUrl === currentImage && item.word === wordData?.word);
+  const currentImageId = useMemo(() => (currentImage ? imageIdFor(currentImage) : ''), [currentImage]);
+  const currentFeedback = currentImageId ? getImageRating(imageFeedback, currentImageId) : undefined;
+  const styleScores = getStyleScores(imageFeedback);
+  const senses = wordData ? getSenses(wordData) : [];
+  const activeSense: WordSense | undefined = senses[activeSenseIndex] ?? senses[0];
+  const activeForms = activeSense ? inflections[formsKey(activeSense.partOfSpeech)] : undefined;
+  const isCurrentSaved = savedItems.some(item =>
+    item.imageId === currentImageId && item.word === wordData?.word && item.definition === activeSense?.definition
+  );
+  const dueItems = getDueItems(savedItems);
+  const editingItem = savedItems.find(item => item.id === editingItemId);
+  const isWordSaved = !!wordData && hasSavedWord(savedItems, wordData.word, lookupContext ?? undefined);
+  const activeImports = importJobs.filter(job => job.status === 'pending' || job.status === 'running').length;
+  const importProgress = activeImports > 0 ? `${importJobs.length - activeImports}/${importJobs.length}` : '';
 
   return (
+    <TranslationContext.Provider value={t}>
     <div className="min-h-screen flex flex-col bg-[#F9F8F6] text-stone-900 font-sans selection:bg-orange-100 selection:text-orange-900">
       {/* Header */}
       <header className="bg-white/80 backdrop-blur-md border-b border-stone-200 sticky top-0 z-10">
         <div className="max-w-6xl mx-auto px-6 h-20 flex items-center justify-between">
-          <button onClick={() => setView('search')} className="flex items-center gap-3 hover:opacity-80 transition-opacity">
+          <button onClick={() => navigate(wordRoute())} className="flex items-center gap-3 hover:opacity-80 transition-opacity">
             <div className="w-10 h-10 bg-stone-900 text-white rounded-xl flex items-center justify-center">
                <BookIcon className="w-6 h-6" />
             </div>
@@ -310,35 +915,76 @@ function App() {
               
               {/* I speak... */}
               <div className="flex items-center gap-2">
-                <span className="text-[10px] font-bold uppercase tracking-wide text-stone-400">I speak</span>
+                <span className="text-[10px] font-bold uppercase tracking-wide text-stone-400">{t('header.iSpeak')}</span>
                 <select 
                   value={nativeLanguage}
                   onChange={(e) => setNativeLanguage(e.target.value as SupportedLanguage)}
                   className="text-sm bg-transparent border-b border-stone-200 hover:border-orange-400 text-stone-900 font-semibold focus:ring-0 cursor-pointer py-1 pr-1 w-24 md:w-auto transition-colors"
                 >
                   {Object.values(SupportedLanguage).map((lang) => (
-                    <option key={lang} value={lang}>{lang}</option>
+                    <option key={lang} value={lang}>{LANGUAGE_NAMES[lang]}</option>
                   ))}
                 </select>
               </div>
 
               {/* Explain in... */}
               <div className="flex items-center gap-2">
-                <span className="text-[10px] font-bold uppercase tracking-wide text-stone-400">Explain in</span>
+                <span className="text-[10px] font-bold uppercase tracking-wide text-stone-400">{t('header.explainIn')}</span>
                 <select 
                   value={targetLanguage}
                   onChange={(e) => setTargetLanguage(e.target.value as SupportedLanguage)}
                   className="text-sm bg-transparent border-b border-stone-200 hover:border-orange-400 text-orange-700 font-semibold focus:ring-0 cursor-pointer py-1 pr-1 w-24 md:w-auto transition-colors"
                 >
                   {Object.values(SupportedLanguage).map((lang) => (
-                    <option key={lang} value={lang}>{lang}</option>
+                    <option key={lang} value={lang}>{LANGUAGE_NAMES[lang]}</option>
                   ))}
                 </select>
               </div>
             </div>
 
             <button 
-              onClick={() => setView(view === 'wordbook' ? 'search' : 'wordbook')}
+              onClick={() => navigate(view === 'reader' ? wordRoute() : { name: 'reader' })}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full border transition-all ${
+                view === 'reader' 
+                ? 'bg-orange-100 border-orange-200 text-orange-800' 
+                : 'bg-white border-stone-200 text-stone-600 hover:bg-stone-50'
+              }`}
+            >
+              <BookIcon className="w-4 h-4" />
+              <span className="font-bold text-sm hidden sm:inline">{t('nav.reader')}</span>
+            </button>
+
+            <button 
+              onClick={() => navigate(view === 'stats' ? wordRoute() : { name: 'stats' })}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full border transition-all ${
+                view === 'stats' 
+                ? 'bg-orange-100 border-orange-200 text-orange-800' 
+                : 'bg-white border-stone-200 text-stone-600 hover:bg-stone-50'
+              }`}
+            >
+              <ChartIcon className="w-4 h-4" />
+              <span className="font-bold text-sm hidden sm:inline">{t('nav.progress')}</span>
+            </button>
+
+            <button 
+              onClick={() => navigate(view === 'review' ? wordRoute() : { name: 'review' })}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full border transition-all ${
+                view === 'review' 
+                ? 'bg-orange-100 border-orange-200 text-orange-800' 
+                : 'bg-white border-stone-200 text-stone-600 hover:bg-stone-50'
+              }`}
+            >
+              <LayersIcon className="w-4 h-4" />
+              <span className="font-bold text-sm hidden sm:inline">{t('nav.review')}</span>
+              {dueItems.length > 0 && (
+                <span className="ms-1 bg-orange-600 text-white text-[10px] font-bold px-1.5 rounded-full">
+                  {dueItems.length}
+                </span>
+              )}
+            </button>
+
+            <button 
+              onClick={() => navigate(view === 'wordbook' ? wordRoute() : { name: 'wordbook' })}
               className={`flex items-center gap-2 px-4 py-2 rounded-full border transition-all ${
                 view === 'wordbook' 
                 ? 'bg-orange-100 border-orange-200 text-orange-800' 
@@ -346,9 +992,9 @@ function App() {
               }`}
             >
               <GridIcon className="w-4 h-4" />
-              <span className="font-bold text-sm hidden sm:inline">Wordbook</span>
+              <span className="font-bold text-sm hidden sm:inline">{t('nav.wordbook')}</span>
               {savedItems.length > 0 && (
-                <span className="ml-1 bg-stone-900 text-white text-[10px] font-bold px-1.5 rounded-full">
+                <span className="ms-1 bg-stone-900 text-white text-[10px] font-bold px-1.5 rounded-full">
                   {savedItems.length}
                 </span>
               )}
@@ -361,91 +1007,311 @@ function App() {
       <main className="flex-grow px-4 py-12">
         <div className="max-w-5xl mx-auto w-full">
           
-          {view === 'wordbook' ? (
+          {view === 'review' ? (
+            /* REVIEW VIEW */
+            <div className="animate-fade-in space-y-8">
+              <div className="border-b border-stone-200 pb-6">
+                <h2 className="text-4xl font-serif font-bold text-stone-900">{t('review.title')}</h2>
+                <p className="text-stone-500 font-medium mt-1">{t('review.due', { count: dueItems.length })}</p>
+              </div>
+              <ReviewSession
+                items={dueItems}
+                onGrade={handleGradeReview}
+                onExit={() => navigate({ name: 'wordbook' })}
+              />
+            </div>
+          ) : view === 'reader' ? (
+            /* READER VIEW */
+            <div className="animate-fade-in space-y-8">
+              <div className="border-b border-stone-200 pb-6">
+                <h2 className="text-4xl font-serif font-bold text-stone-900">{t('reader.title')}</h2>
+                <p className="text-stone-500 font-medium mt-1">
+                  {importProgress ? t('reader.saving', { progress: importProgress }) : t('reader.subtitle')}
+                </p>
+              </div>
+              <ReaderView
+                savedItems={savedItems}
+                targetLanguage={targetLanguage}
+                onHarvest={handleHarvestWords}
+              />
+            </div>
+          ) : view === 'stats' ? (
+            /* PROGRESS VIEW */
+            <div className="animate-fade-in space-y-8">
+              <div className="border-b border-stone-200 pb-6">
+                <h2 className="text-4xl font-serif font-bold text-stone-900">{t('stats.title')}</h2>
+                <p className="text-stone-500 font-medium mt-1">{t('stats.subtitle')}</p>
+              </div>
+              <ProgressDashboard
+                savedItems={savedItems}
+                activity={activity}
+                onOpenWord={(word) => {
+                  const item = savedItems.find(i => i.word.toLowerCase() === word.toLowerCase());
+                  navigate({
+                    name: 'word',
+                    word,
+                    targetLanguage: item?.targetLanguage ?? targetLanguage,
+                    nativeLanguage: item?.nativeLanguage ?? nativeLanguage,
+                  });
+                }}
+              />
+            </div>
+          ) : view === 'quiz' ? (
+            /* QUIZ VIEW */
+            <div className="animate-fade-in space-y-8">
+              <div className="border-b border-stone-200 pb-6">
+                <h2 className="text-4xl font-serif font-bold text-stone-900">
+                  {t('quiz.title')}
+                  {activeDeck && <span className="text-orange-600"> · {activeDeck}</span>}
+                </h2>
+                <p className="text-stone-500 font-medium mt-1">{t('quiz.subtitle', { count: deckItems.length })}</p>
+              </div>
+              <QuizSession
+                items={deckItems}
+                onMissed={handlePracticeMisses}
+                onExit={() => navigate({ name: 'wordbook' })}
+              />
+            </div>
+          ) : view === 'wordbook' ? (
             /* WORDBOOK VIEW */
             <div className="animate-fade-in space-y-8">
                <div className="flex flex-col md:flex-row md:items-center justify-between border-b border-stone-200 pb-6 gap-4">
                  <div>
-                   <h2 className="text-4xl font-serif font-bold text-stone-900">My Wordbook</h2>
-                   <p className="text-stone-500 font-medium mt-1">{savedItems.length} Saved Words</p>
+                   <h2 className="text-4xl font-serif font-bold text-stone-900">{t('wordbook.title')}</h2>
+                   <p className="text-stone-500 font-medium mt-1">{t('wordbook.count', { count: deckItems.length })}</p>
+                   <div className="mt-2">
+                     <StorageIndicator refreshKey={savedItems} />
+                   </div>
                  </div>
                  
                  {savedItems.length > 0 && (
-                   <button 
-                     onClick={handleGenerateStory}
-                     disabled={loadingStory}
-                     className="flex items-center gap-2 px-5 py-3 bg-stone-900 text-white rounded-xl hover:bg-orange-600 transition-all shadow-lg disabled:opacity-70"
-                   >
-                     {loadingStory ? <Loader size="sm" color="text-white" /> : <PenToolIcon className="w-4 h-4" />}
-                     <span className="font-bold text-sm">Practice with AI Story</span>
-                   </button>
+                   <div className="flex gap-3">
+                     <button 
+                       onClick={() => setIsImportOpen(true)}
+                       className="flex items-center gap-2 px-5 py-3 bg-white border border-stone-200 text-stone-700 rounded-xl hover:bg-orange-50 hover:text-orange-800 transition-all"
+                     >
+                       <UploadIcon className="w-4 h-4" />
+                       <span className="font-bold text-sm">
+                         {importProgress ? t('wordbook.importing', { progress: importProgress }) : t('wordbook.import')}
+                       </span>
+                     </button>
+                     <button 
+                       onClick={() => setIsExportOpen(true)}
+                       className="flex items-center gap-2 px-5 py-3 bg-white border border-stone-200 text-stone-700 rounded-xl hover:bg-orange-50 hover:text-orange-800 transition-all"
+                     >
+                       <DownloadIcon className="w-4 h-4" />
+                       <span className="font-bold text-sm">{t('wordbook.export')}</span>
+                     </button>
+                     <button 
+                       onClick={() => navigate({ name: 'review' })}
+                       className="flex items-center gap-2 px-5 py-3 bg-white border border-stone-200 text-stone-700 rounded-xl hover:bg-orange-50 hover:text-orange-800 transition-all"
+                     >
+                       <LayersIcon className="w-4 h-4" />
+                       <span className="font-bold text-sm">{t('wordbook.reviewDue', { count: dueItems.length })}</span>
+                     </button>
+                     <button 
+                       onClick={() => navigate({ name: 'quiz' })}
+                       className="flex items-center gap-2 px-5 py-3 bg-white border border-stone-200 text-stone-700 rounded-xl hover:bg-orange-50 hover:text-orange-800 transition-all"
+                     >
+                       <GridIcon className="w-4 h-4" />
+                       <span className="font-bold text-sm">{t('wordbook.quiz')}</span>
+                     </button>
+                     <button 
+                       onClick={handleGenerateStory}
+                       disabled={loadingStory}
+                       className="flex items-center gap-2 px-5 py-3 bg-stone-900 text-white rounded-xl hover:bg-orange-600 transition-all shadow-lg disabled:opacity-70"
+                     >
+                       {loadingStory ? <Loader size="sm" color="text-white" /> : <PenToolIcon className="w-4 h-4" />}
+                       <span className="font-bold text-sm">{t('wordbook.story')}</span>
+                     </button>
+                   </div>
                  )}
                </div>
 
-               {/* Story Mode Section */}
-               {storyQuiz && (
-                 <div className="bg-white border border-orange-200 rounded-3xl p-8 shadow-xl shadow-orange-100/50 relative overflow-hidden animate-fade-in mb-10">
-                   <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-orange-400 to-red-500" />
-                   <div className="flex justify-between items-start mb-6">
-                     <h3 className="text-3xl font-serif font-bold text-stone-900">{storyQuiz.title}</h3>
-                     <button 
-                       onClick={() => setStoryQuiz(null)}
-                       className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600"
+               {/* Deck filter; also scopes the story, quiz and export */}
+               {decks.length > 0 && (
+                 <div className="flex flex-wrap gap-2">
+                   {[null, ...decks].map(deck => (
+                     <button
+                       key={deck ?? ''}
+                       onClick={() => setActiveDeck(deck)}
+                       className={`px-4 py-2 rounded-full text-sm font-bold transition-colors ${
+                         activeDeck === deck
+                           ? 'bg-stone-900 text-white'
+                           : 'bg-white border border-stone-200 text-stone-600 hover:bg-orange-50 hover:text-orange-800'
+                       }`}
                      >
-                       <XIcon className="w-6 h-6" />
+                       {deck ?? t('wordbook.allDecks')}
+                       <span className="ms-2 opacity-60">{itemsInDeck(savedItems, deck).length}</span>
                      </button>
+                   ))}
+                 </div>
+               )}
+
+               {savedItems.length > 0 && (
+                 <div className="flex flex-wrap items-center gap-2">
+                   <div className="relative flex-1 min-w-[14rem]">
+                     <SearchIcon className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-stone-400" />
+                     <input
+                       type="search"
+                       value={wordbookFilter.text}
+                       onChange={(e) => updateWordbookFilter({ text: e.target.value })}
+                       placeholder={t('filter.search')}
+                       className="w-full ps-9 pe-3 py-2 bg-white border border-stone-200 rounded-xl text-sm focus:outline-none focus:border-orange-400"
+                     />
                    </div>
-                   
-                   <div className="prose prose-stone max-w-none">
-                      {renderStoryContent(storyQuiz.content)}
-                   </div>
-                   
-                   <div className="mt-8 pt-6 border-t border-stone-100 flex justify-between items-center">
-                     <p className="text-stone-500 text-sm font-medium italic">
-                       Click the underlined blanks to reveal the words.
-                     </p>
-                     <div className="flex gap-2">
-                        {storyQuiz.wordsUsed.map(w => (
-                          <span key={w} className="text-xs px-2 py-1 bg-stone-100 text-stone-500 rounded">
-                            {w}
-                          </span>
-                        ))}
+                   {languagePairs.length > 1 && (
+                     <select
+                       value={wordbookFilter.languagePair ?? ''}
+                       onChange={(e) => updateWordbookFilter({ languagePair: e.target.value || null })}
+                       className="px-3 py-2 bg-white border border-stone-200 rounded-xl text-sm font-medium text-stone-600 focus:outline-none focus:border-orange-400"
+                     >
+                       <option value="">{t('filter.allLanguages')}</option>
+                       {languagePairs.map(pair => (
+                         <option key={pair.key} value={pair.key}>
+                           {LANGUAGE_NAMES[pair.nativeLanguage]} → {LANGUAGE_NAMES[pair.targetLanguage]}
+                         </option>
+                       ))}
+                     </select>
+                   )}
+                   <select
+                     value={wordbookFilter.savedWithin}
+                     onChange={(e) => updateWordbookFilter({ savedWithin: e.target.value as SavedWithin })}
+                     className="px-3 py-2 bg-white border border-stone-200 rounded-xl text-sm font-medium text-stone-600 focus:outline-none focus:border-orange-400"
+                   >
+                     <option value="any">{t('filter.anyTime')}</option>
+                     <option value="week">{t('filter.pastWeek')}</option>
+                     <option value="month">{t('filter.pastMonth')}</option>
+                     <option value="year">{t('filter.pastYear')}</option>
+                   </select>
+                   <select
+                     value={wordbookFilter.status ?? ''}
+                     onChange={(e) => updateWordbookFilter({ status: (e.target.value || null) as ReviewStatus | null })}
+                     className="px-3 py-2 bg-white border border-stone-200 rounded-xl text-sm font-medium text-stone-600 focus:outline-none focus:border-orange-400"
+                   >
+                     <option value="">{t('filter.allStatuses')}</option>
+                     <option value="new">{t('filter.statusNew')}</option>
+                     <option value="due">{t('filter.statusDue')}</option>
+                     <option value="learning">{t('filter.statusLearning')}</option>
+                     <option value="mastered">{t('filter.statusMastered')}</option>
+                   </select>
+                   <select
+                     value={wordbookFilter.sort}
+                     onChange={(e) => updateWordbookFilter({ sort: e.target.value as WordbookSort })}
+                     className="px-3 py-2 bg-white border border-stone-200 rounded-xl text-sm font-medium text-stone-600 focus:outline-none focus:border-orange-400"
+                   >
+                     <option value="newest">{t('sort.newest')}</option>
+                     <option value="oldest">{t('sort.oldest')}</option>
+                     <option value="alphabetical">{t('sort.alphabetical')}</option>
+                     <option value="weakest">{t('sort.weakest')}</option>
+                   </select>
+                   {isFiltered(wordbookFilter) && (
+                     <div className="flex items-center gap-3 text-sm">
+                       <span className="text-stone-500 font-medium">{t('filter.showing', { count: visibleItems.length, total: deckItems.length })}</span>
+                       <button
+                         onClick={() => setWordbookFilter({ ...DEFAULT_WORDBOOK_FILTER, sort: wordbookFilter.sort })}
+                         className="font-bold text-orange-600 hover:underline"
+                       >
+                         {t('filter.clear')}
+                       </button>
                      </div>
-                   </div>
+                   )}
                  </div>
                )}
 
+               {storageError && (
+                 <div className="bg-red-50 border-s-4 border-red-400 p-4 rounded-e-xl text-red-800 text-sm font-medium">
+                   {t(storageError)}
+                 </div>
+               )}
+
+               {/* Story Mode Section */}
+               {storyQuiz && (
+                 <StoryQuizPanel
+                   quiz={storyQuiz}
+                   speech={speech}
+                   onClose={() => closePanel({ name: 'wordbook' })}
+                   onMissed={handlePracticeMisses}
+                 />
+               )}
+
                {savedItems.length === 0 ? (
                  <div className="text-center py-20 text-stone-400">
                    <GridIcon className="w-16 h-16 mx-auto mb-4 opacity-30" />
-                   <p className="text-xl">No words saved yet.</p>
+                   <p className="text-xl">{t('wordbook.empty')}</p>
+                   <button 
+                      onClick={() => navigate(wordRoute())}
+                      className="mt-4 text-orange-600 font-bold hover:underline"
+                   >
+                     {t('wordbook.startSearching')}
+                   </button>
+                   <span className="mx-2">{t('wordbook.or')}</span>
                    <button 
-                      onClick={() => setView('search')}
+                      onClick={() => setIsImportOpen(true)}
                       className="mt-4 text-orange-600 font-bold hover:underline"
                    >
-                     Start searching
+                     {t('wordbook.importList')}
                    </button>
                  </div>
+               ) : visibleItems.length === 0 ? (
+                 <p className="text-center py-16 text-stone-400 text-lg">{t('filter.noMatches')}</p>
                ) : (
                  <div className="columns-1 sm:columns-2 lg:columns-3 gap-6 space-y-6">
-                   {savedItems.map((item) => (
+                   {visibleItems.map((item) => (
                      <div key={item.id} className="break-inside-avoid bg-white rounded-2xl overflow-hidden shadow-md border border-stone-100 group hover:shadow-xl transition-all">
                         <div className="relative aspect-square bg-stone-100">
-                           <img src={item.imageUrl} alt={item.word} className="w-full h-full object-cover" />
+                           <StoredImage imageId={item.imageId} variant="thumb" alt={item.word} className="w-full h-full object-cover" />
                            <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors" />
-                           <button 
-                             onClick={() => handleRemoveSavedItem(item.id)}
-                             className="absolute top-3 right-3 p-2 bg-white/90 text-red-500 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-50"
-                             title="Remove from wordbook"
-                           >
-                             <TrashIcon className="w-4 h-4" />
-                           </button>
+                           <div className="absolute top-3 end-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                             <button
+                               onClick={() => setEditingItemId(item.id)}
+                               className="p-2 bg-white/90 text-stone-600 rounded-lg hover:bg-orange-50 hover:text-orange-700"
+                               title={t('wordbook.edit')}
+                             >
+                               <PenToolIcon className="w-4 h-4" />
+                             </button>
+                             <button 
+                               onClick={() => handleRemoveSavedItem(item.id)}
+                               className="p-2 bg-white/90 text-red-500 rounded-lg hover:bg-red-50"
+                               title={t('wordbook.remove')}
+                             >
+                               <TrashIcon className="w-4 h-4" />
+                             </button>
+                           </div>
+                           {item.deck && activeDeck === null && (
+                             <span className="absolute bottom-3 start-3 px-2.5 py-1 bg-white/90 backdrop-blur text-stone-700 text-[10px] font-bold uppercase tracking-wider rounded-full">
+                               {item.deck}
+                             </span>
+                           )}
                         </div>
                         <div className="p-5">
-                          <h3 className="text-2xl font-serif font-bold text-stone-900 mb-2 capitalize">{item.word}</h3>
+                          <button
+                            onClick={() => navigate({
+                              name: 'word',
+                              word: item.word,
+                              targetLanguage: item.targetLanguage ?? targetLanguage,
+                              nativeLanguage: item.nativeLanguage ?? nativeLanguage,
+                            })}
+                            className="text-start"
+                            title={t('wordbook.open')}
+                          >
+                            <h3 className="text-2xl font-serif font-bold text-stone-900 mb-2 capitalize hover:text-orange-600 transition-colors">{item.word}</h3>
+                          </button>
                           <p className="text-stone-600 text-sm line-clamp-3 leading-relaxed">
                             {item.definition}
                           </p>
+                          {item.tags && item.tags.length > 0 && (
+                            <div className="mt-3 flex flex-wrap gap-1.5">
+                              {item.tags.map(tag => (
+                                <span key={tag} className="px-2 py-0.5 bg-orange-50 text-orange-800 text-xs font-medium rounded">#{tag}</span>
+                              ))}
+                            </div>
+                          )}
+                          {item.notes && (
+                            <p className="mt-3 pt-3 border-t border-stone-100 text-stone-500 text-xs line-clamp-4 leading-relaxed whitespace-pre-line">
+                              {item.notes}
+                            </p>
+                          )}
                         </div>
                      </div>
                    ))}
@@ -456,39 +1322,138 @@ function App() {
             /* SEARCH VIEW */
             <>
               {/* Search Section */}
-              <div className={`transition-all duration-700 ease-out ${wordData ? 'mb-12' : 'mt-[15vh] mb-16 text-center max-w-2xl mx-auto'}`}>
-                {!wordData && (
+              <div className={`transition-all duration-700 ease-out ${wordData || sentenceAnalysis ? 'mb-12' : 'mt-[15vh] mb-16 text-center max-w-2xl mx-auto'}`}>
+                {!wordData && !sentenceAnalysis && (
                   <div className="mb-10 space-y-4 animate-fade-in">
                     <h1 className="text-5xl sm:text-6xl font-serif text-stone-900 font-bold tracking-tight">
-                      Words, <span className="text-orange-600 italic">reimagined.</span>
+                      {t('hero.title')} <span className="text-orange-600 italic">{t('hero.titleAccent')}</span>
                     </h1>
                     <p className="text-stone-500 text-xl font-light max-w-lg mx-auto">
-                      Enter a word to get a rich, visual explanation in your language.
+                      {t('hero.subtitle')}
                     </p>
                   </div>
                 )}
                 
+                <div className={`flex gap-1 mb-3 ${wordData || sentenceAnalysis ? '' : 'justify-center'}`}>
+                  {(['word', 'sentence'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setSearchMode(mode)}
+                      className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider transition-colors ${
+                        searchMode === mode ? 'bg-stone-900 text-white' : 'text-stone-500 hover:bg-stone-100'
+                      }`}
+                    >
+                      {mode === 'word' ? t('search.modeWord') : t('search.modeSentence')}
+                    </button>
+                  ))}
+                </div>
+
                 <form onSubmit={handleSearch} className="relative group">
-                  <div className="absolute inset-y-0 left-0 pl-6 flex items-center pointer-events-none">
+                  <div className="absolute inset-y-0 start-0 ps-6 flex items-center pointer-events-none">
                     <SearchIcon className="h-6 w-6 text-stone-400 group-focus-within:text-orange-500 transition-colors" />
                   </div>
                   <input
                     type="text"
-                    className="block w-full pl-16 pr-6 py-6 bg-white border-2 border-stone-100 rounded-2xl text-2xl font-serif shadow-xl shadow-stone-200/40 placeholder-stone-300 focus:outline-none focus:border-orange-500/50 focus:ring-0 transition-all"
-                    placeholder="Search a word..."
+                    className="block w-full ps-16 pe-6 py-6 bg-white border-2 border-stone-100 rounded-2xl text-2xl font-serif shadow-xl shadow-stone-200/40 placeholder-stone-300 focus:outline-none focus:border-orange-500/50 focus:ring-0 transition-all"
+                    placeholder={searchMode === 'word' ? t('search.placeholderWord') : t('search.placeholderSentence')}
                     value={query}
-                    onChange={(e) => setQuery(e.target.value)}
+                    onChange={(e) => {
+                      setQuery(e.target.value);
+                      setShowSuggestions(true);
+                      setHighlightedSuggestion(-1);
+                    }}
+                    onFocus={() => setShowSuggestions(true)}
+                    onBlur={() => setShowSuggestions(false)}
+                    onKeyDown={handleSearchKeyDown}
+                    autoComplete="off"
                   />
                   <button 
                     type="submit"
-                    disabled={!query.trim() || loadingWord}
-                    className="absolute right-3 top-3 bottom-3 px-8 bg-stone-900 text-white rounded-xl font-medium text-lg hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-300"
+                    disabled={!query.trim() || loadingWord || checkingSpelling || loadingSentence}
+                    className="absolute end-3 top-3 bottom-3 px-8 bg-stone-900 text-white rounded-xl font-medium text-lg hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-300"
                   >
-                    {loadingWord ? <Loader size="sm" color="text-white" /> : 'Search'}
+                    {loadingWord || checkingSpelling || loadingSentence
+                      ? <Loader size="sm" color="text-white" />
+                      : searchMode === 'word' ? t('search.submitWord') : t('search.submitSentence')}
                   </button>
+
+                  {/* Autocomplete: recent searches and saved words */}
+                  {suggestions.length > 0 && (
+                    <div className="absolute z-20 left-0 right-0 top-full mt-2 bg-white border border-stone-100 rounded-2xl shadow-xl overflow-hidden text-start">
+                      {!query.trim() && (
+                        <div className="flex items-center justify-between px-6 pt-3 pb-1 text-[10px] font-bold uppercase tracking-wider text-stone-400">
+                          <span>{t('search.recent')}</span>
+                          <button
+                            type="button"
+                            onMouseDown={(e) => {
+                              e.preventDefault();
+                              setSearchHistory([]);
+                            }}
+                            className="hover:text-orange-600"
+                          >
+                            {t('search.clear')}
+                          </button>
+                        </div>
+                      )}
+                      {suggestions.map((suggestion, i) => (
+                        <button
+                          key={suggestion.term}
+                          type="button"
+                          // mousedown fires before the input's blur hides the list
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            searchTerm(suggestion.term);
+                          }}
+                          className={`w-full flex items-center justify-between px-6 py-3 text-lg font-serif transition-colors ${
+                            i === highlightedSuggestion ? 'bg-orange-50 text-orange-900' : 'text-stone-700 hover:bg-stone-50'
+                          }`}
+                        >
+                          <span>{suggestion.term}</span>
+                          <span className="text-[10px] font-sans font-bold uppercase tracking-wider text-stone-400">
+                            {suggestion.source === 'saved' ? t('search.sourceSaved') : t('search.sourceRecent')}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </form>
+
+                {/* Did you mean: shown instead of running a full lookup on a likely typo */}
+                {spellingCheck && (
+                  <div className="mt-4 p-5 bg-white border border-orange-200 rounded-2xl shadow-sm animate-fade-in text-start">
+                    <p className="text-stone-600 font-medium mb-3">
+                      {t('search.didYouMean', { term: spellingCheck.term })}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {spellingCheck.suggestions.map(suggestion => (
+                        <button
+                          key={suggestion}
+                          onClick={() => searchTerm(suggestion)}
+                          className="px-4 py-2 bg-orange-50 border border-orange-200 text-orange-800 rounded-xl font-serif text-lg font-bold hover:bg-orange-100 transition-colors"
+                        >
+                          {suggestion}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => searchTerm(spellingCheck.term)}
+                        className="px-4 py-2 text-sm font-medium text-stone-500 hover:text-stone-800 hover:underline"
+                      >
+                        {t('search.searchAnyway', { term: spellingCheck.term })}
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {sentenceAnalysis && (
+                <SentenceAnalysisCard
+                  analysis={sentenceAnalysis}
+                  activeLemma={lookupContext?.term}
+                  onSelectToken={handleSelectToken}
+                  onClose={() => setSentenceAnalysis(null)}
+                />
+              )}
+
               {/* Results Container */}
               {loadingWord && !wordData && (
                 <div className="flex flex-col items-center justify-center py-20 space-y-6 animate-pulse">
@@ -510,20 +1475,61 @@ function App() {
                           </h2>
                           <div className="flex items-center gap-4 text-xl text-stone-500">
                             <span className="font-mono text-orange-600 font-medium">{wordData.phonetic}</span>
+                            {grammarEntries(wordData.grammar).map(({ field, value }) => (
+                              <span
+                                key={field}
+                                title={t(GRAMMAR_LABELS[field])}
+                                className="px-2 py-0.5 rounded-md bg-stone-100 text-stone-600 text-base font-medium"
+                              >
+                                {value}
+                              </span>
+                            ))}
                             <span className="w-1.5 h-1.5 rounded-full bg-stone-300"></span>
                             <span className="italic font-serif">{wordData.partOfSpeech}</span>
                           </div>
                       </div>
-                      <button 
-                          onClick={handleAudioPlay}
-                          disabled={loadingAudio}
-                          className="group flex items-center gap-3 px-6 py-3 rounded-full bg-stone-50 border border-stone-200 hover:border-orange-200 hover:bg-orange-50 transition-all active:scale-95"
-                        >
-                          <div className="bg-stone-200 group-hover:bg-orange-200 rounded-full p-2 transition-colors">
-                            {loadingAudio ? <Loader size="sm" /> : <VolumeIcon className="w-5 h-5 text-stone-700 group-hover:text-orange-700" />}
-                          </div>
-                          <span className="font-bold text-stone-600 group-hover:text-orange-800 text-sm">Pronounce</span>
-                      </button>
+                      <div className="flex flex-col items-end gap-3">
+                        <button 
+                            onClick={handleAudioPlay}
+                            disabled={loadingAudio}
+                            className="group flex items-center gap-3 px-6 py-3 rounded-full bg-stone-50 border border-stone-200 hover:border-orange-200 hover:bg-orange-50 transition-all active:scale-95"
+                          >
+                            <div className="bg-stone-200 group-hover:bg-orange-200 rounded-full p-2 transition-colors">
+                              {loadingAudio ? <Loader size="sm" /> : <VolumeIcon className="w-5 h-5 text-stone-700 group-hover:text-orange-700" />}
+                            </div>
+                            <span className="font-bold text-stone-600 group-hover:text-orange-800 text-sm">{t('word.pronounce')}</span>
+                        </button>
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={speech.voice}
+                            onChange={(e) => setSpeech(prev => ({ ...prev, voice: e.target.value }))}
+                            title={t('word.voice')}
+                            className="text-xs bg-transparent border-b border-stone-200 hover:border-orange-400 text-stone-600 font-semibold focus:ring-0 cursor-pointer py-1 transition-colors"
+                          >
+                            {SPEECH_VOICES.map(v => (
+                              <option key={v.id} value={v.id}>{v.label}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => setSpeech(prev => ({ ...prev, slow: !prev.slow }))}
+                            title={t('word.slowTitle')}
+                            className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                              speech.slow ? 'bg-orange-100 text-orange-800' : 'text-stone-400 hover:text-stone-600 hover:bg-stone-100'
+                            }`}
+                          >
+                            {t('word.slow')}
+                          </button>
+                        </div>
+                        <button
+                            onClick={handleRefreshLookup}
+                            disabled={loadingWord}
+                            title={t('word.refreshTitle')}
+                            className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-stone-400 hover:text-orange-600 transition-colors"
+                          >
+                            <RefreshIcon className="w-3.5 h-3.5" />
+                            {fromCache ? t('word.cachedRefresh') : t('word.refresh')}
+                        </button>
+                      </div>
                     </div>
 
                     {/* 2. Two-Column Layout: Definition vs Image */}
@@ -535,18 +1541,61 @@ function App() {
                         {/* Main Definition (Target Lang) */}
                         <div>
                           <div className="flex items-center gap-2 mb-3">
-                            <span className="bg-stone-900 text-white text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider">Definition ({targetLanguage})</span>
+                            <span className="bg-stone-900 text-white text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider">{t('word.definition', { language: LANGUAGE_NAMES[lookupContext?.targetLanguage ?? targetLanguage] })}</span>
                           </div>
-                          <p className="text-2xl sm:text-3xl text-stone-900 font-serif leading-relaxed">
-                            {wordData.definition}
-                          </p>
+                          {senses.length > 1 ? (
+                            <ol className="space-y-3">
+                              {senses.map((sense, idx) => (
+                                <li key={idx}>
+                                  <div
+                                    onClick={() => setActiveSenseIndex(idx)}
+                                    className={`p-4 rounded-xl border-2 cursor-pointer transition-all ${
+                                      idx === activeSenseIndex ? 'border-orange-300 bg-orange-50/50' : 'border-stone-100 hover:border-stone-200'
+                                    }`}
+                                  >
+                                    <div className="flex items-center gap-2 mb-1 text-[10px] font-bold uppercase tracking-wider">
+                                      <span className="text-stone-400">{idx + 1}</span>
+                                      <span className="text-orange-700 italic normal-case text-sm font-serif">{sense.partOfSpeech}</span>
+                                      {sense.register && (
+                                        <span className="px-1.5 py-0.5 rounded bg-stone-100 text-stone-500">{sense.register}</span>
+                                      )}
+                                    </div>
+                                    <p className="text-xl text-stone-900 font-serif leading-relaxed">{sense.definition}</p>
+                                    {sense.examples.length > 0 && (
+                                      <div className="mt-2 flex items-start gap-1">
+                                        <SpeakButton text={exampleSentence(sense.examples[0])} speech={speech} />
+                                        <p className="text-stone-500 italic">{sense.examples[0]}</p>
+                                      </div>
+                                    )}
+                                    {idx === activeSenseIndex && (
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          handleGenerateNewImage(sense);
+                                        }}
+                                        disabled={loadingNewImage}
+                                        className="mt-3 flex items-center gap-1.5 text-[11px] font-bold uppercase tracking-wider text-orange-700 hover:text-orange-900 disabled:opacity-50"
+                                      >
+                                        {loadingNewImage ? <Loader size="sm" color="text-orange-600" /> : <ImageIcon className="w-3.5 h-3.5" />}
+                                        {t('word.illustrateSense')}
+                                      </button>
+                                    )}
+                                  </div>
+                                </li>
+                              ))}
+                            </ol>
+                          ) : (
+                            <p className="text-2xl sm:text-3xl text-stone-900 font-serif leading-relaxed">
+                              {wordData.definition}
+                            </p>
+                          )}
                         </div>
 
                         {/* Original Language Definition - Highlighted Box */}
                         <div className="bg-orange-50/60 border-l-4 border-orange-400 p-6 rounded-r-xl">
                           <h3 className="text-xs font-bold text-orange-800 uppercase tracking-widest mb-2 flex items-center gap-2">
                             <BookIcon className="w-4 h-4" />
-                            Definition in Original Language
+                            {t('word.originalDefinition')}
                           </h3>
                           <p className="text-xl text-stone-800 font-medium leading-relaxed">
                             {wordData.originalDefinition}
@@ -557,7 +1606,7 @@ function App() {
                         <div className="py-2">
                           <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-3 flex items-center gap-2">
                               <ZapIcon className="w-4 h-4 text-yellow-500" />
-                              Vibe Check
+                              {t('word.vibeCheck')}
                           </h3>
                           <div className="flex flex-wrap gap-2">
                               {wordData.vibes.map((vibe, idx) => (
@@ -570,20 +1619,61 @@ function App() {
 
                         {/* Examples */}
                         <div>
-                          <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-4 border-b border-stone-100 pb-2">Usage Examples</h3>
+                          <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-4 border-b border-stone-100 pb-2">{t('word.usageExamples')}</h3>
                           <ul className="space-y-4">
                             {wordData.examples.map((ex, idx) => (
                               <li key={idx} className="flex gap-4 group">
                                 <span className="text-orange-300 text-xl font-serif select-none group-hover:text-orange-500 transition-colors">•</span>
-                                <span className="text-lg text-stone-600 leading-relaxed">{ex}</span>
+                                <span className="text-lg text-stone-600 leading-relaxed flex-grow">{ex}</span>
+                                <SpeakButton text={exampleSentence(ex)} speech={speech} />
                               </li>
                             ))}
                           </ul>
                         </div>
 
+                        {/* Inflection tables, generated on demand and cached with the lookup */}
+                        <div>
+                          <div className="flex items-center justify-between mb-4 border-b border-stone-100 pb-2">
+                            <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest flex items-center gap-2">
+                              <GridIcon className="w-4 h-4" />
+                              {t('word.forms')}
+                            </h3>
+                            {!activeForms && (
+                              <button
+                                onClick={handleLoadInflections}
+                                disabled={loadingInflections}
+                                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider bg-stone-100 text-stone-600 hover:bg-orange-50 hover:text-orange-700 transition-all disabled:opacity-50"
+                              >
+                                {loadingInflections && <Loader size="sm" />}
+                                {t('word.showForms')}
+                              </button>
+                            )}
+                          </div>
+                          {activeForms ? (
+                            <InflectionTables inflections={activeForms} />
+                          ) : (
+                            <p className="text-stone-400 text-sm">{t('word.formsHint', { word: wordData.word })}</p>
+                          )}
+                        </div>
+
+                        {/* Speaking practice */}
+                        <div>
+                          <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-4 border-b border-stone-100 pb-2 flex items-center gap-2">
+                            <MicIcon className="w-4 h-4" />
+                            {t('word.speakingPractice')}
+                          </h3>
+                          <PronunciationPractice
+                            word={wordData.word}
+                            examples={wordData.examples.slice(0, 3).map(exampleSentence)}
+                            targetLanguage={lookupContext?.targetLanguage ?? targetLanguage}
+                            nativeLanguage={lookupContext?.nativeLanguage ?? nativeLanguage}
+                            speech={speech}
+                          />
+                        </div>
+
                         {/* Etymology */}
                         <div>
-                          <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-2">Origin & History</h3>
+                          <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-2">{t('word.origin')}</h3>
                           <p className="text-stone-500 italic font-serif text-lg">
                               {wordData.etymology}
                           </p>
@@ -595,7 +1685,7 @@ function App() {
                         <div className="p-8 flex-grow flex flex-col">
                           <div className="flex items-center justify-between mb-4">
                              <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest flex items-center gap-2">
-                               <ImageIcon className="w-4 h-4" /> AI Visualization
+                               <ImageIcon className="w-4 h-4" /> {t('word.visualization')}
                              </h3>
                              {currentImage && (
                                <button 
@@ -608,7 +1698,7 @@ function App() {
                                  }`}
                                >
                                  <BookmarkIcon filled={isCurrentSaved} className="w-3.5 h-3.5" />
-                                 {isCurrentSaved ? 'Saved' : 'Save to Wordbook'}
+                                 {isCurrentSaved ? t('word.saved') : senses.length > 1 ? t('word.saveSense', { n: activeSenseIndex + 1 }) : t('word.save')}
                                </button>
                              )}
                           </div>
@@ -618,7 +1708,7 @@ function App() {
                               {loadingImage ? (
                                 <div className="absolute inset-0 flex flex-col items-center justify-center text-stone-400 bg-stone-100">
                                     <Loader color="text-orange-500" size="lg" />
-                                    <span className="text-sm mt-4 font-medium tracking-wide uppercase">Generating Art...</span>
+                                    <span className="text-sm mt-4 font-medium tracking-wide uppercase">{t('word.generatingArt')}</span>
                                 </div>
                               ) : currentImage ? (
                                 <>
@@ -628,15 +1718,15 @@ function App() {
                                     className="w-full h-full object-cover transition-transform duration-1000 group-hover:scale-105"
                                   />
                                   {/* Overlay Badge */}
-                                  <div className="absolute top-4 right-4 bg-white/90 backdrop-blur text-stone-900 text-[10px] font-bold px-3 py-1.5 rounded-full shadow-sm flex items-center gap-1.5">
+                                  <div className="absolute top-4 end-4 bg-white/90 backdrop-blur text-stone-900 text-[10px] font-bold px-3 py-1.5 rounded-full shadow-sm flex items-center gap-1.5">
                                     <SparklesIcon className="w-3 h-3 text-orange-500" />
-                                    AI GENERATED
+                                    <span className="uppercase">{t('word.aiGenerated')}</span>
                                   </div>
                                 </>
                               ) : (
                                 <div className="absolute inset-0 flex flex-col items-center justify-center text-stone-300">
                                   <ImageIcon className="w-12 h-12 mb-2 opacity-50" />
-                                  <span className="text-sm font-medium">No image available</span>
+                                  <span className="text-sm font-medium">{t('word.noImage')}</span>
                                 </div>
                               )}
                           </div>
@@ -661,7 +1751,7 @@ function App() {
                           {/* Action Buttons under Image */}
                           <div className="mt-6 space-y-4">
                               <div className="flex items-center justify-between bg-white p-2 rounded-xl border border-stone-200 shadow-sm">
-                                  <span className="text-xs font-bold text-stone-400 uppercase tracking-wider ml-3">Feedback</span>
+                                  <span className="text-xs font-bold text-stone-400 uppercase tracking-wider ms-3">{t('word.feedback')}</span>
                                   <div className="flex gap-1">
                                     <button 
                                       onClick={() => toggleFeedback('like')} 
@@ -678,13 +1768,40 @@ function App() {
                                   </div>
                               </div>
 
+                              {/* Which styles have worked best so far; new images lean towards them */}
+                              {styleScores.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                                  <span className="font-bold text-stone-400 uppercase tracking-wider me-1">{t('image.styleHistory')}</span>
+                                  {styleScores.map(score => (
+                                    <span
+                                      key={score.style}
+                                      className={`px-2 py-1 rounded-lg font-medium ${
+                                        score.likes >= score.dislikes ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'
+                                      }`}
+                                    >
+                                      {t(IMAGE_STYLE_LABELS[score.style])}
+                                      <span className="ms-1.5 opacity-70">+{score.likes} / −{score.dislikes}</span>
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+
                               <button 
-                                onClick={handleGenerateNewImage}
+                                onClick={() => handleGenerateNewImage()}
                                 disabled={loadingNewImage}
                                 className="w-full py-4 rounded-xl bg-stone-900 text-white font-bold text-sm hover:bg-orange-600 transition-colors flex items-center justify-center gap-3 disabled:opacity-70 disabled:cursor-not-allowed shadow-lg shadow-stone-200"
                               >
                                 {loadingNewImage ? <Loader size="sm" color="text-white" /> : <RefreshIcon className="w-4 h-4" />}
-                                <span>GENERATE VARIATION</span>
+                                <span className="uppercase">{t('word.generateVariation')}</span>
+                              </button>
+
+                              <button
+                                onClick={() => setIsImagePromptOpen(true)}
+                                disabled={loadingNewImage}
+                                className="w-full py-3 rounded-xl bg-white border border-stone-200 text-stone-600 font-bold text-sm hover:bg-orange-50 hover:text-orange-800 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                              >
+                                <PenToolIcon className="w-4 h-4" />
+                                {t('word.customizeImage')}
                               </button>
                           </div>
 
@@ -701,8 +1818,8 @@ function App() {
                             <SparklesIcon className="w-6 h-6" />
                           </div>
                           <div>
-                            <h3 className="text-xl font-serif font-bold text-white">Hidden Gems</h3>
-                            <p className="text-sm text-stone-400">Trivia, slang, and cultural secrets.</p>
+                            <h3 className="text-xl font-serif font-bold text-white">{t('gems.title')}</h3>
+                            <p className="text-sm text-stone-400">{t('gems.subtitle')}</p>
                           </div>
                         </div>
                         
@@ -714,7 +1831,7 @@ function App() {
                           >
                             <span className="relative z-10 flex items-center gap-2">
                               {loadingMoreMeanings ? <Loader size="sm" color="text-white" /> : <ZapIcon className="w-4 h-4" />}
-                              <span>{loadingMoreMeanings ? 'Unearthing...' : 'Reveal Secrets'}</span>
+                              <span>{loadingMoreMeanings ? t('gems.loading') : t('gems.reveal')}</span>
                             </span>
                             <div className="absolute inset-0 bg-white/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300" />
                           </button>
@@ -747,13 +1864,13 @@ function App() {
 
       {/* Chat Button (Floating) */}
       {view === 'search' && wordData && (
-        <div className="fixed bottom-8 right-8 z-30">
+        <div className="fixed bottom-8 end-8 z-30">
            {!isChatOpen && (
              <button
-               onClick={() => setIsChatOpen(true)}
-               className="group flex items-center gap-3 bg-stone-900 text-white pl-6 pr-4 py-4 rounded-full shadow-2xl hover:bg-orange-600 transition-all hover:scale-105 active:scale-95"
+               onClick={() => openPanel(wordRoute('chat'))}
+               className="group flex items-center gap-3 bg-stone-900 text-white ps-6 pe-4 py-4 rounded-full shadow-2xl hover:bg-orange-600 transition-all hover:scale-105 active:scale-95"
              >
-               <span className="font-bold tracking-wide">Ask AI</span>
+               <span className="font-bold tracking-wide">{t('chat.ask')}</span>
                <div className="bg-white/20 rounded-full p-2 group-hover:rotate-12 transition-transform">
                  <MessageCircleIcon className="w-5 h-5" />
                </div>
@@ -764,40 +1881,83 @@ function App() {
 
       {/* Chat Drawer */}
       <div 
-        className={`fixed inset-y-0 right-0 w-full sm:w-[450px] bg-white shadow-2xl transform transition-transform duration-400 cubic-bezier(0.16, 1, 0.3, 1) z-40 flex flex-col border-l border-stone-200 ${
-          isChatOpen && view === 'search' ? 'translate-x-0' : 'translate-x-full'
+        className={`fixed inset-y-0 end-0 w-full sm:w-[450px] bg-white shadow-2xl transform transition-transform duration-400 cubic-bezier(0.16, 1, 0.3, 1) z-40 flex flex-col border-s border-stone-200 ${
+          isChatOpen && view === 'search' ? 'translate-x-0' : 'translate-x-full rtl:-translate-x-full'
         }`}
       >
         {/* Chat Header */}
         <div className="p-6 border-b border-stone-100 flex items-center justify-between bg-stone-50">
           <div>
-             <h3 className="font-serif font-bold text-2xl text-stone-900">Tutor Chat</h3>
-             <p className="text-sm text-stone-500">Discussing "{wordData?.word}"</p>
+             <h3 className="font-serif font-bold text-2xl text-stone-900">{t('chat.title')}</h3>
+             <p className="text-sm text-stone-500">
+               {showChatThreads ? t('chat.pastConversations') : t('chat.discussing', { word: wordData?.word ?? '' })}
+             </p>
+          </div>
+          <div className="flex items-center gap-1">
+            <button 
+              onClick={handleToggleChatThreads}
+              title={t('chat.pastConversations')}
+              className={`w-10 h-10 flex items-center justify-center rounded-full transition-colors ${
+                showChatThreads ? 'bg-orange-100 text-orange-700' : 'hover:bg-stone-200 text-stone-500'
+              }`}
+            >
+              <HistoryIcon className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => closePanel(wordRoute())}
+              className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-stone-200 text-stone-500 transition-colors"
+            >
+              <XIcon className="w-6 h-6" />
+            </button>
           </div>
-          <button 
-            onClick={() => setIsChatOpen(false)}
-            className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-stone-200 text-stone-500 transition-colors"
-          >
-            <XIcon className="w-6 h-6" />
-          </button>
         </div>
 
+        {/* Past Threads */}
+        {showChatThreads && (
+          <div className="flex-grow overflow-y-auto p-6 space-y-3 bg-white">
+            {chatThreads.length === 0 && (
+              <p className="text-center text-stone-400 mt-12">{t('chat.noThreads')}</p>
+            )}
+            {chatThreads.map(thread => (
+              <div key={thread.key} className="group flex items-start gap-3 p-4 bg-stone-50 border border-stone-100 rounded-xl hover:border-orange-300 hover:bg-orange-50 transition-all">
+                <button onClick={() => handleOpenChatThread(thread)} className="flex-grow text-start min-w-0">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-serif font-bold text-lg text-stone-900 capitalize">{thread.word}</span>
+                    <span className="text-[10px] text-stone-400 flex-shrink-0">{new Date(thread.updatedAt).toLocaleDateString()}</span>
+                  </div>
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400">
+                    {LANGUAGE_NAMES[thread.nativeLanguage]} → {LANGUAGE_NAMES[thread.targetLanguage]} · {t('chat.messageCount', { count: thread.messages.length })}
+                  </p>
+                  <p className="text-sm text-stone-600 truncate mt-1">{thread.messages[thread.messages.length - 1]?.text}</p>
+                </button>
+                <button
+                  onClick={() => handleDeleteChatThread(thread)}
+                  title={t('chat.deleteThread')}
+                  className="p-1 text-stone-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Chat Messages */}
-        <div className="flex-grow overflow-y-auto p-6 space-y-6 bg-white">
+        <div className={`flex-grow overflow-y-auto p-6 space-y-6 bg-white ${showChatThreads ? 'hidden' : ''}`}>
           {chatMessages.length === 0 && (
             <div className="text-center mt-12">
                <div className="w-16 h-16 mx-auto bg-orange-100 rounded-2xl flex items-center justify-center text-orange-600 mb-4">
                  <MessageCircleIcon className="w-8 h-8" />
                </div>
                <p className="text-stone-600 font-medium">
-                 What else would you like to know?
+                 {t('chat.empty')}
                </p>
                <div className="mt-8 flex flex-col gap-3">
-                 {["Give me a quiz.", "Is this word formal?", "Translate a sentence."].map(q => (
+                 {[t('chat.promptQuiz'), t('chat.promptFormal'), t('chat.promptTranslate')].map(q => (
                    <button 
                     key={q}
                     onClick={() => { setChatInput(q); }}
-                    className="text-left px-5 py-4 bg-stone-50 border border-stone-100 rounded-xl text-stone-600 hover:border-orange-300 hover:bg-orange-50 hover:text-orange-800 transition-all font-medium text-sm"
+                    className="text-start px-5 py-4 bg-stone-50 border border-stone-100 rounded-xl text-stone-600 hover:border-orange-300 hover:bg-orange-50 hover:text-orange-800 transition-all font-medium text-sm"
                    >
                      "{q}"
                    </button>
@@ -806,20 +1966,43 @@ function App() {
             </div>
           )}
           
-          {chatMessages.map((msg) => (
-            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+          {chatMessages.filter(msg => msg.text || msg.status).map((msg, idx, visible) => (
+            <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
               <div className={`max-w-[85%] rounded-2xl px-5 py-4 text-base leading-relaxed ${
                 msg.role === 'user' 
-                  ? 'bg-stone-900 text-white rounded-br-none' 
-                  : 'bg-stone-100 text-stone-800 rounded-bl-none'
+                  ? 'bg-stone-900 text-white rounded-ee-none' 
+                  : 'bg-stone-100 text-stone-800 rounded-es-none'
               }`}>
-                {msg.text}
+                {msg.status && !msg.text ? (
+                  <em className="text-stone-500">{t(msg.status === 'stopped' ? 'chat.stopped' : 'chat.failed')}</em>
+                ) : msg.role === 'model' ? <Markdown text={msg.text} /> : msg.text}
               </div>
+              {msg.role === 'model' && !(isChatSending && idx === visible.length - 1) && (
+                <div className="mt-1 ms-2 flex items-center gap-4">
+                  <button
+                    onClick={() => handleRegenerate(msg.id)}
+                    disabled={isChatSending}
+                    className="flex items-center gap-1 text-[11px] font-bold uppercase tracking-wider text-stone-400 hover:text-orange-600 disabled:opacity-50 transition-colors"
+                  >
+                    <RefreshIcon className="w-3 h-3" />
+                    {t('chat.regenerate')}
+                  </button>
+                  <button
+                    onClick={() => handleAttachNote(msg)}
+                    disabled={!msg.text || !isWordSaved || notedMessageIds.includes(msg.id)}
+                    title={isWordSaved ? t('chat.noteTitle') : t('chat.noteTitleUnsaved')}
+                    className="flex items-center gap-1 text-[11px] font-bold uppercase tracking-wider text-stone-400 hover:text-orange-600 disabled:opacity-50 disabled:hover:text-stone-400 transition-colors"
+                  >
+                    <BookmarkIcon filled={notedMessageIds.includes(msg.id)} className="w-3 h-3" />
+                    {notedMessageIds.includes(msg.id) ? t('chat.noteAdded') : t('chat.saveNote')}
+                  </button>
+                </div>
+              )}
             </div>
           ))}
-          {isChatSending && (
+          {isChatSending && !chatMessages[chatMessages.length - 1]?.text && (
              <div className="flex justify-start">
-               <div className="bg-stone-100 rounded-2xl rounded-bl-none px-5 py-4">
+               <div className="bg-stone-100 rounded-2xl rounded-es-none px-5 py-4">
                  <div className="flex gap-1.5">
                    <span className="w-2 h-2 bg-stone-400 rounded-full animate-bounce"></span>
                    <span className="w-2 h-2 bg-stone-400 rounded-full animate-bounce delay-75"></span>
@@ -838,28 +2021,82 @@ function App() {
               type="text"
               value={chatInput}
               onChange={(e) => setChatInput(e.target.value)}
-              placeholder="Type a message..."
-              className="w-full pl-5 pr-14 py-4 bg-stone-50 border border-stone-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500 transition-all font-medium text-stone-800 placeholder-stone-400"
+              placeholder={t('chat.placeholder')}
+              className="w-full ps-5 pe-14 py-4 bg-stone-50 border border-stone-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500 transition-all font-medium text-stone-800 placeholder-stone-400"
             />
-            <button 
-              type="submit"
-              disabled={!chatInput.trim() || isChatSending}
-              className="absolute right-3 top-3 bottom-3 px-3 text-orange-600 disabled:text-stone-300 hover:bg-orange-50 rounded-lg transition-colors"
-            >
-              <SendIcon className="w-6 h-6" />
-            </button>
+            {isChatSending ? (
+              <button 
+                type="button"
+                onClick={handleStopChat}
+                title={t('chat.stop')}
+                className="absolute end-3 top-3 bottom-3 px-3 text-stone-600 hover:bg-stone-100 rounded-lg transition-colors"
+              >
+                <StopIcon className="w-5 h-5" />
+              </button>
+            ) : (
+              <button 
+                type="submit"
+                disabled={!chatInput.trim()}
+                className="absolute end-3 top-3 bottom-3 px-3 text-orange-600 disabled:text-stone-300 hover:bg-orange-50 rounded-lg transition-colors"
+              >
+                <SendIcon className="w-6 h-6" />
+              </button>
+            )}
           </form>
         </div>
       </div>
 
+      {/* Export Modal */}
+      {isExportOpen && (
+        <ExportPanel items={deckItems} deckName={activeDeck ?? undefined} onClose={() => setIsExportOpen(false)} />
+      )}
+
+      {/* Image prompt editor */}
+      {isImagePromptOpen && wordData && (
+        <ImagePromptEditor
+          word={wordData.word}
+          meaning={activeSense?.definition}
+          nativeLanguage={lookupContext?.nativeLanguage ?? nativeLanguage}
+          examples={Array.from(new Set(senses.flatMap(sense => sense.examples).map(exampleSentence)))}
+          feedback={imageFeedback}
+          initialStyle={pickImageStyle(imageFeedback, gallery.map(img => imageStyles[imageIdFor(img)]).filter(Boolean))}
+          onGenerate={handleGenerateCustomImage}
+          onClose={() => setIsImagePromptOpen(false)}
+        />
+      )}
+
+      {/* Deck, tags and notes editor */}
+      {editingItem && (
+        <ItemEditor
+          item={editingItem}
+          decks={decks}
+          onSave={(changes) => handleOrganizeItem(editingItem.id, changes)}
+          onClose={() => setEditingItemId(null)}
+        />
+      )}
+
+      {/* Import Modal */}
+      {isImportOpen && (
+        <ImportPanel
+          savedItems={savedItems}
+          jobs={importJobs}
+          languagePair={{ targetLanguage, nativeLanguage }}
+          onImport={handleImportWords}
+          onRetry={(id) => importQueueRef.current?.retry(id)}
+          onClearFinished={() => importQueueRef.current?.clearFinished()}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
       {/* Overlay for mobile chat */}
       {isChatOpen && view === 'search' && (
         <div 
           className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-30 sm:hidden"
-          onClick={() => setIsChatOpen(false)}
+          onClick={() => closePanel(wordRoute())}
         />
       )}
     </div>
+    </TranslationContext.Provider>
   );
 }
 
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { SavedItem } from '../types';
+import {
+  CardLayout,
+  DEFAULT_CARD_LAYOUT,
+  EXPORT_FIELDS,
+  ExportField,
+  exportAnkiPackage,
+  exportDelimited,
+  downloadBlob
+} from '../services/export';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { DownloadIcon, XIcon } from './Icons';
+import { Loader } from './Loader';
+
+type ExportFormat = 'apkg' | 'csv' | 'tsv';
+type Side = 'front' | 'back' | 'off';
+
+interface ExportPanelProps {
+  items: SavedItem[];
+  deckName?: string; // Set when exporting a single deck
+  onClose: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'apkg', label: 'Anki (.apkg)' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'tsv', label: 'TSV' },
+];
+
+// EXPORT_FIELDS labels stay English for the CSV header row; these are for the layout picker
+const FIELD_LABELS: Record<ExportField, MessageKey> = {
+  word: 'exportField.word',
+  phonetic: 'exportField.phonetic',
+  grammar: 'exportField.grammar',
+  definition: 'exportField.definition',
+  examples: 'exportField.examples',
+  image: 'exportField.image',
+};
+
+const SIDE_LABELS: Record<Side, MessageKey> = {
+  front: 'export.front',
+  back: 'export.back',
+  off: 'export.off',
+};
+
+export const ExportPanel = ({ items, deckName, onClose }: ExportPanelProps) => {
+  const t = useTranslation();
+  const [format, setFormat] = useState<ExportFormat>('apkg');
+  const [layout, setLayout] = useState<CardLayout>(DEFAULT_CARD_LAYOUT);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sideOf = (field: ExportField): Side =>
+    layout.front.includes(field) ? 'front' : layout.back.includes(field) ? 'back' : 'off';
+
+  const moveField = (field: ExportField, side: Side) => {
+    setLayout(prev => {
+      const front = prev.front.filter(f => f !== field);
+      const back = prev.back.filter(f => f !== field);
+      if (side === 'front') front.push(field);
+      if (side === 'back') back.push(field);
+      return { front, back };
+    });
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const stamp = new Date().toISOString().slice(0, 10);
+      const name = deckName ? `leximind-${deckName.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-')}-${stamp}` : `leximind-${stamp}`;
+      if (format === 'apkg') {
+        downloadBlob(await exportAnkiPackage(items, layout, deckName ? `LexiMind::${deckName}` : undefined), `${name}.apkg`);
+      } else {
+        downloadBlob(exportDelimited(items, layout, format === 'csv' ? ',' : '\t'), `${name}.${format}`);
+      }
+      onClose();
+    } catch (err) {
+      console.error("Export failed", err);
+      setError(t('export.failed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/30 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg p-8 animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-3xl font-serif font-bold text-stone-900">{t('export.title')}</h3>
+            <p className="text-stone-500 text-sm mt-1">
+              {deckName ? t('export.deckCount', { deck: deckName, count: items.length }) : t('export.count', { count: items.length })}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          {FORMATS.map(f => (
+            <button
+              key={f.format}
+              onClick={() => setFormat(f.format)}
+              className={`flex-1 py-2 rounded-xl border text-sm font-bold transition-colors ${
+                format === f.format
+                  ? 'bg-orange-100 border-orange-200 text-orange-800'
+                  : 'bg-white border-stone-200 text-stone-600 hover:bg-stone-50'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest mb-3">{t('export.layout')}</h4>
+        <div className="space-y-2">
+          {EXPORT_FIELDS.map(({ field }) => {
+            const disabled = field === 'image' && format !== 'apkg';
+            return (
+              <div key={field} className={`flex items-center justify-between ${disabled ? 'opacity-40' : ''}`}>
+                <span className="font-medium text-stone-700">{t(FIELD_LABELS[field])}</span>
+                <div className="flex bg-stone-100 rounded-lg p-1">
+                  {(['front', 'back', 'off'] as Side[]).map(side => (
+                    <button
+                      key={side}
+                      disabled={disabled}
+                      onClick={() => moveField(field, side)}
+                      className={`px-3 py-1 rounded-md text-xs font-bold uppercase tracking-wider transition-colors ${
+                        sideOf(field) === side ? 'bg-white text-stone-900 shadow-sm' : 'text-stone-400 hover:text-stone-600'
+                      }`}
+                    >
+                      {t(SIDE_LABELS[side])}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {format !== 'apkg' && (
+          <p className="text-xs text-stone-400 mt-3">{t('export.imagesAnkiOnly')}</p>
+        )}
+
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={exporting || layout.front.length === 0}
+          className="mt-8 w-full py-4 rounded-xl bg-stone-900 text-white font-bold text-sm hover:bg-orange-600 transition-colors flex items-center justify-center gap-3 disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          {exporting ? <Loader size="sm" color="text-white" /> : <DownloadIcon className="w-4 h-4" />}
+          <span className="uppercase">{t('export.download')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { MnemonicScene, SupportedLanguage } from '../types';
+import { getMnemonicScene } from '../services/ai';
+import { ImageFeedback, ImageStyle, ImageStyleId, IMAGE_STYLES, imagePromptOptions } from '../services/imageFeedback';
+import { buildImagePrompt, exampleContext, mnemonicContext } from '../services/imagePrompt';
+import { LANGUAGE_NAMES, MessageKey, useTranslation } from '../services/i18n';
+import { RefreshIcon, XIcon } from './Icons';
+import { Loader } from './Loader';
+
+export const IMAGE_STYLE_LABELS: Record<ImageStyleId, MessageKey> = {
+  minimal: 'imageStyle.minimal',
+  abstract: 'imageStyle.abstract',
+  scenario: 'imageStyle.scenario',
+  photo: 'imageStyle.photo',
+  watercolor: 'imageStyle.watercolor',
+  comic: 'imageStyle.comic',
+  mnemonic: 'imageStyle.mnemonic',
+};
+
+export interface ImageRequest {
+  style: ImageStyle;
+  prompt: string;
+}
+
+interface ImagePromptEditorProps {
+  word: string;
+  meaning?: string;
+  nativeLanguage: SupportedLanguage; // Where the mnemonic preset looks for a sound-alike
+  examples: string[];
+  feedback: ImageFeedback[];
+  initialStyle: ImageStyle;
+  onGenerate: (request: ImageRequest) => void;
+  onClose: () => void;
+}
+
+export const ImagePromptEditor = ({
+  word,
+  meaning,
+  nativeLanguage,
+  examples,
+  feedback,
+  initialStyle,
+  onGenerate,
+  onClose,
+}: ImagePromptEditorProps) => {
+  const t = useTranslation();
+  const [style, setStyle] = useState(initialStyle);
+  const [exampleIndex, setExampleIndex] = useState<number | null>(null); // null = the word on its own
+  const [customPrompt, setCustomPrompt] = useState<string | null>(null); // Set once the learner edits the text
+  const [scene, setScene] = useState<MnemonicScene | null>(null);
+  const [sceneState, setSceneState] = useState<'idle' | 'loading' | 'failed'>('idle');
+
+  const isMnemonic = style.id === 'mnemonic';
+
+  // The mnemonic preset draws a sound-alike scene, so fetch one from the text model the first time it's picked
+  useEffect(() => {
+    if (!isMnemonic || scene || sceneState !== 'idle') return;
+    setSceneState('loading');
+    getMnemonicScene(word, nativeLanguage, meaning)
+      .then(result => {
+        setScene(result);
+        setSceneState('idle');
+      })
+      .catch(err => {
+        console.error("Failed to build mnemonic scene", err);
+        setSceneState('failed');
+      });
+  }, [isMnemonic, scene, sceneState, word, nativeLanguage, meaning]);
+
+  const example = exampleIndex === null ? undefined : examples[exampleIndex];
+  const context = isMnemonic ? scene && mnemonicContext(scene) : example && exampleContext(example);
+  const builtPrompt = buildImagePrompt(word, context || undefined, imagePromptOptions(feedback, style));
+  const prompt = customPrompt ?? builtPrompt;
+  // Without a scene, the built mnemonic prompt has nothing to draw; a hand-written one is fine
+  const canGenerate = !!prompt.trim() && (!isMnemonic || !!scene || customPrompt !== null);
+
+  // Picking a preset or sentence rebuilds the prompt, replacing any hand edits
+  const chooseStyle = (preset: ImageStyle) => {
+    setStyle(preset);
+    setCustomPrompt(null);
+  };
+
+  const chooseExample = (index: number | null) => {
+    setExampleIndex(index);
+    setCustomPrompt(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canGenerate) onGenerate({ style, prompt: prompt.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/30 backdrop-blur-sm p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-8 animate-fade-in space-y-6"
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-3xl font-serif font-bold text-stone-900 capitalize">{word}</h3>
+            <p className="text-stone-500 text-sm mt-1">{t('imageEditor.title')}</p>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div>
+          <span className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('imageEditor.style')}</span>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {IMAGE_STYLES.map(preset => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => chooseStyle(preset)}
+                title={preset.prompt.replace(/\{word\}/g, word)}
+                className={`px-4 py-2 rounded-full text-sm font-bold transition-colors ${
+                  style.id === preset.id
+                    ? 'bg-stone-900 text-white'
+                    : 'bg-white border border-stone-200 text-stone-600 hover:bg-orange-50 hover:text-orange-800'
+                }`}
+              >
+                {t(IMAGE_STYLE_LABELS[preset.id])}
+              </button>
+            ))}
+          </div>
+          {isMnemonic && (
+            <div className="mt-3 flex items-center gap-2 text-sm text-stone-500">
+              {sceneState === 'loading' && (
+                <>
+                  <Loader size="sm" />
+                  <span>{t('imageEditor.findingSoundAlike', { language: LANGUAGE_NAMES[nativeLanguage] })}</span>
+                </>
+              )}
+              {sceneState === 'failed' && <span className="text-red-600">{t('imageEditor.sceneFailed')}</span>}
+              {scene && <span>{t('imageEditor.soundAlike', { keyword: scene.keyword })}</span>}
+            </div>
+          )}
+        </div>
+
+        {examples.length > 0 && !isMnemonic && (
+          <label className="block">
+            <span className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('imageEditor.basedOn')}</span>
+            <select
+              value={exampleIndex ?? ''}
+              onChange={(e) => chooseExample(e.target.value === '' ? null : Number(e.target.value))}
+              className="mt-2 w-full px-4 py-3 bg-stone-50 border border-stone-200 rounded-xl text-sm focus:outline-none focus:border-orange-500"
+            >
+              <option value="">{t('imageEditor.wordOnly')}</option>
+              {examples.map((ex, idx) => (
+                <option key={idx} value={idx}>{ex}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="block">
+          <span className="flex items-center justify-between">
+            <span className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('imageEditor.prompt')}</span>
+            {customPrompt !== null && (
+              <button
+                type="button"
+                onClick={() => setCustomPrompt(null)}
+                className="flex items-center gap-1 text-xs font-bold text-orange-600 hover:underline"
+              >
+                <RefreshIcon className="w-3 h-3" />
+                {t('imageEditor.reset')}
+              </button>
+            )}
+          </span>
+          <textarea
+            value={prompt}
+            onChange={(e) => setCustomPrompt(e.target.value)}
+            rows={7}
+            dir="ltr"
+            className="mt-2 w-full px-4 py-3 bg-stone-50 border border-stone-200 rounded-xl text-sm leading-relaxed focus:outline-none focus:border-orange-500 resize-y"
+          />
+          {customPrompt !== null && (
+            <span className="block mt-1 text-xs text-stone-400">{t('imageEditor.edited')}</span>
+          )}
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-5 py-3 text-sm font-bold text-stone-500 hover:text-stone-800"
+          >
+            {t('editor.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!canGenerate}
+            className="px-6 py-3 bg-stone-900 text-white rounded-xl font-bold text-sm hover:bg-orange-600 transition-all disabled:opacity-50"
+          >
+            {t('imageEditor.generate')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { SavedItem } from '../types';
+import { ImportJob, ImportStatus, parseImportText, dedupeWords } from '../services/importer';
+import { LanguagePairOf } from '../services/wordbook';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { RefreshIcon, UploadIcon, XIcon } from './Icons';
+import { Loader } from './Loader';
+
+interface ImportPanelProps {
+  savedItems: SavedItem[];
+  jobs: ImportJob[];
+  languagePair: LanguagePairOf; // New jobs are queued for this pair, so only it counts as already saved
+  onImport: (words: string[], withImage: boolean) => void;
+  onRetry: (id?: string) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  pending: 'bg-stone-100 text-stone-500',
+  running: 'bg-orange-100 text-orange-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<ImportStatus, MessageKey> = {
+  pending: 'import.pending',
+  running: 'import.running',
+  done: 'import.done',
+  failed: 'import.failed',
+};
+
+export const ImportPanel = ({ savedItems, jobs, languagePair, onImport, onRetry, onClearFinished, onClose }: ImportPanelProps) => {
+  const t = useTranslation();
+  const [text, setText] = useState('');
+  const [withImage, setWithImage] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  let parsed: string[] = [];
+  try {
+    parsed = parseImportText(text);
+  } catch {
+    // Surfaced on submit; half-typed JSON shouldn't flash errors while typing
+  }
+  const fresh = dedupeWords(parsed, savedItems, jobs, languagePair);
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    e.target.value = '';
+  };
+
+  const handleSubmit = () => {
+    try {
+      parseImportText(text);
+    } catch {
+      setParseError(t('import.parseError'));
+      return;
+    }
+    setParseError(null);
+    if (fresh.length === 0) return;
+    onImport(fresh, withImage);
+    setText('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/30 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg p-8 animate-fade-in max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-3xl font-serif font-bold text-stone-900">{t('import.title')}</h3>
+            <p className="text-stone-500 text-sm mt-1">{t('import.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          placeholder={"serendipity\nephemeral\nwanderlust"}
+          className="w-full p-4 bg-stone-50 border border-stone-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-500/20 focus:border-orange-500 font-mono text-sm"
+        />
+
+        <div className="flex items-center justify-between mt-3 text-sm">
+          <label className="flex items-center gap-2 text-stone-600 font-medium cursor-pointer hover:text-orange-700">
+            <UploadIcon className="w-4 h-4" />
+            <span>{t('import.chooseFile')}</span>
+            <input type="file" accept=".txt,.csv,.tsv,.json" onChange={handleFile} className="hidden" />
+          </label>
+          <label className="flex items-center gap-2 text-stone-600 font-medium cursor-pointer">
+            <input type="checkbox" checked={withImage} onChange={(e) => setWithImage(e.target.checked)} className="accent-orange-600" />
+            {t('import.withImages')}
+          </label>
+        </div>
+
+        <p className="text-xs text-stone-400 mt-3">
+          {t('import.summary', { found: parsed.length, fresh: fresh.length, skipped: parsed.length - fresh.length })}
+        </p>
+        {parseError && <p className="text-sm text-red-600 mt-2">{parseError}</p>}
+
+        <button
+          onClick={handleSubmit}
+          disabled={fresh.length === 0}
+          className="mt-4 w-full py-4 rounded-xl bg-stone-900 text-white font-bold text-sm hover:bg-orange-600 transition-colors flex items-center justify-center gap-3 disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          <UploadIcon className="w-4 h-4" />
+          <span className="uppercase">{fresh.length > 0 ? t('import.submitCount', { count: fresh.length }) : t('import.submit')}</span>
+        </button>
+
+        {jobs.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-stone-100 flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-bold text-stone-400 uppercase tracking-widest">
+                {t('import.progress', { done: doneCount, total: jobs.length })}
+              </h4>
+              <div className="flex gap-3 text-xs font-bold">
+                {failedCount > 0 && (
+                  <button onClick={() => onRetry()} className="text-orange-600 hover:underline">{t('import.retryFailed')}</button>
+                )}
+                <button onClick={onClearFinished} className="text-stone-400 hover:text-stone-600">{t('import.clearFinished')}</button>
+              </div>
+            </div>
+            <div className="w-full h-1.5 bg-stone-100 rounded-full overflow-hidden mb-3">
+              <div className="h-full bg-orange-500 transition-all" style={{ width: `${(doneCount / jobs.length) * 100}%` }} />
+            </div>
+            <ul className="space-y-2 overflow-y-auto">
+              {jobs.map(job => (
+                <li key={job.id} className="flex items-center justify-between gap-3">
+                  <span className="font-medium text-stone-700 truncate" title={job.error}>{job.word}</span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {job.status === 'running' && <Loader size="sm" />}
+                    {job.status === 'failed' && (
+                      <button onClick={() => onRetry(job.id)} className="text-stone-400 hover:text-orange-600" title={t('import.retry')}>
+                        <RefreshIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+                      {t(STATUS_LABELS[job.status])}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Inflections } from '../types';
+import { MessageKey, useTranslation } from '../services/i18n';
+
+interface InflectionTablesProps {
+  inflections: Inflections;
+}
+
+const KIND_LABELS: Record<Inflections['kind'], MessageKey> = {
+  conjugation: 'forms.conjugation',
+  declension: 'forms.declension',
+  comparison: 'forms.comparison',
+  none: 'forms.none',
+};
+
+export const InflectionTables = ({ inflections }: InflectionTablesProps) => {
+  const t = useTranslation();
+  const [activeTable, setActiveTable] = useState(0);
+  useEffect(() => setActiveTable(0), [inflections]); // Another sense's forms start on their first table
+  const table = inflections.tables[activeTable] ?? inflections.tables[0];
+
+  if (!table) {
+    return (
+      <p className="text-stone-500 italic">{inflections.note || t('forms.invariable')}</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-orange-700 bg-orange-50 px-2 py-1 rounded">
+          {t(KIND_LABELS[inflections.kind])}
+        </span>
+        {inflections.tables.length > 1 && inflections.tables.map((t, idx) => (
+          <button
+            key={idx}
+            onClick={() => setActiveTable(idx)}
+            className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${
+              t === table ? 'bg-stone-900 text-white' : 'bg-stone-100 text-stone-500 hover:text-stone-800'
+            }`}
+          >
+            {t.title}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-stone-100">
+        <table className="w-full text-start">
+          {(table.columns.length > 1 || inflections.tables.length === 1) && (
+            <thead className="bg-stone-50 text-xs font-bold uppercase tracking-wider text-stone-400">
+              <tr>
+                <th className="px-4 py-2">{inflections.tables.length === 1 ? table.title : ''}</th>
+                {table.columns.map((column, idx) => (
+                  <th key={idx} className="px-4 py-2">{column}</th>
+                ))}
+              </tr>
+            </thead>
+          )}
+          <tbody className="divide-y divide-stone-100">
+            {table.rows.map((row, idx) => (
+              <tr key={idx}>
+                <td className="px-4 py-2 text-sm text-stone-400 font-medium whitespace-nowrap">{row.label}</td>
+                {table.columns.map((_, col) => (
+                  <td key={col} className="px-4 py-2 text-lg font-serif text-stone-800">{row.cells[col] ?? '—'}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {inflections.note && <p className="text-sm text-stone-500 italic">{inflections.note}</p>}
+    </div>
+  );
+};
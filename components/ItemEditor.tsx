@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { SavedItem } from '../types';
+import { parseTags } from '../services/wordbook';
+import { useTranslation } from '../services/i18n';
+import { XIcon } from './Icons';
+
+export type ItemOrganization = Pick<SavedItem, 'deck' | 'tags' | 'notes'>;
+
+interface ItemEditorProps {
+  item: SavedItem;
+  decks: string[];
+  onSave: (changes: ItemOrganization) => void;
+  onClose: () => void;
+}
+
+export const ItemEditor = ({ item, decks, onSave, onClose }: ItemEditorProps) => {
+  const t = useTranslation();
+  const [deck, setDeck] = useState(item.deck ?? '');
+  const [tags, setTags] = useState((item.tags ?? []).join(', '));
+  const [notes, setNotes] = useState(item.notes ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedTags = parseTags(tags);
+    onSave({
+      deck: deck.trim() || undefined,
+      tags: parsedTags.length ? parsedTags : undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/30 backdrop-blur-sm p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-lg p-8 animate-fade-in space-y-5"
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-3xl font-serif font-bold text-stone-900 capitalize">{item.word}</h3>
+            <p className="text-stone-500 text-sm mt-1">{t('editor.title')}</p>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <label className="block">
+          <span className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('editor.deck')}</span>
+          <input
+            type="text"
+            list="leximind-decks"
+            value={deck}
+            onChange={(e) => setDeck(e.target.value)}
+            placeholder={t('editor.deckPlaceholder')}
+            className="mt-2 w-full px-4 py-3 bg-stone-50 border border-stone-200 rounded-xl focus:outline-none focus:border-orange-500"
+          />
+          <datalist id="leximind-decks">
+            {decks.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('editor.tags')}</span>
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder={t('editor.tagsPlaceholder')}
+            className="mt-2 w-full px-4 py-3 bg-stone-50 border border-stone-200 rounded-xl focus:outline-none focus:border-orange-500"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-bold text-stone-400 uppercase tracking-widest">{t('editor.notes')}</span>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={6}
+            className="mt-2 w-full px-4 py-3 bg-stone-50 border border-stone-200 rounded-xl text-sm leading-relaxed focus:outline-none focus:border-orange-500 resize-y"
+          />
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-5 py-3 text-sm font-bold text-stone-500 hover:text-stone-800"
+          >
+            {t('editor.cancel')}
+          </button>
+          <button
+            type="submit"
+            className="px-6 py-3 bg-stone-900 text-white rounded-xl font-bold text-sm hover:bg-orange-600 transition-all"
+          >
+            {t('editor.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
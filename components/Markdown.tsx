@@ -0,0 +1,150 @@
+import React from 'react';
+
+// Minimal markdown renderer for tutor replies. Builds React elements directly (never raw HTML),
+// so model output can't inject markup. Supports headings, lists, tables, bold, italic and inline code.
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] };
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const parseBlocks = (source: string): Block[] => {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    // A table needs a header row followed by a |---|---| divider
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const match = lines[i].match(LIST_ITEM);
+        if (!match || /\d/.test(match[1]) !== ordered) break;
+        items.push(match[2]);
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !LIST_ITEM.test(lines[i]) && !/^#{1,4}\s/.test(lines[i])) {
+      if (lines[i].includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) break;
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+};
+
+// **bold**, *italic* / _italic_, `code`
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+  const tokens = text.split(/(\*\*[^*]+\*\*|`[^`]+`|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g);
+  return tokens.filter(Boolean).map((token, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (token.startsWith('**') && token.endsWith('**') && token.length > 4) {
+      return <strong key={key} className="font-bold">{token.slice(2, -2)}</strong>;
+    }
+    if (token.startsWith('`') && token.endsWith('`') && token.length > 2) {
+      return <code key={key} className="px-1 py-0.5 rounded bg-stone-200 font-mono text-sm">{token.slice(1, -1)}</code>;
+    }
+    if ((token.startsWith('*') && token.endsWith('*') || token.startsWith('_') && token.endsWith('_')) && token.length > 2) {
+      return <em key={key}>{token.slice(1, -1)}</em>;
+    }
+    return <React.Fragment key={key}>{token}</React.Fragment>;
+  });
+};
+
+export const Markdown = ({ text }: { text: string }) => (
+  <div className="space-y-3">
+    {parseBlocks(text).map((block, b) => {
+      switch (block.type) {
+        case 'heading':
+          return (
+            <p key={b} className={`font-bold text-stone-900 ${block.level <= 2 ? 'text-lg' : 'text-base'}`}>
+              {renderInline(block.text, `h${b}`)}
+            </p>
+          );
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={b} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, i) => <li key={i}>{renderInline(item, `l${b}-${i}`)}</li>)}
+            </ListTag>
+          );
+        }
+        case 'table':
+          return (
+            <div key={b} className="overflow-x-auto">
+              <table className="text-sm border-collapse w-full">
+                <thead>
+                  <tr>
+                    {block.header.map((cell, i) => (
+                      <th key={i} className="border-b-2 border-stone-300 px-2 py-1 text-left font-bold">{renderInline(cell, `th${b}-${i}`)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, r) => (
+                    <tr key={r} className="border-b border-stone-200">
+                      {row.map((cell, i) => (
+                        <td key={i} className="px-2 py-1">{renderInline(cell, `td${b}-${r}-${i}`)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        default:
+          return (
+            <p key={b}>
+              {block.lines.map((line, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && <br />}
+                  {renderInline(line, `p${b}-${i}`)}
+                </React.Fragment>
+              ))}
+            </p>
+          );
+      }
+    })}
+  </div>
+);
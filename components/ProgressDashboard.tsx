@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { SavedItem } from '../types';
+import { ActivityEvent } from '../services/activityLog';
+import {
+  savedPerDay, reviewAccuracyPerDay, overallAccuracy, getStreaks,
+  languageBreakdown, partOfSpeechBreakdown, mostMissedWords, startOfDay, BreakdownRow,
+} from '../services/stats';
+import { getLanguagePairs } from '../services/wordbookFilter';
+import { LANGUAGE_NAMES, useTranslation } from '../services/i18n';
+import { GridIcon } from './Icons';
+
+interface ProgressDashboardProps {
+  savedItems: SavedItem[];
+  activity: ActivityEvent[];
+  onOpenWord: (word: string) => void;
+}
+
+const CHART_DAYS = 30;
+
+const formatDay = (day: number) => new Date(day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const StatTile = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-white rounded-2xl border border-stone-100 shadow-sm p-5">
+    <p className="text-xs font-bold text-stone-400 uppercase tracking-widest">{label}</p>
+    <p className="mt-2 text-3xl font-serif font-bold text-stone-900">{value}</p>
+  </div>
+);
+
+const ChartCard = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="bg-white rounded-2xl border border-stone-100 shadow-sm p-6">
+    <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-4">{title}</h3>
+    {children}
+  </div>
+);
+
+// One bar per day; `value` is a 0-1 fraction of the chart height, null leaves the day empty
+const DailyBars = ({ bars }: { bars: { day: number; value: number | null; label: string }[] }) => (
+  <div>
+    <div className="flex items-end gap-0.5 h-36">
+      {bars.map(bar => (
+        <div key={bar.day} title={`${formatDay(bar.day)}: ${bar.label}`} className="flex-1 h-full flex items-end">
+          <div
+            className={`w-full rounded-t ${bar.value === null ? 'bg-stone-100' : 'bg-orange-400 hover:bg-orange-500'}`}
+            style={{ height: bar.value === null ? '2px' : `${Math.max(bar.value * 100, 2)}%` }}
+          />
+        </div>
+      ))}
+    </div>
+    <div className="flex justify-between mt-2 text-xs text-stone-400 font-medium">
+      <span>{formatDay(bars[0].day)}</span>
+      <span>{formatDay(bars[bars.length - 1].day)}</span>
+    </div>
+  </div>
+);
+
+const BreakdownBars = ({ rows, labelOf }: { rows: BreakdownRow[]; labelOf: (key: string) => string }) => {
+  const max = Math.max(...rows.map(row => row.count), 1);
+  return (
+    <ul className="space-y-2">
+      {rows.map(row => (
+        <li key={row.key} className="flex items-center gap-3 text-sm">
+          <span className="w-40 truncate text-stone-600 font-medium capitalize" title={labelOf(row.key)}>{labelOf(row.key)}</span>
+          <span className="flex-1 h-3 bg-stone-100 rounded-full overflow-hidden">
+            <span className="block h-full bg-orange-400 rounded-full" style={{ width: `${(row.count / max) * 100}%` }} />
+          </span>
+          <span className="w-8 text-end text-stone-500 font-bold">{row.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const ProgressDashboard = ({ savedItems, activity, onOpenWord }: ProgressDashboardProps) => {
+  const t = useTranslation();
+  const [partOfSpeechPair, setPartOfSpeechPair] = useState<string | null>(null); // null = the largest pair
+
+  const stats = useMemo(() => {
+    const now = Date.now();
+    const since = startOfDay(now) - (CHART_DAYS - 1) * 24 * 60 * 60 * 1000;
+    return {
+      saved: savedPerDay(savedItems, CHART_DAYS, now),
+      accuracy: reviewAccuracyPerDay(activity, CHART_DAYS, now),
+      overall: overallAccuracy(activity),
+      streaks: getStreaks(activity, savedItems, now),
+      lookups: activity.filter(event => event.type === 'lookup' && event.at >= since).length,
+      languages: languageBreakdown(savedItems),
+      missed: mostMissedWords(activity),
+    };
+  }, [savedItems, activity]);
+
+  const pairs = useMemo(() => new Map(getLanguagePairs(savedItems).map(pair => [pair.key, pair])), [savedItems]);
+
+  const activePair = stats.languages.some(row => row.key === partOfSpeechPair)
+    ? partOfSpeechPair!
+    : stats.languages[0]?.key ?? '';
+  const partsOfSpeech = useMemo(() => partOfSpeechBreakdown(savedItems, activePair), [savedItems, activePair]);
+
+  if (savedItems.length === 0 && activity.length === 0) {
+    return (
+      <div className="text-center py-20 text-stone-400">
+        <GridIcon className="w-16 h-16 mx-auto mb-4 opacity-30" />
+        <p className="text-xl">{t('stats.empty')}</p>
+      </div>
+    );
+  }
+
+  const maxSaved = Math.max(...stats.saved.map(d => d.count), 1);
+  const pairLabel = (key: string) => {
+    const pair = pairs.get(key);
+    return pair ? `${LANGUAGE_NAMES[pair.nativeLanguage]} → ${LANGUAGE_NAMES[pair.targetLanguage]}` : t('stats.unspecified');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatTile label={t('stats.wordsSaved')} value={String(savedItems.length)} />
+        <StatTile label={t('stats.currentStreak')} value={t('stats.days', { count: stats.streaks.current })} />
+        <StatTile label={t('stats.longestStreak')} value={t('stats.days', { count: stats.streaks.longest })} />
+        <StatTile
+          label={t('stats.accuracy')}
+          value={stats.overall === null ? '—' : `${Math.round(stats.overall * 100)}%`}
+        />
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <ChartCard title={t('stats.savedPerDay')}>
+          <DailyBars bars={stats.saved.map(d => ({ day: d.day, value: d.count / maxSaved, label: String(d.count) }))} />
+          <p className="mt-3 text-sm text-stone-500">{t('stats.lookups', { count: stats.lookups })}</p>
+        </ChartCard>
+        <ChartCard title={t('stats.accuracyPerDay')}>
+          <DailyBars
+            bars={stats.accuracy.map(d => ({
+              day: d.day,
+              value: d.reviewed ? d.correct / d.reviewed : null,
+              label: d.reviewed ? `${d.correct}/${d.reviewed}` : '—',
+            }))}
+          />
+          {stats.accuracy.every(d => d.reviewed === 0) && (
+            <p className="mt-3 text-sm text-stone-500">{t('stats.noReviews')}</p>
+          )}
+        </ChartCard>
+        <ChartCard title={t('stats.byLanguage')}>
+          <BreakdownBars rows={stats.languages} labelOf={pairLabel} />
+        </ChartCard>
+        <ChartCard title={t('stats.byPartOfSpeech')}>
+          {stats.languages.length > 1 && (
+            <select
+              value={activePair}
+              onChange={(e) => setPartOfSpeechPair(e.target.value)}
+              className="mb-4 w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-sm text-stone-600 focus:outline-none focus:border-orange-500"
+            >
+              {stats.languages.map(row => (
+                <option key={row.key} value={row.key}>{pairLabel(row.key)}</option>
+              ))}
+            </select>
+          )}
+          <BreakdownBars rows={partsOfSpeech} labelOf={key => key || t('stats.unspecified')} />
+        </ChartCard>
+      </div>
+
+      <ChartCard title={t('stats.mostMissed')}>
+        {stats.missed.length === 0 ? (
+          <p className="text-sm text-stone-500">{t('stats.noMisses')}</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {stats.missed.map(({ word, misses }) => (
+              <button
+                key={word}
+                onClick={() => onOpenWord(word)}
+                className="px-3 py-1.5 bg-red-50 text-red-800 rounded-lg text-sm font-bold hover:bg-red-100 transition-colors"
+              >
+                {word}
+                <span className="ms-2 text-xs font-medium text-red-500">{t('stats.misses', { count: misses })}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PronunciationAssessment, SupportedLanguage } from '../types';
+import { assessPronunciation, SpeechOptions } from '../services/ai';
+import {
+  ActiveRecorder,
+  Recording,
+  isRecordingSupported,
+  startRecording,
+  discardRecording,
+  recordingToBase64,
+} from '../services/recorder';
+import { useTranslation } from '../services/i18n';
+import { MicIcon, StopIcon, SparklesIcon } from './Icons';
+import { Loader } from './Loader';
+import { SpeakButton } from './SpeakButton';
+
+interface PronunciationPracticeProps {
+  word: string;
+  examples: string[]; // Example sentences, already stripped of translations
+  targetLanguage: SupportedLanguage;
+  nativeLanguage: SupportedLanguage;
+  speech: SpeechOptions;
+}
+
+const scoreColor = (score: number) =>
+  score >= 85 ? 'text-green-600 border-green-200 bg-green-50'
+    : score >= 60 ? 'text-orange-600 border-orange-200 bg-orange-50'
+      : 'text-red-600 border-red-200 bg-red-50';
+
+export const PronunciationPractice = ({ word, examples, targetLanguage, nativeLanguage, speech }: PronunciationPracticeProps) => {
+  const t = useTranslation();
+  const targets = [word, ...examples];
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [recorder, setRecorder] = useState<ActiveRecorder | null>(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [assessment, setAssessment] = useState<PronunciationAssessment | null>(null);
+  const [assessing, setAssessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = targets[targetIndex] ?? word;
+
+  // Keep the latest clip, recorder and word reachable for cleanup and for a microphone that opens late
+  const recordingRef = useRef(recording);
+  const recorderRef = useRef(recorder);
+  const wordRef = useRef(word);
+  const mountedRef = useRef(true);
+  recordingRef.current = recording;
+  recorderRef.current = recorder;
+  wordRef.current = word;
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      recorderRef.current?.cancel();
+      discardRecording(recordingRef.current);
+    };
+  }, []);
+
+  const resetAttempt = () => {
+    discardRecording(recording);
+    setRecording(null);
+    setAssessment(null);
+    setError(null);
+  };
+
+  // A new word starts a fresh attempt on the word itself; a recording in progress belonged to the old one
+  useEffect(() => {
+    recorderRef.current?.cancel();
+    setRecorder(null);
+    setTargetIndex(0);
+    resetAttempt();
+  }, [word]);
+
+  const handleSelectTarget = (index: number) => {
+    if (recorder) return;
+    setTargetIndex(index);
+    resetAttempt();
+  };
+
+  const handleRecord = async () => {
+    resetAttempt();
+    const startedFor = word;
+    try {
+      const active = await startRecording();
+      // Unmounted or moved to another word while the permission prompt was open
+      if (!mountedRef.current || wordRef.current !== startedFor) {
+        active.cancel();
+        return;
+      }
+      setRecorder(active);
+    } catch (err) {
+      console.error("Microphone unavailable", err);
+      setError(t('practice.micError'));
+    }
+  };
+
+  const handleStop = async () => {
+    if (!recorder) return;
+    const clip = await recorder.stop();
+    setRecorder(null);
+    setRecording(clip);
+  };
+
+  const handleAssess = async () => {
+    if (!recording) return;
+    setAssessing(true);
+    setError(null);
+    try {
+      const audio = await recordingToBase64(recording);
+      setAssessment(await assessPronunciation(audio, recording.blob.type, target, targetLanguage, nativeLanguage));
+    } catch (err) {
+      console.error("Pronunciation assessment failed", err);
+      setError(t('practice.assessError'));
+    } finally {
+      setAssessing(false);
+    }
+  };
+
+  if (!isRecordingSupported()) {
+    return (
+      <p className="text-sm text-stone-400 italic">{t('practice.unsupported')}</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {targets.map((text, idx) => (
+          <button
+            key={idx}
+            onClick={() => handleSelectTarget(idx)}
+            disabled={!!recorder}
+            title={text}
+            className={`max-w-full truncate px-3 py-1.5 rounded-lg text-sm border transition-colors disabled:opacity-50 ${
+              idx === targetIndex
+                ? 'bg-orange-50 border-orange-300 text-orange-900 font-bold'
+                : 'bg-white border-stone-200 text-stone-600 hover:border-orange-200'
+            }`}
+          >
+            {idx === 0 ? text : t('practice.example', { n: idx })}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 bg-stone-50 rounded-xl p-4">
+        <p className="text-lg font-serif text-stone-800 flex-grow">{target}</p>
+        <SpeakButton text={target} speech={speech} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {recorder ? (
+          <button
+            onClick={handleStop}
+            className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded-xl text-sm font-bold hover:bg-red-600 transition-all animate-pulse"
+          >
+            <StopIcon className="w-4 h-4" />
+            {t('practice.stop')}
+          </button>
+        ) : (
+          <button
+            onClick={handleRecord}
+            disabled={assessing}
+            className="flex items-center gap-2 px-4 py-2 bg-stone-900 text-white rounded-xl text-sm font-bold hover:bg-orange-600 transition-all disabled:opacity-50"
+          >
+            <MicIcon className="w-4 h-4" />
+            {recording ? t('practice.recordAgain') : t('practice.record')}
+          </button>
+        )}
+
+        {recording && (
+          <>
+            <audio src={recording.url} controls className="h-9 max-w-[220px]" />
+            <button
+              onClick={handleAssess}
+              disabled={assessing}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-stone-200 text-stone-700 rounded-xl text-sm font-bold hover:bg-orange-50 hover:text-orange-700 transition-all disabled:opacity-50"
+            >
+              {assessing ? <Loader size="sm" /> : <SparklesIcon className="w-4 h-4" />}
+              {t('practice.assess')}
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+      {assessment && (
+        <div className="border border-stone-100 rounded-xl p-5 space-y-4 animate-fade-in">
+          <div className="flex items-start gap-4">
+            <div className={`flex-shrink-0 w-16 h-16 rounded-full border-2 flex items-center justify-center text-2xl font-bold ${scoreColor(assessment.score)}`}>
+              {Math.round(assessment.score)}
+            </div>
+            <div>
+              <p className="text-stone-800 font-medium">{assessment.summary}</p>
+              <p className="text-sm text-stone-500 mt-1">
+                {t('practice.heard')} <span className="italic font-serif">"{assessment.transcript}"</span>
+              </p>
+            </div>
+          </div>
+          {assessment.issues.length > 0 && (
+            <ul className="space-y-2">
+              {assessment.issues.map((issue, idx) => (
+                <li key={idx} className="flex gap-3 text-sm">
+                  <span className="font-mono font-bold text-orange-700 bg-orange-50 px-2 py-0.5 rounded h-fit">{issue.sound}</span>
+                  <span className="text-stone-600 leading-relaxed">{issue.feedback}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
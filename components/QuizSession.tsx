@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import { SavedItem } from '../types';
+import {
+  buildQuizSession,
+  ChoiceExercise,
+  MatchExercise,
+  ExerciseResult,
+  ExerciseKind,
+  MIN_QUIZ_ITEMS,
+} from '../services/quizEngine';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { GridIcon, RefreshIcon } from './Icons';
+import { StoredImage } from './StoredImage';
+
+interface QuizSessionProps {
+  items: SavedItem[];
+  onMissed: (words: string[]) => void;
+  onExit: () => void;
+}
+
+const EXERCISE_LABELS: Record<ExerciseKind, MessageKey> = {
+  definition: 'exercise.definition',
+  synonym: 'exercise.synonym',
+  example: 'exercise.example',
+  match: 'exercise.match',
+};
+
+const ChoiceCard = ({ exercise, onDone }: { exercise: ChoiceExercise; onDone: (result: ExerciseResult) => void }) => {
+  const t = useTranslation();
+  const [picked, setPicked] = useState<string | null>(null);
+  const correct = picked === exercise.answer;
+
+  const question = {
+    definition: t('quiz.askDefinition'),
+    synonym: t('quiz.askSynonym', { word: exercise.prompt }),
+    example: t('quiz.askExample'),
+  }[exercise.kind];
+
+  return (
+    <div>
+      <p className="text-stone-500 font-medium mb-3">{question}</p>
+      {exercise.kind !== 'synonym' && (
+        <p className="text-2xl font-serif text-stone-900 leading-relaxed mb-8">{exercise.prompt}</p>
+      )}
+      <div className="grid sm:grid-cols-2 gap-3">
+        {exercise.choices.map(choice => {
+          const state = !picked
+            ? 'bg-white border-stone-200 hover:border-orange-300 hover:bg-orange-50'
+            : choice === exercise.answer
+              ? 'bg-green-50 border-green-400 text-green-800'
+              : choice === picked
+                ? 'bg-red-50 border-red-300 text-red-700'
+                : 'bg-white border-stone-100 text-stone-400';
+          return (
+            <button
+              key={choice}
+              onClick={() => !picked && setPicked(choice)}
+              disabled={!!picked}
+              className={`px-5 py-4 rounded-xl border-2 text-start font-bold text-lg capitalize transition-all ${state}`}
+            >
+              {choice}
+            </button>
+          );
+        })}
+      </div>
+      {picked && (
+        <div className="mt-6 flex items-center justify-between">
+          <p className={`font-bold ${correct ? 'text-green-700' : 'text-red-600'}`}>
+            {correct ? t('quiz.correct') : t('quiz.answerWas', { answer: exercise.answer })}
+          </p>
+          <button
+            onClick={() => onDone({ exerciseId: exercise.id, kind: exercise.kind, correct, missedWords: correct ? [] : [exercise.word] })}
+            className="px-6 py-3 bg-stone-900 text-white rounded-xl font-bold hover:bg-orange-600 transition-all"
+          >
+            {t('quiz.next')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MatchCard = ({ exercise, onDone }: { exercise: MatchExercise; onDone: (result: ExerciseResult) => void }) => {
+  const t = useTranslation();
+  const words = useMemo(() => [...exercise.pairs].sort(() => Math.random() - 0.5).map(p => p.word), [exercise]);
+  const [selectedWord, setSelectedWord] = useState<string | null>(null);
+  const [assigned, setAssigned] = useState<Record<string, string>>({}); // itemId -> word
+  const [checked, setChecked] = useState(false);
+
+  const usedWords = new Set(Object.values(assigned));
+  const missed = exercise.pairs.filter(p => assigned[p.itemId] !== p.word).map(p => p.word);
+
+  const assign = (itemId: string) => {
+    if (checked || !selectedWord) return;
+    setAssigned(prev => {
+      const next = Object.fromEntries(Object.entries(prev).filter(([, w]) => w !== selectedWord));
+      return { ...next, [itemId]: selectedWord };
+    });
+    setSelectedWord(null);
+  };
+
+  return (
+    <div>
+      <p className="text-stone-500 font-medium mb-4">{t('quiz.matchHint')}</p>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {words.map(word => (
+          <button
+            key={word}
+            onClick={() => !checked && setSelectedWord(selectedWord === word ? null : word)}
+            disabled={checked}
+            className={`px-4 py-2 rounded-lg border-2 font-bold capitalize transition-all ${
+              selectedWord === word
+                ? 'bg-orange-600 border-orange-600 text-white'
+                : usedWords.has(word)
+                  ? 'bg-stone-100 border-stone-200 text-stone-400'
+                  : 'bg-white border-stone-200 text-stone-700 hover:border-orange-300'
+            }`}
+          >
+            {word}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {exercise.pairs.map(pair => {
+          const answer = assigned[pair.itemId];
+          const border = !checked
+            ? selectedWord ? 'border-orange-300 cursor-pointer' : 'border-stone-100'
+            : answer === pair.word ? 'border-green-400' : 'border-red-300';
+          return (
+            <div
+              key={pair.itemId}
+              onClick={() => assign(pair.itemId)}
+              className={`rounded-2xl overflow-hidden border-2 bg-white transition-all ${border}`}
+            >
+              <div className="relative aspect-[4/3] bg-stone-100">
+                <StoredImage imageId={pair.imageId} variant="thumb" alt={t('quiz.pictureAlt')} className="w-full h-full object-cover" />
+              </div>
+              <div className="px-3 py-2 text-center font-bold capitalize min-h-[2.5rem]">
+                {answer ?? <span className="text-stone-300">?</span>}
+                {checked && answer !== pair.word && <span className="ms-2 text-orange-700">→ {pair.word}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-6 flex justify-end">
+        {checked ? (
+          <button
+            onClick={() => onDone({ exerciseId: exercise.id, kind: 'match', correct: missed.length === 0, missedWords: missed })}
+            className="px-6 py-3 bg-stone-900 text-white rounded-xl font-bold hover:bg-orange-600 transition-all"
+          >
+            {t('quiz.next')}
+          </button>
+        ) : (
+          <button
+            onClick={() => setChecked(true)}
+            disabled={Object.keys(assigned).length < exercise.pairs.length}
+            className="px-6 py-3 bg-stone-900 text-white rounded-xl font-bold hover:bg-orange-600 transition-all disabled:opacity-40"
+          >
+            {t('quiz.check')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const QuizSession = ({ items, onMissed, onExit }: QuizSessionProps) => {
+  const t = useTranslation();
+  const [exercises, setExercises] = useState(() => buildQuizSession(items));
+  const [results, setResults] = useState<ExerciseResult[]>([]);
+
+  const current = exercises[results.length];
+
+  const handleDone = (result: ExerciseResult) => {
+    const next = [...results, result];
+    setResults(next);
+    if (next.length === exercises.length) {
+      const missed = Array.from(new Set(next.flatMap(r => r.missedWords)));
+      if (missed.length > 0) onMissed(missed);
+    }
+  };
+
+  const restart = () => {
+    setExercises(buildQuizSession(items));
+    setResults([]);
+  };
+
+  if (exercises.length === 0) {
+    return (
+      <div className="text-center py-20 text-stone-400 animate-fade-in">
+        <GridIcon className="w-16 h-16 mx-auto mb-4 opacity-30" />
+        <p className="text-xl">{t('quiz.needWords', { count: MIN_QUIZ_ITEMS })}</p>
+        <button onClick={onExit} className="mt-4 text-orange-600 font-bold hover:underline">
+          {t('common.backToWordbook')}
+        </button>
+      </div>
+    );
+  }
+
+  if (!current) {
+    const score = results.filter(r => r.correct).length;
+    const missed = Array.from(new Set(results.flatMap(r => r.missedWords)));
+    const byKind = (Object.keys(EXERCISE_LABELS) as ExerciseKind[])
+      .map(kind => {
+        const ofKind = results.filter(r => r.kind === kind);
+        return { kind, label: t(EXERCISE_LABELS[kind]), total: ofKind.length, correct: ofKind.filter(r => r.correct).length };
+      })
+      .filter(row => row.total > 0);
+
+    return (
+      <div className="max-w-xl mx-auto animate-fade-in">
+        <div className="bg-white rounded-3xl shadow-xl border border-stone-100 p-8 text-center">
+          <p className="text-xs font-bold uppercase tracking-widest text-orange-600 mb-2">{t('quiz.complete')}</p>
+          <h2 className="text-5xl font-serif font-bold text-stone-900 mb-6">{score} / {results.length}</h2>
+          <div className="space-y-2 text-start mb-6">
+            {byKind.map(row => (
+              <div key={row.kind} className="flex items-center gap-3 text-sm">
+                <span className="w-36 text-stone-500 font-medium">{row.label}</span>
+                <div className="flex-grow h-2 bg-stone-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-orange-500" style={{ width: `${(row.correct / row.total) * 100}%` }} />
+                </div>
+                <span className="w-10 text-end font-bold text-stone-700">{row.correct}/{row.total}</span>
+              </div>
+            ))}
+          </div>
+          {missed.length > 0 && (
+            <div className="mb-6">
+              <p className="text-sm text-stone-500 mb-2">{t('quiz.missedMoved')}</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {missed.map(word => (
+                  <span key={word} className="text-xs px-2 py-1 bg-red-50 text-red-700 rounded capitalize">{word}</span>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={restart}
+              className="flex items-center gap-2 px-5 py-3 bg-stone-900 text-white rounded-xl font-bold hover:bg-orange-600 transition-all"
+            >
+              <RefreshIcon className="w-4 h-4" />
+              {t('quiz.newQuiz')}
+            </button>
+            <button
+              onClick={onExit}
+              className="px-5 py-3 bg-white border border-stone-200 text-stone-700 rounded-xl font-bold hover:bg-orange-50 transition-all"
+            >
+              {t('common.backToWordbook')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-4 text-sm font-medium text-stone-500">
+        <span>{t(EXERCISE_LABELS[current.kind])}</span>
+        <span>{results.length + 1} / {exercises.length}</span>
+      </div>
+      <div className="h-1 bg-stone-200 rounded-full mb-6 overflow-hidden">
+        <div className="h-full bg-orange-500 transition-all" style={{ width: `${(results.length / exercises.length) * 100}%` }} />
+      </div>
+      {/* Keyed so each exercise starts with fresh answer state */}
+      <div key={current.id} className="bg-white rounded-3xl shadow-xl border border-stone-100 p-8">
+        {current.kind === 'match'
+          ? <MatchCard exercise={current} onDone={handleDone} />
+          : <ChoiceCard exercise={current} onDone={handleDone} />}
+      </div>
+      <button onClick={onExit} className="mt-6 text-sm text-stone-400 hover:text-stone-600 font-medium">
+        {t('quiz.end')}
+      </button>
+    </div>
+  );
+};
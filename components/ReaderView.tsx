@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { SavedItem, SupportedLanguage, WordGloss } from '../types';
+import { glossWords } from '../services/ai';
+import { tokenizePassage, collectUnknownWords, isKnownWord, wordKey, ReaderPassage } from '../services/reader';
+import { useTranslation } from '../services/i18n';
+import { BookIcon, BookmarkIcon, XIcon } from './Icons';
+import { Loader } from './Loader';
+
+export interface HarvestedWord {
+  word: string;
+  example: string; // Sentence from the passage
+}
+
+interface ReaderViewProps {
+  savedItems: SavedItem[];
+  targetLanguage: SupportedLanguage;
+  onHarvest: (words: HarvestedWord[], withImage: boolean) => void;
+}
+
+export const ReaderView = ({ savedItems, targetLanguage, onHarvest }: ReaderViewProps) => {
+  const t = useTranslation();
+  const [draft, setDraft] = useState('');
+  const [passage, setPassage] = useState<ReaderPassage | null>(null);
+  const [glosses, setGlosses] = useState<Record<string, WordGloss>>({});
+  const [loadingGlosses, setLoadingGlosses] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [harvestMessage, setHarvestMessage] = useState<string | null>(null);
+  const [withImage, setWithImage] = useState(true);
+
+  const handleRead = async () => {
+    const text = draft.trim();
+    if (!text) return;
+    const parsed = tokenizePassage(text);
+    setPassage(parsed);
+    setGlosses({});
+    setSelected([]);
+    setHarvestMessage(null);
+
+    const unknown = collectUnknownWords(parsed, savedItems);
+    if (unknown.length === 0) return;
+    setLoadingGlosses(true);
+    try {
+      const result = await glossWords(unknown, text, targetLanguage);
+      setGlosses(Object.fromEntries(result.map(g => [wordKey(g.word), g])));
+    } catch (err) {
+      console.error("Failed to gloss passage", err);
+    } finally {
+      setLoadingGlosses(false);
+    }
+  };
+
+  const toggleWord = (key: string) => {
+    setSelected(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  const isUnknown = (text: string) => !isKnownWord(text, savedItems, glosses[wordKey(text)]?.lemma);
+
+  const unknownKeys = passage
+    ? Array.from(new Set(passage.tokens.filter(tok => tok.isWord && isUnknown(tok.text)).map(tok => wordKey(tok.text))))
+    : [];
+
+  // Save the dictionary form of each selected word, with the first sentence it appeared in
+  const handleHarvest = () => {
+    if (!passage) return;
+    const harvested = new Map<string, HarvestedWord>();
+    selected.forEach(key => {
+      const token = passage.tokens.find(tok => tok.isWord && wordKey(tok.text) === key);
+      if (!token) return;
+      const word = glosses[key]?.lemma || token.text;
+      if (!harvested.has(wordKey(word))) {
+        harvested.set(wordKey(word), { word, example: passage.sentences[token.sentenceIndex] });
+      }
+    });
+    const words = Array.from(harvested.values());
+    onHarvest(words, withImage);
+    setSelected([]);
+    setHarvestMessage(t('reader.queued', { count: words.length }));
+  };
+
+  if (!passage) {
+    return (
+      <div className="max-w-3xl mx-auto animate-fade-in">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t('reader.placeholder')}
+          rows={12}
+          className="w-full p-6 bg-white border-2 border-stone-100 rounded-2xl text-lg font-serif leading-relaxed shadow-xl shadow-stone-200/40 placeholder-stone-300 focus:outline-none focus:border-orange-500/50 resize-y"
+        />
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={handleRead}
+            disabled={!draft.trim()}
+            className="flex items-center gap-2 px-6 py-3 bg-stone-900 text-white rounded-xl font-bold hover:bg-orange-600 transition-all disabled:opacity-50"
+          >
+            <BookIcon className="w-4 h-4" />
+            {t('reader.read')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in">
+      <div className="sticky top-20 z-10 mb-6 flex flex-wrap items-center justify-between gap-3 bg-white/90 backdrop-blur border border-stone-100 rounded-2xl px-5 py-3 shadow-sm">
+        <div className="flex items-center gap-3 text-sm text-stone-500 font-medium">
+          {loadingGlosses && <Loader size="sm" />}
+          <span>{t('reader.status', { count: unknownKeys.length })}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 px-2 text-xs font-bold text-stone-500 cursor-pointer">
+            <input type="checkbox" checked={withImage} onChange={(e) => setWithImage(e.target.checked)} className="accent-orange-600" />
+            {t('reader.withImages')}
+          </label>
+          <button
+            onClick={() => setSelected(selected.length === unknownKeys.length ? [] : unknownKeys)}
+            disabled={unknownKeys.length === 0}
+            className="px-3 py-2 text-xs font-bold uppercase tracking-wider text-stone-500 hover:text-orange-700 disabled:opacity-40"
+          >
+            {selected.length === unknownKeys.length && unknownKeys.length > 0 ? t('reader.clear') : t('reader.selectAll')}
+          </button>
+          <button
+            onClick={handleHarvest}
+            disabled={selected.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-stone-900 text-white rounded-xl text-sm font-bold hover:bg-orange-600 transition-all disabled:opacity-40"
+          >
+            <BookmarkIcon className="w-4 h-4" />
+            {selected.length > 0 ? t('reader.saveCount', { count: selected.length }) : t('reader.save')}
+          </button>
+          <button
+            onClick={() => setPassage(null)}
+            title={t('reader.another')}
+            className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {harvestMessage && (
+        <div className="mb-6 bg-green-50 border-s-4 border-green-400 p-4 rounded-e-xl text-green-800 text-sm font-medium">
+          {harvestMessage}
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl shadow-xl border border-stone-100 p-8 sm:p-10">
+        <p className="text-xl leading-loose text-stone-800 font-serif whitespace-pre-wrap">
+          {passage.tokens.map((token, i) => {
+            if (!token.isWord || !isUnknown(token.text)) return <span key={i}>{token.text}</span>;
+            const key = wordKey(token.text);
+            const gloss = glosses[key];
+            const isSelected = selected.includes(key);
+            return (
+              <span key={i} className="relative group">
+                <span
+                  onClick={() => toggleWord(key)}
+                  className={`cursor-pointer rounded px-0.5 border-b-2 transition-colors ${
+                    isSelected
+                      ? 'bg-orange-200 border-orange-500 text-orange-950'
+                      : 'bg-yellow-100/70 border-yellow-300 hover:bg-yellow-200'
+                  }`}
+                >
+                  {token.text}
+                </span>
+                {gloss && (
+                  <span className="pointer-events-none absolute left-1/2 -translate-x-1/2 bottom-full mb-2 z-20 hidden group-hover:block w-max max-w-xs px-3 py-2 bg-stone-900 text-white text-sm font-sans leading-snug rounded-lg shadow-lg">
+                    {gloss.lemma && wordKey(gloss.lemma) !== key && (
+                      <span className="font-bold me-1">{gloss.lemma}:</span>
+                    )}
+                    {gloss.gloss}
+                  </span>
+                )}
+              </span>
+            );
+          })}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ReviewGrade, SavedItem } from '../types';
+import { scheduleReview, formatInterval } from '../services/srs';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { LayersIcon, RefreshIcon } from './Icons';
+import { StoredImage } from './StoredImage';
+
+interface ReviewSessionProps {
+  items: SavedItem[];
+  onGrade: (id: string, grade: ReviewGrade) => void;
+  onExit: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: MessageKey; className: string }[] = [
+  { grade: 'again', label: 'grade.again', className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+  { grade: 'hard', label: 'grade.hard', className: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { grade: 'good', label: 'grade.good', className: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' },
+  { grade: 'easy', label: 'grade.easy', className: 'bg-sky-50 text-sky-700 border-sky-200 hover:bg-sky-100' },
+];
+
+export const ReviewSession = ({ items, onGrade, onExit }: ReviewSessionProps) => {
+  const t = useTranslation();
+  // Snapshot the due cards when the session starts so grading doesn't reshuffle the deck
+  const [queue, setQueue] = useState<SavedItem[]>(items);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const card = queue[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    onGrade(card.id, grade);
+    setReviewedCount(prev => prev + 1);
+    setFlipped(false);
+    setQueue(prev => {
+      const [current, ...rest] = prev;
+      // Forgotten cards come back at the end of this session
+      return grade === 'again' ? [...rest, { ...current, review: scheduleReview(current.review, grade) }] : rest;
+    });
+  };
+
+  if (!card) {
+    return (
+      <div className="text-center py-20 text-stone-400 animate-fade-in">
+        <LayersIcon className="w-16 h-16 mx-auto mb-4 opacity-30" />
+        <p className="text-xl">
+          {reviewedCount > 0 ? t('review.complete', { count: reviewedCount }) : t('review.nothingDue')}
+        </p>
+        <button
+          onClick={onExit}
+          className="mt-4 text-orange-600 font-bold hover:underline"
+        >
+          {t('common.backToWordbook')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-4 text-sm font-medium text-stone-500">
+        <span>{t('review.remaining', { count: queue.length })}</span>
+        <span>{t('review.reviewed', { count: reviewedCount })}</span>
+      </div>
+
+      <div className="bg-white rounded-[2rem] shadow-xl shadow-stone-200/60 border border-stone-100 overflow-hidden">
+        {/* Front: image + word */}
+        <div className="relative aspect-[4/3] bg-stone-100">
+          <StoredImage imageId={card.imageId} alt={card.word} className="w-full h-full object-cover" />
+        </div>
+        <div className="p-8 text-center">
+          <h2 className="text-5xl font-serif font-bold text-stone-900 capitalize">{card.word}</h2>
+
+          {/* Back: definition */}
+          {flipped ? (
+            <p className="mt-6 text-xl text-stone-700 font-serif leading-relaxed animate-fade-in">
+              {card.definition}
+            </p>
+          ) : (
+            <button
+              onClick={() => setFlipped(true)}
+              className="mt-8 inline-flex items-center gap-2 px-6 py-3 bg-stone-900 text-white rounded-xl font-bold text-sm hover:bg-orange-600 transition-colors"
+            >
+              <RefreshIcon className="w-4 h-4" />
+              {t('review.showDefinition')}
+            </button>
+          )}
+        </div>
+
+        {flipped && (
+          <div className="grid grid-cols-4 gap-2 p-4 border-t border-stone-100 bg-stone-50">
+            {GRADES.map(({ grade, label, className }) => (
+              <button
+                key={grade}
+                onClick={() => handleGrade(grade)}
+                className={`flex flex-col items-center py-3 rounded-xl border font-bold text-sm transition-colors ${className}`}
+              >
+                <span>{t(label)}</span>
+                <span className="text-[10px] font-medium opacity-70">
+                  {formatInterval(scheduleReview(card.review, grade))}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { SentenceAnalysis, SentenceToken } from '../types';
+import { useTranslation } from '../services/i18n';
+import { BookIcon, XIcon } from './Icons';
+
+interface SentenceAnalysisCardProps {
+  analysis: SentenceAnalysis;
+  activeLemma?: string;
+  onSelectToken: (token: SentenceToken) => void;
+  onClose: () => void;
+}
+
+export const SentenceAnalysisCard = ({ analysis, activeLemma, onSelectToken, onClose }: SentenceAnalysisCardProps) => {
+  const t = useTranslation();
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-xl shadow-stone-200/60 border border-white overflow-hidden animate-fade-in mb-10">
+      <div className="px-8 pt-10 pb-6 border-b border-stone-100 flex justify-between items-start gap-4">
+        <p className="text-3xl sm:text-4xl font-serif font-bold text-stone-900 leading-snug">{analysis.sentence}</p>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600 flex-shrink-0"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="p-8 sm:p-10 space-y-8">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="bg-stone-50 p-5 rounded-xl">
+            <h3 className="text-xs font-bold text-stone-400 uppercase tracking-widest mb-2">{t('sentence.literal')}</h3>
+            <p className="text-lg text-stone-700 leading-relaxed">{analysis.literalTranslation}</p>
+          </div>
+          <div className="bg-orange-50/60 border-l-4 border-orange-400 p-5 rounded-r-xl">
+            <h3 className="text-xs font-bold text-orange-800 uppercase tracking-widest mb-2">{t('sentence.natural')}</h3>
+            <p className="text-lg text-stone-800 font-medium leading-relaxed">{analysis.naturalTranslation}</p>
+          </div>
+        </div>
+
+        {/* Word-by-word gloss; each token opens its full card below */}
+        <div>
+          <h3 className="text-sm font-bold text-stone-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+            <BookIcon className="w-4 h-4" />
+            {t('sentence.wordByWord')}
+          </h3>
+          <div className="flex flex-wrap gap-3">
+            {analysis.tokens.map((token, idx) => (
+              <button
+                key={idx}
+                onClick={() => onSelectToken(token)}
+                title={t('sentence.open', { word: token.lemma })}
+                className={`flex flex-col items-start px-4 py-3 rounded-xl border-2 text-start transition-all ${
+                  token.lemma.toLowerCase() === activeLemma?.toLowerCase()
+                    ? 'border-orange-400 bg-orange-50'
+                    : 'border-stone-100 hover:border-orange-200 hover:bg-orange-50/40'
+                }`}
+              >
+                <span className="text-xl font-serif font-bold text-stone-900">{token.text}</span>
+                <span className="text-sm text-stone-600">{token.gloss}</span>
+                <span className="text-[10px] font-bold uppercase tracking-wider text-stone-400 mt-1">{token.role}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {analysis.notes && (
+          <p className="text-stone-500 italic font-serif text-lg">{analysis.notes}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { playPronunciation, SpeechOptions } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import { VolumeIcon } from './Icons';
+import { Loader } from './Loader';
+
+interface SpeakButtonProps {
+  text: string;
+  speech: SpeechOptions;
+  className?: string;
+}
+
+// Small inline speaker for example sentences and story paragraphs
+export const SpeakButton = ({ text, speech, className = '' }: SpeakButtonProps) => {
+  const t = useTranslation();
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setLoading(true);
+    try {
+      await playPronunciation(text, speech);
+    } catch (err) {
+      console.error("Audio playback failed", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={loading || !text.trim()}
+      title={t('speak.listen')}
+      className={`inline-flex items-center justify-center w-7 h-7 rounded-full text-stone-400 hover:text-orange-600 hover:bg-orange-50 transition-colors flex-shrink-0 ${className}`}
+    >
+      {loading ? <Loader size="sm" /> : <VolumeIcon className="w-4 h-4" />}
+    </button>
+  );
+};
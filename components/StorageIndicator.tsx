@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { getStorageUsage, StorageUsage } from '../services/imageStore';
+import { useTranslation } from '../services/i18n';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// Shows how much browser storage the Wordbook is using; refreshKey triggers a re-measure
+export const StorageIndicator = ({ refreshKey }: { refreshKey: unknown }) => {
+  const t = useTranslation();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch(err => console.warn("Storage estimate unavailable", err));
+  }, [refreshKey]);
+
+  if (!usage || !usage.quota) return null;
+
+  const percent = Math.min(100, (usage.used / usage.quota) * 100);
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-stone-400 font-medium" title={t('storage.wordList', { size: formatBytes(usage.localStorageBytes) })}>
+      <div className="w-24 h-1.5 bg-stone-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${percent > 80 ? 'bg-red-500' : 'bg-orange-400'}`}
+          style={{ width: `${Math.max(percent, 1)}%` }}
+        />
+      </div>
+      <span>{t('storage.used', { used: formatBytes(usage.used), quota: formatBytes(usage.quota) })}</span>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import { getImageUrl, ImageVariant } from '../services/imageStore';
+import { ImageIcon } from './Icons';
+
+interface StoredImageProps {
+  imageId?: string;
+  variant?: ImageVariant;
+  alt: string;
+  className?: string;
+}
+
+// Renders an image from the IndexedDB image store, with a placeholder while it loads or if it's missing
+export const StoredImage = ({ imageId, variant = 'full', alt, className }: StoredImageProps) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    if (!imageId) return;
+
+    getImageUrl(imageId, variant)
+      .then(url => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch(err => console.error("Failed to load stored image", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageId, variant]);
+
+  if (!src) {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center text-stone-300">
+        <ImageIcon className="w-12 h-12 opacity-50" />
+      </div>
+    );
+  }
+
+  return <img src={src} alt={alt} className={className} />;
+};
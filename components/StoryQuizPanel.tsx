@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { StoryQuiz } from '../types';
+import { parseStory, gradeAnswer, splitParagraphs, paragraphText } from '../services/storyQuiz';
+import { SpeechOptions } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import { XIcon, RefreshIcon } from './Icons';
+import { SpeakButton } from './SpeakButton';
+
+interface StoryQuizPanelProps {
+  quiz: StoryQuiz;
+  speech: SpeechOptions;
+  onClose: () => void;
+  onMissed: (words: string[]) => void;
+}
+
+type QuizMode = 'reveal' | 'test';
+
+// Helper Component for Interactive Quiz Blanks
+const QuizBlank = ({ word }: { word: string }) => {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <span
+      onClick={() => setRevealed(true)}
+      className={`inline-flex items-center justify-center min-w-[80px] px-2 py-0 mx-1 rounded cursor-pointer transition-all duration-300 border-b-2 ${
+        revealed
+          ? 'bg-orange-100 border-orange-500 text-orange-900 font-bold'
+          : 'bg-stone-200 border-stone-400 text-transparent hover:bg-stone-300'
+      }`}
+    >
+      {revealed ? word : <span className="select-none opacity-0">{word}</span>}
+    </span>
+  );
+};
+
+export const StoryQuizPanel = ({ quiz, speech, onClose, onMissed }: StoryQuizPanelProps) => {
+  const t = useTranslation();
+  const segments = useMemo(() => parseStory(quiz.content, quiz.wordsUsed), [quiz]);
+  const paragraphs = useMemo(() => splitParagraphs(segments), [segments]);
+  const blanks = segments.filter(s => s.type === 'blank');
+
+  const [mode, setMode] = useState<QuizMode>('reveal');
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [results, setResults] = useState<Record<number, boolean> | null>(null);
+
+  const score = results ? Object.values(results).filter(Boolean).length : 0;
+
+  const switchMode = (next: QuizMode) => {
+    setMode(next);
+    setAnswers({});
+    setResults(null);
+  };
+
+  const handleCheck = () => {
+    const graded: Record<number, boolean> = {};
+    blanks.forEach(blank => {
+      if (blank.type === 'blank') graded[blank.index] = gradeAnswer(answers[blank.index] ?? '', blank);
+    });
+    setResults(graded);
+
+    const missed = new Set<string>();
+    blanks.forEach(blank => {
+      if (blank.type === 'blank' && !graded[blank.index]) missed.add(blank.word);
+    });
+    if (missed.size > 0) onMissed(Array.from(missed));
+  };
+
+  const renderBlank = (blank: { index: number; form: string; word: string }) => {
+    if (mode === 'reveal') {
+      return <QuizBlank key={`b${blank.index}`} word={blank.form} />;
+    }
+
+    const correct = results?.[blank.index];
+    return (
+      <span key={`b${blank.index}`} className="inline-flex items-baseline gap-1 mx-1">
+        <input
+          type="text"
+          value={answers[blank.index] ?? ''}
+          onChange={(e) => setAnswers(prev => ({ ...prev, [blank.index]: e.target.value }))}
+          onKeyDown={(e) => e.key === 'Enter' && !results && handleCheck()}
+          disabled={!!results}
+          autoComplete="off"
+          spellCheck={false}
+          style={{ width: `${Math.max(5, blank.form.length + 2)}ch` }}
+          className={`px-2 py-0 rounded border-b-2 font-sans text-lg focus:outline-none transition-colors ${
+            results === null
+              ? 'bg-stone-100 border-stone-400 focus:border-orange-500 focus:bg-orange-50'
+              : correct
+                ? 'bg-green-50 border-green-500 text-green-800'
+                : 'bg-red-50 border-red-400 text-red-700 line-through'
+          }`}
+        />
+        {results && !correct && (
+          <span className="text-base font-bold text-orange-700">{blank.form}</span>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white border border-orange-200 rounded-3xl p-8 shadow-xl shadow-orange-100/50 relative overflow-hidden animate-fade-in mb-10">
+      <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-orange-400 to-red-500" />
+      <div className="flex justify-between items-start mb-6 gap-4">
+        <h3 className="text-3xl font-serif font-bold text-stone-900">{quiz.title}</h3>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <div className="flex bg-stone-100 rounded-lg p-1 text-xs font-bold">
+            {(['reveal', 'test'] as QuizMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => switchMode(m)}
+                className={`px-3 py-1.5 rounded-md transition-colors ${
+                  mode === m ? 'bg-white text-stone-900 shadow-sm' : 'text-stone-500 hover:text-stone-700'
+                }`}
+              >
+                {m === 'reveal' ? t('story.reveal') : t('story.test')}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-stone-100 rounded-full text-stone-400 hover:text-stone-600"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="prose prose-stone max-w-none space-y-4">
+        {paragraphs.map((paragraph, p) => (
+          <div key={p} className="flex gap-2 items-start">
+            {/* Reading aloud would give the answers away while testing */}
+            {(mode === 'reveal' || results) && (
+              <SpeakButton text={paragraphText(paragraph)} speech={speech} className="mt-2" />
+            )}
+            <p className="text-xl leading-loose text-stone-800 font-serif">
+              {paragraph.map((segment, i) =>
+                segment.type === 'blank' ? renderBlank(segment) : <span key={i}>{segment.text}</span>
+              )}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-8 pt-6 border-t border-stone-100 flex justify-between items-center gap-4">
+        {mode === 'reveal' ? (
+          <p className="text-stone-500 text-sm font-medium italic">
+            {t('story.revealHint')}
+          </p>
+        ) : results ? (
+          <div className="flex items-center gap-4">
+            <p className="text-stone-800 font-bold">
+              {t('story.score', { score, total: blanks.length })}
+              {score < blanks.length && (
+                <span className="ms-2 text-sm font-medium text-stone-500">{t('story.missedMoved')}</span>
+              )}
+            </p>
+            <button
+              onClick={() => switchMode('test')}
+              className="flex items-center gap-1 text-sm font-bold text-orange-600 hover:underline"
+            >
+              <RefreshIcon className="w-3 h-3" />
+              {t('story.tryAgain')}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleCheck}
+            className="px-5 py-2 bg-stone-900 text-white rounded-xl font-bold text-sm hover:bg-orange-600 transition-all"
+          >
+            {t('story.check')}
+          </button>
+        )}
+        <div className="flex gap-2 flex-wrap justify-end">
+          {quiz.wordsUsed.map(w => (
+            <span key={w} className="text-xs px-2 py-1 bg-stone-100 text-stone-500 rounded">
+              {w}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
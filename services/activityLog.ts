@@ -0,0 +1,31 @@
+import { ReviewGrade } from "../types";
+
+const STORAGE_KEY = 'leximind_activity';
+const MAX_EVENTS = 5000; // A few years of daily study; the oldest events drop off first
+
+// What the progress dashboard is built from, alongside the Wordbook itself
+export type ActivityEvent =
+  | { type: 'lookup'; word: string; at: number }
+  | { type: 'review'; word: string; grade: ReviewGrade; at: number }
+  | { type: 'missed'; word: string; at: number }; // Missed in a quiz or story
+
+export const loadActivity = (): ActivityEvent[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ActivityEvent[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistActivity = (events: ActivityEvent[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
+  } catch (error) {
+    console.warn("Failed to persist activity log", error);
+  }
+};
+
+// Oldest first, so new events are appended
+export const recordActivity = (events: ActivityEvent[], ...added: ActivityEvent[]): ActivityEvent[] =>
+  [...events, ...added].slice(-MAX_EVENTS);
@@ -0,0 +1,118 @@
+import { WordDefinition, SupportedLanguage, AdditionalMeaning, StoryQuiz, SpellingCheck, SentenceAnalysis, WordGloss, PronunciationAssessment, Inflections, ImagePromptOptions, MnemonicScene } from "../types";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mockProvider";
+import { decodePcm, getCachedClip, cacheClip, playBuffer } from "./audio";
+
+export interface ChatHistoryEntry {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Everything the app asks of an AI backend. Implemented by Gemini and the offline mock.
+export interface AIProvider {
+  name: string;
+  checkSpelling: (word: string, nativeLanguage: SupportedLanguage) => Promise<SpellingCheck>;
+  getWordDetails: (word: string, targetLanguage: SupportedLanguage, nativeLanguage: SupportedLanguage) => Promise<WordDefinition>;
+  getAdditionalMeanings: (word: string, targetLanguage: SupportedLanguage) => Promise<AdditionalMeaning[]>;
+  getInflections: (word: string, partOfSpeech: string, targetLanguage: SupportedLanguage) => Promise<Inflections>;
+  analyzeSentence: (sentence: string, targetLanguage: SupportedLanguage, nativeLanguage: SupportedLanguage) => Promise<SentenceAnalysis>;
+  glossWords: (words: string[], passage: string, targetLanguage: SupportedLanguage) => Promise<WordGloss[]>;
+  getMnemonicScene: (word: string, nativeLanguage: SupportedLanguage, meaning?: string) => Promise<MnemonicScene>;
+  generateWordImage: (word: string, promptContext?: string, options?: ImagePromptOptions) => Promise<string>;
+  generateStoryFromWords: (words: string[], targetLanguage: SupportedLanguage) => Promise<StoryQuiz>;
+  streamChatAboutWord: (
+    history: ChatHistoryEntry[],
+    message: string,
+    currentWord: string,
+    targetLanguage: string,
+    nativeLanguage: string,
+    signal?: AbortSignal
+  ) => AsyncIterable<string>;
+  synthesizeSpeech: (text: string, voice?: string) => Promise<string | null>; // base64 16-bit PCM, 24kHz mono
+  assessPronunciation: (
+    audioBase64: string,
+    mimeType: string,
+    expectedText: string,
+    targetLanguage: SupportedLanguage,
+    nativeLanguage: SupportedLanguage
+  ) => Promise<PronunciationAssessment>;
+}
+
+// Prebuilt TTS voices offered in the voice picker
+export const SPEECH_VOICES = [
+  { id: 'Kore', label: 'Kore · firm' },
+  { id: 'Puck', label: 'Puck · upbeat' },
+  { id: 'Charon', label: 'Charon · informative' },
+  { id: 'Aoede', label: 'Aoede · breezy' },
+  { id: 'Leda', label: 'Leda · youthful' },
+  { id: 'Orus', label: 'Orus · steady' },
+  { id: 'Zephyr', label: 'Zephyr · bright' },
+];
+
+export const DEFAULT_VOICE = 'Kore'; // Usually good for clarity
+
+const SLOW_PLAYBACK_RATE = 0.7;
+
+export interface SpeechOptions {
+  voice: string;
+  slow: boolean;
+}
+
+// AI_PROVIDER=mock|gemini. Without an explicit choice, fall back to the mock when there is no API key.
+const resolveProvider = (): AIProvider => {
+  const configured = (process.env.AI_PROVIDER || '').toLowerCase();
+  const apiKey = process.env.API_KEY || '';
+
+  if (configured === 'mock' || (!configured && !apiKey)) {
+    return createMockProvider();
+  }
+  if (configured && configured !== 'gemini') {
+    console.warn(`Unknown AI_PROVIDER "${configured}", using Gemini`);
+  }
+  return createGeminiProvider(apiKey);
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProvider();
+  }
+  return activeProvider;
+};
+
+export const checkSpelling: AIProvider['checkSpelling'] = (...args) => getProvider().checkSpelling(...args);
+
+export const getWordDetails: AIProvider['getWordDetails'] = (...args) => getProvider().getWordDetails(...args);
+
+export const getAdditionalMeanings: AIProvider['getAdditionalMeanings'] = (...args) => getProvider().getAdditionalMeanings(...args);
+
+export const getInflections: AIProvider['getInflections'] = (...args) => getProvider().getInflections(...args);
+
+export const analyzeSentence: AIProvider['analyzeSentence'] = (...args) => getProvider().analyzeSentence(...args);
+
+export const glossWords: AIProvider['glossWords'] = (...args) => getProvider().glossWords(...args);
+
+export const getMnemonicScene: AIProvider['getMnemonicScene'] = (...args) => getProvider().getMnemonicScene(...args);
+
+export const generateWordImage: AIProvider['generateWordImage'] = (...args) => getProvider().generateWordImage(...args);
+
+export const generateStoryFromWords: AIProvider['generateStoryFromWords'] = (...args) => getProvider().generateStoryFromWords(...args);
+
+export const streamChatAboutWord: AIProvider['streamChatAboutWord'] = (...args) => getProvider().streamChatAboutWord(...args);
+
+export const assessPronunciation: AIProvider['assessPronunciation'] = (...args) => getProvider().assessPronunciation(...args);
+
+// Text-to-Speech. Decoded clips are cached per provider + voice + text, so replays and slow replays are instant.
+export const playPronunciation = async (text: string, { voice, slow }: SpeechOptions = { voice: DEFAULT_VOICE, slow: false }) => {
+  const provider = getProvider();
+  const key = `${provider.name}|${voice}|${text}`;
+  let clip = getCachedClip(key);
+  if (!clip) {
+    const base64Audio = await provider.synthesizeSpeech(text, voice);
+    if (!base64Audio) return;
+    clip = await decodePcm(base64Audio);
+    cacheClip(key, clip);
+  }
+  await playBuffer(clip, slow ? SLOW_PLAYBACK_RATE : 1);
+};
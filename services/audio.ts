@@ -0,0 +1,87 @@
+// TTS providers return raw 16-bit mono PCM at this rate
+export const PCM_SAMPLE_RATE = 24000;
+
+// Helper to decode base64 audio
+export const decodeAudio = (base64: string) => {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export async function decodeAudioData(
+  bytes: Uint8Array,
+  ctx: AudioContext
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(bytes.buffer);
+  const numChannels = 1;
+  const sampleRate = PCM_SAMPLE_RATE;
+  const frameCount = dataInt16.length / numChannels;
+
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+const MAX_CACHED_CLIPS = 100;
+
+let sharedContext: AudioContext | null = null;
+let currentSource: AudioBufferSourceNode | null = null;
+
+// Decoded clips keyed by whatever identifies the speech (provider, voice, text), oldest first
+const clipCache = new Map<string, AudioBuffer>();
+
+// One context for the whole app; browsers cap how many can exist at once
+export const getAudioContext = () => {
+  if (!sharedContext) {
+    sharedContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: PCM_SAMPLE_RATE });
+  }
+  return sharedContext;
+};
+
+export const decodePcm = (base64Audio: string) => decodeAudioData(decodeAudio(base64Audio), getAudioContext());
+
+export const getCachedClip = (key: string) => {
+  const clip = clipCache.get(key);
+  if (clip) {
+    // Re-insert so the least recently played clip is evicted first
+    clipCache.delete(key);
+    clipCache.set(key, clip);
+  }
+  return clip ?? null;
+};
+
+export const cacheClip = (key: string, clip: AudioBuffer) => {
+  clipCache.set(key, clip);
+  while (clipCache.size > MAX_CACHED_CLIPS) {
+    clipCache.delete(clipCache.keys().next().value as string);
+  }
+};
+
+// Play a decoded clip, cutting off whatever is playing. Rates below 1 slow speech down.
+export const playBuffer = async (buffer: AudioBuffer, playbackRate = 1) => {
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') {
+    await ctx.resume();
+  }
+  currentSource?.stop();
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = playbackRate;
+  source.connect(ctx.destination);
+  source.onended = () => {
+    if (currentSource === source) currentSource = null;
+  };
+  currentSource = source;
+  source.start();
+};
@@ -0,0 +1,111 @@
+import { AdditionalMeaning, Inflections, SupportedLanguage, WordDefinition } from "../types";
+import { idbDelete, idbGet, idbGetAll, idbPut } from "./db";
+import { ImageStyleId } from "./imageFeedback";
+import { imageIdFor } from "./imageStore";
+
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // Regenerate lookups older than 30 days
+const MAX_ENTRIES = 200;                      // Least recently used lookups are evicted past this
+
+export interface CachedLookup {
+  key: string;
+  word: string;
+  targetLanguage: SupportedLanguage;
+  nativeLanguage: SupportedLanguage;
+  definition?: WordDefinition;
+  meanings?: AdditionalMeaning[];
+  inflections?: Record<string, Inflections>; // By part of speech (see formsKey), so each sense gets its own tables
+  images: string[];
+  imageStyles?: Record<string, ImageStyleId>; // By imageIdFor, so ratings and variations know each picture's preset
+  createdAt: number;
+  accessedAt: number;
+}
+
+export const formsKey = (partOfSpeech: string) => partOfSpeech.trim().toLowerCase();
+
+export const lookupKey = (word: string, targetLanguage: SupportedLanguage, nativeLanguage: SupportedLanguage) =>
+  `${word.trim().toLowerCase()}|${targetLanguage}|${nativeLanguage}`;
+
+const isStale = (entry: CachedLookup, now: number) => now - entry.createdAt > MAX_AGE_MS;
+
+// Returns a fresh cache entry, or null when missing/stale. Storage errors are treated as a miss.
+export const getCachedLookup = async (
+  word: string,
+  targetLanguage: SupportedLanguage,
+  nativeLanguage: SupportedLanguage
+): Promise<CachedLookup | null> => {
+  try {
+    const key = lookupKey(word, targetLanguage, nativeLanguage);
+    const entry = await idbGet<CachedLookup>('lookups', key);
+    const now = Date.now();
+    if (!entry) return null;
+    if (isStale(entry, now)) {
+      await idbDelete('lookups', key);
+      return null;
+    }
+    const touched = { ...entry, accessedAt: now };
+    await idbPut('lookups', touched);
+    return touched;
+  } catch (error) {
+    console.warn("Lookup cache unavailable", error);
+    return null;
+  }
+};
+
+// Merge new data into the entry for this lookup, creating it if needed
+export const updateCachedLookup = async (
+  word: string,
+  targetLanguage: SupportedLanguage,
+  nativeLanguage: SupportedLanguage,
+  patch: Partial<Pick<CachedLookup, 'definition' | 'meanings' | 'inflections' | 'images' | 'imageStyles'>>,
+  options: { reset?: boolean } = {}
+) => {
+  try {
+    const key = lookupKey(word, targetLanguage, nativeLanguage);
+    const existing = options.reset ? undefined : await idbGet<CachedLookup>('lookups', key);
+    const now = Date.now();
+    const entry: CachedLookup = {
+      key,
+      word: word.trim(),
+      targetLanguage,
+      nativeLanguage,
+      images: [],
+      createdAt: now,
+      ...existing,
+      ...patch,
+      accessedAt: now,
+    };
+    await idbPut('lookups', entry);
+    if (!existing) {
+      await evictLookups();
+    }
+  } catch (error) {
+    console.warn("Failed to write lookup cache", error);
+  }
+};
+
+export const appendCachedImage = async (
+  word: string,
+  targetLanguage: SupportedLanguage,
+  nativeLanguage: SupportedLanguage,
+  image: string,
+  style?: ImageStyleId
+) => {
+  const existing = await getCachedLookup(word, targetLanguage, nativeLanguage);
+  await updateCachedLookup(word, targetLanguage, nativeLanguage, {
+    images: [...(existing?.images ?? []), image],
+    imageStyles: style ? { ...existing?.imageStyles, [imageIdFor(image)]: style } : existing?.imageStyles,
+  });
+};
+
+// Drop stale entries, then trim to MAX_ENTRIES by least recent access
+const evictLookups = async () => {
+  const now = Date.now();
+  const entries = await idbGetAll<CachedLookup>('lookups');
+  const fresh = entries.filter(entry => !isStale(entry, now));
+  const overflow = fresh
+    .sort((a, b) => b.accessedAt - a.accessedAt)
+    .slice(MAX_ENTRIES);
+  const expired = entries.filter(entry => isStale(entry, now));
+
+  await Promise.all([...expired, ...overflow].map(entry => idbDelete('lookups', entry.key)));
+};
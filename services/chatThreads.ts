@@ -0,0 +1,50 @@
+import { ChatMessage, SupportedLanguage } from "../types";
+import { idbDelete, idbGet, idbGetAll, idbPut } from "./db";
+import { lookupKey } from "./cache";
+
+export interface ChatThread {
+  key: string;
+  word: string;
+  targetLanguage: SupportedLanguage;
+  nativeLanguage: SupportedLanguage;
+  messages: ChatMessage[];
+  updatedAt: number;
+}
+
+// Threads share the lookup cache's key so a word + language pair maps to one conversation
+export const loadChatThread = async (
+  word: string,
+  targetLanguage: SupportedLanguage,
+  nativeLanguage: SupportedLanguage
+): Promise<ChatThread | null> => {
+  try {
+    return (await idbGet<ChatThread>('chats', lookupKey(word, targetLanguage, nativeLanguage))) ?? null;
+  } catch (error) {
+    console.warn("Chat history unavailable", error);
+    return null;
+  }
+};
+
+export const saveChatThread = async (
+  word: string,
+  targetLanguage: SupportedLanguage,
+  nativeLanguage: SupportedLanguage,
+  messages: ChatMessage[]
+) => {
+  await idbPut<ChatThread>('chats', {
+    key: lookupKey(word, targetLanguage, nativeLanguage),
+    word,
+    targetLanguage,
+    nativeLanguage,
+    messages,
+    updatedAt: Date.now(),
+  });
+};
+
+// Most recently active first
+export const listChatThreads = async (): Promise<ChatThread[]> => {
+  const threads = await idbGetAll<ChatThread>('chats');
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteChatThread = (key: string) => idbDelete('chats', key);
@@ -0,0 +1,66 @@
+// Thin promise wrapper around the browser's IndexedDB
+const DB_NAME = 'leximind';
+const DB_VERSION = 3; // Bump whenever a store is added to STORES
+
+// Every object store the app uses, keyed by its primary key path
+const STORES = {
+  lookups: 'key',
+  images: 'id',
+  chats: 'key',
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  withStore<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = <T>(store: StoreName, value: T) =>
+  withStore(store, 'readwrite', s => s.put(value));
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) =>
+  withStore(store, 'readwrite', s => s.delete(key));
+
+export const idbClear = (store: StoreName) =>
+  withStore(store, 'readwrite', s => s.clear());
@@ -0,0 +1,236 @@
+import { zipSync } from "fflate";
+import { SavedItem } from "../types";
+import { getImageBlob } from "./imageStore";
+import { formatGrammar } from "./wordbook";
+
+export type ExportField = 'word' | 'phonetic' | 'grammar' | 'definition' | 'examples' | 'image';
+
+export interface CardLayout {
+  front: ExportField[];
+  back: ExportField[];
+}
+
+export const EXPORT_FIELDS: { field: ExportField; label: string }[] = [
+  { field: 'word', label: 'Word' },
+  { field: 'phonetic', label: 'Phonetic' },
+  { field: 'grammar', label: 'Grammar' },
+  { field: 'definition', label: 'Definition' },
+  { field: 'examples', label: 'Examples' },
+  { field: 'image', label: 'Image' },
+];
+
+export const DEFAULT_CARD_LAYOUT: CardLayout = {
+  front: ['image', 'word'],
+  back: ['phonetic', 'grammar', 'definition', 'examples'],
+};
+
+// sql.js fetches its wasm binary at runtime, and the JS and wasm must be the same build: package.json and the
+// index.html import map pin sql.js to exactly this version
+const SQL_WASM_URL = (file: string) => `https://cdn.jsdelivr.net/npm/sql.js@1.14.2/dist/${file}`;
+
+const fieldLabel = (field: ExportField) => EXPORT_FIELDS.find(f => f.field === field)?.label ?? field;
+
+const plainValue = (item: SavedItem, field: ExportField) => {
+  switch (field) {
+    case 'word': return item.word;
+    case 'phonetic': return item.phonetic ?? '';
+    case 'grammar': return formatGrammar(item.grammar);
+    case 'definition': return item.definition;
+    case 'examples': return (item.examples ?? []).join('\n');
+    case 'image': return '';
+  }
+};
+
+// ---------- CSV / TSV ----------
+
+const escapeDelimited = (value: string, delimiter: string) => {
+  if (delimiter === '\t') {
+    // TSV has no quoting convention most flashcard tools agree on, so flatten instead
+    return value.replace(/[\t\r\n]+/g, ' ');
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// One column per chosen field, front fields first. Images are only exported in Anki packages.
+export const exportDelimited = (items: SavedItem[], layout: CardLayout, delimiter: ',' | '\t') => {
+  const columns = [...layout.front, ...layout.back].filter(field => field !== 'image');
+  const rows = [
+    columns.map(fieldLabel),
+    ...items.map(item => columns.map(field => plainValue(item, field))),
+  ];
+  const text = rows.map(row => row.map(value => escapeDelimited(value, delimiter)).join(delimiter)).join('\r\n');
+  return new Blob([text], { type: delimiter === ',' ? 'text/csv;charset=utf-8' : 'text/tab-separated-values;charset=utf-8' });
+};
+
+// ---------- Anki (.apkg) ----------
+
+const ANKI_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const ANKI_CSS = `.card { font-family: Inter, Arial, sans-serif; font-size: 20px; text-align: center; color: #1c1917; background: #f9f8f6; }
+.word { font-family: 'Playfair Display', serif; font-size: 40px; font-weight: bold; }
+.phonetic { color: #ea580c; font-family: monospace; }
+.grammar { color: #78716c; font-size: 16px; }
+.examples { text-align: left; color: #57534e; font-size: 16px; }
+img { max-width: 100%; border-radius: 12px; }`;
+
+// Anki tags are space-separated, so spaces inside a deck or tag name become underscores
+const ankiTags = (item: SavedItem) => {
+  const tags = ['leximind', item.deck, ...(item.tags ?? [])]
+    .filter((tag): tag is string => !!tag)
+    .map(tag => tag.trim().replace(/\s+/g, '_'));
+  return ` ${Array.from(new Set(tags)).join(' ')} `;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ankiTemplate = (fields: ExportField[]) =>
+  fields.map(field => `{{#${fieldLabel(field)}}}<div class="${field}">{{${fieldLabel(field)}}}</div>{{/${fieldLabel(field)}}}`).join('\n');
+
+// Read a stored image into bytes plus a file extension for the media folder
+const loadMedia = async (imageId: string): Promise<{ bytes: Uint8Array; ext: string } | null> => {
+  const blob = await getImageBlob(imageId);
+  if (!blob) return null;
+  const subtype = blob.type.split('/')[1] ?? 'jpeg';
+  const ext = subtype === 'jpeg' ? 'jpg' : subtype === 'svg+xml' ? 'svg' : subtype;
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), ext };
+};
+
+// Anki's duplicate-check checksum: first 8 hex digits of the sort field's SHA-1
+const fieldChecksum = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  return new DataView(digest).getUint32(0);
+};
+
+export const exportAnkiPackage = async (items: SavedItem[], layout: CardLayout, deckName = 'LexiMind'): Promise<Blob> => {
+  const { default: initSqlJs } = await import('sql.js');
+  const SQL = await initSqlJs({ locateFile: SQL_WASM_URL });
+  const db = new SQL.Database();
+
+  const now = Date.now();
+  const nowSec = Math.floor(now / 1000);
+  const modelId = now;
+  const deckId = now + 1;
+  const fieldNames = EXPORT_FIELDS.map(f => f.label);
+
+  const model = {
+    id: modelId,
+    name: 'LexiMind Word',
+    type: 0,
+    mod: nowSec,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: ankiTemplate(layout.front),
+      afmt: `{{FrontSide}}\n<hr id="answer">\n${ankiTemplate(layout.back)}`,
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    }],
+    flds: fieldNames.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: ANKI_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', layout.front.map(field => EXPORT_FIELDS.findIndex(f => f.field === field))]],
+  };
+
+  const deckDefaults = {
+    mod: nowSec, usn: -1, collapsed: false, browserCollapsed: false, desc: '', dyn: 0, conf: 1,
+    newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0], extendNew: 10, extendRev: 50,
+  };
+  const decks = {
+    1: { ...deckDefaults, id: 1, name: 'Default' },
+    [deckId]: { ...deckDefaults, id: deckId, name: deckName },
+  };
+  const dconf = {
+    1: {
+      id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+      rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, ivlFct: 1, bury: true, minSpace: 1 },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    },
+  };
+  const conf = {
+    nextPos: items.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0,
+    sortBackwards: false, addToCur: true, curDeck: 1, newBust: true, dueCounts: true, curModel: String(modelId), collapseTime: 1200,
+  };
+
+  db.exec(ANKI_SCHEMA);
+  db.run(
+    'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+    [nowSec, now, now, JSON.stringify(conf), JSON.stringify({ [modelId]: model }), JSON.stringify(decks), JSON.stringify(dconf), '{}']
+  );
+
+  const files: Record<string, Uint8Array> = {};
+  const mediaMap: Record<string, string> = {};
+
+  for (const [index, item] of items.entries()) {
+    let imageHtml = '';
+    const media = item.imageId ? await loadMedia(item.imageId) : null;
+    if (media) {
+      const name = `leximind-${item.id}.${media.ext}`;
+      const slot = String(Object.keys(mediaMap).length);
+      files[slot] = media.bytes;
+      mediaMap[slot] = name;
+      imageHtml = `<img src="${name}">`;
+    }
+
+    const values: Record<ExportField, string> = {
+      word: escapeHtml(item.word),
+      phonetic: escapeHtml(item.phonetic ?? ''),
+      grammar: escapeHtml(formatGrammar(item.grammar)),
+      definition: escapeHtml(item.definition),
+      examples: (item.examples ?? []).map(escapeHtml).join('<br>'),
+      image: imageHtml,
+    };
+
+    const noteId = now + 10 + index;
+    db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)', [
+      noteId,
+      `leximind-${item.id}`,
+      modelId,
+      nowSec,
+      ankiTags(item),
+      EXPORT_FIELDS.map(f => values[f.field]).join('\x1f'),
+      item.word,
+      await fieldChecksum(item.word),
+      '',
+    ]);
+    db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)', [
+      noteId, noteId, deckId, nowSec, index + 1, '',
+    ]);
+  }
+
+  files['collection.anki2'] = db.export();
+  files['media'] = new TextEncoder().encode(JSON.stringify(mediaMap));
+  db.close();
+
+  return new Blob([zipSync(files)], { type: 'application/octet-stream' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
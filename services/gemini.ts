@@ -1,267 +1,581 @@
-
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { WordDefinition, SupportedLanguage, AdditionalMeaning, StoryQuiz } from "../types";
-
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
-
-// Helper to decode base64 audio
-const decodeAudio = (base64: string) => {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
+import { WordDefinition, SupportedLanguage, AdditionalMeaning, StoryQuiz, SpellingCheck, SentenceAnalysis, WordGloss, PronunciationAssessment, Inflections, ImagePromptOptions, MnemonicScene } from "../types";
+import type { AIProvider, ChatHistoryEntry } from "./ai";
+import { DEFAULT_VOICE } from "./ai";
+import { buildImagePrompt } from "./imagePrompt";
+
+export const GEMINI_MODELS = {
+  text: "gemini-2.5-flash",
+  image: "imagen-4.0-generate-001",
+  tts: "gemini-2.5-flash-preview-tts",
 };
 
-// Retrieve word definition, translation, and details
-export const getWordDetails = async (
-  word: string, 
-  targetLanguage: SupportedLanguage,
-  nativeLanguage: SupportedLanguage
-): Promise<WordDefinition> => {
-  const prompt = `
-    You are a world-class linguist.
-    Analyze the word "${word}".
-    
-    User Context:
-    - Native Language: ${nativeLanguage} (The user speaks this).
-    - Explanation Language: ${targetLanguage} (The user wants definitions in this language).
-
-    Provide the following details in JSON format:
-    1. The word itself (corrected if misspelled).
-    2. Phonetic transcription (IPA).
-    3. Part of speech (translated into ${targetLanguage}).
-    4. A clear, concise definition explained in ${targetLanguage}.
-    5. A definition in the word's original language (e.g. if word is "Gato", this is Spanish).
-    6. Three distinct example sentences using the word. (Provide the sentence in the original language, followed by a translation in ${nativeLanguage} in parentheses).
-    7. Five synonyms.
-    8. A brief etymology (origin) of the word explained in ${targetLanguage}.
-    9. "Vibe check": 1 or 2 short sentences describing the typical usage context, tone, or social circumstances (e.g., "Formal business contexts", "Playful slang between friends"). Explain in ${targetLanguage}.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          word: { type: Type.STRING },
-          phonetic: { type: Type.STRING },
-          partOfSpeech: { type: Type.STRING },
-          definition: { type: Type.STRING, description: `Definition in ${targetLanguage}` },
-          originalDefinition: { type: Type.STRING, description: "Definition in original language" },
-          examples: { type: Type.ARRAY, items: { type: Type.STRING } },
-          synonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
-          etymology: { type: Type.STRING, description: `Etymology in ${targetLanguage}` },
-          vibes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Usage context/tone" },
+export const createGeminiProvider = (apiKey: string, models = GEMINI_MODELS): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Quick spelling check so a typo doesn't cost a full definition + image
+  const checkSpelling = async (word: string, nativeLanguage: SupportedLanguage): Promise<SpellingCheck> => {
+    const prompt = `
+      The user typed "${word}" into a dictionary. It may be in any language; the user's native language is ${nativeLanguage}.
+      Decide whether it is a correctly spelled word or phrase in some language.
+      If it is not, suggest up to 4 words they most likely meant, best match first.
+      If it is valid, return an empty suggestions list.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            isValid: { type: Type.BOOLEAN },
+            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ["isValid", "suggestions"],
         },
-        required: ["word", "phonetic", "partOfSpeech", "definition", "originalDefinition", "examples", "synonyms", "etymology", "vibes"],
       },
-    },
-  });
+    });
+
+    if (!response.text) {
+      return { isValid: true, suggestions: [] };
+    }
 
-  if (!response.text) {
-    throw new Error("Failed to generate definition.");
-  }
+    return JSON.parse(response.text) as SpellingCheck;
+  };
 
-  return JSON.parse(response.text) as WordDefinition;
-};
+  // Retrieve word definition, translation, and details
+  const getWordDetails = async (
+    word: string,
+    targetLanguage: SupportedLanguage,
+    nativeLanguage: SupportedLanguage
+  ): Promise<WordDefinition> => {
+    const prompt = `
+      You are a world-class linguist.
+      Analyze the word "${word}".
 
-// Fetch additional nuances or specialized meanings
-export const getAdditionalMeanings = async (word: string, targetLanguage: SupportedLanguage): Promise<AdditionalMeaning[]> => {
-  const prompt = `
-    Analyze the word "${word}".
-    The user wants to know 3 "hidden gems" or interesting facts about this word.
-    Do NOT provide standard definitions.
-    Provide 3 distinct items, such as:
-    1. A common idiom or slang usage.
-    2. A surprising origin or etymology fact.
-    3. A specific cultural reference or "street" nuance.
-    
-    Explain in ${targetLanguage}.
-    Return JSON format with:
-    - 'context' (Short label like "Idiom", "History", "Slang" - translated to ${targetLanguage})
-    - 'definition' (The interesting fact or explanation in ${targetLanguage}).
-  `;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
+      User Context:
+      - Native Language: ${nativeLanguage} (The user speaks this).
+      - Explanation Language: ${targetLanguage} (The user wants definitions in this language).
+
+      Provide the following details in JSON format:
+      1. The word itself (corrected if misspelled).
+      2. Phonetic transcription (IPA).
+      3. Part of speech (translated into ${targetLanguage}).
+      4. A clear, concise definition explained in ${targetLanguage}.
+      5. A definition in the word's original language (e.g. if word is "Gato", this is Spanish).
+      6. Three distinct example sentences using the word. (Provide the sentence in the original language, followed by a translation in ${nativeLanguage} in parentheses).
+      7. Five synonyms.
+      8. A brief etymology (origin) of the word explained in ${targetLanguage}.
+      9. "Vibe check": 1 or 2 short sentences describing the typical usage context, tone, or social circumstances (e.g., "Formal business contexts", "Playful slang between friends"). Explain in ${targetLanguage}.
+      10. Senses: every distinct meaning of the word (1 to 5, most common first). For each: part of speech and definition (in ${targetLanguage}), two example sentences in the same format as above, and the register (e.g. "neutral", "formal", "informal", "slang", "technical") in ${targetLanguage}.
+      11. Grammar: only the fields that apply to the word's original language, omitting the rest:
+          'gender' (grammatical gender of nouns, in ${targetLanguage}), 'article' (the definite article used with it, e.g. "der", "la"),
+          'measureWord' (Chinese classifier with its pinyin, e.g. "只 (zhī)"), 'reading' (pinyin with tone marks for Chinese, hiragana for Japanese),
+          'romanization' (standard Latin transliteration for non-Latin scripts such as Arabic, Hindi, Russian or Korean).
+      Items 3 and 4 describe the first sense.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
           type: Type.OBJECT,
           properties: {
-            context: { type: Type.STRING, description: "Label for this fact (e.g. 'Idiom')" },
-            definition: { type: Type.STRING, description: "The explanation" },
+            word: { type: Type.STRING },
+            phonetic: { type: Type.STRING },
+            partOfSpeech: { type: Type.STRING },
+            definition: { type: Type.STRING, description: `Definition in ${targetLanguage}` },
+            originalDefinition: { type: Type.STRING, description: "Definition in original language" },
+            examples: { type: Type.ARRAY, items: { type: Type.STRING } },
+            synonyms: { type: Type.ARRAY, items: { type: Type.STRING } },
+            etymology: { type: Type.STRING, description: `Etymology in ${targetLanguage}` },
+            vibes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Usage context/tone" },
+            senses: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  partOfSpeech: { type: Type.STRING },
+                  definition: { type: Type.STRING, description: `Definition in ${targetLanguage}` },
+                  examples: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  register: { type: Type.STRING },
+                },
+                required: ["partOfSpeech", "definition", "examples", "register"],
+              },
+            },
+            grammar: {
+              type: Type.OBJECT,
+              properties: {
+                gender: { type: Type.STRING },
+                article: { type: Type.STRING },
+                measureWord: { type: Type.STRING },
+                reading: { type: Type.STRING },
+                romanization: { type: Type.STRING },
+              },
+            },
           },
-          required: ["context", "definition"],
+          required: ["word", "phonetic", "partOfSpeech", "definition", "originalDefinition", "examples", "synonyms", "etymology", "vibes", "senses"],
         },
       },
-    },
-  });
+    });
 
-  if (!response.text) {
-    return [];
-  }
+    if (!response.text) {
+      throw new Error("Failed to generate definition.");
+    }
 
-  return JSON.parse(response.text) as AdditionalMeaning[];
-};
+    return JSON.parse(response.text) as WordDefinition;
+  };
+
+  // Fetch additional nuances or specialized meanings
+  const getAdditionalMeanings = async (word: string, targetLanguage: SupportedLanguage): Promise<AdditionalMeaning[]> => {
+    const prompt = `
+      Analyze the word "${word}".
+      The user wants to know 3 "hidden gems" or interesting facts about this word.
+      Do NOT provide standard definitions.
+      Provide 3 distinct items, such as:
+      1. A common idiom or slang usage.
+      2. A surprising origin or etymology fact.
+      3. A specific cultural reference or "street" nuance.
+
+      Explain in ${targetLanguage}.
+      Return JSON format with:
+      - 'context' (Short label like "Idiom", "History", "Slang" - translated to ${targetLanguage})
+      - 'definition' (The interesting fact or explanation in ${targetLanguage}).
+    `;
 
-// Generate an image representing the word
-export const generateWordImage = async (word: string, promptContext?: string): Promise<string> => {
-  try {
-    // Strict instruction to remove text
-    const basePrompt = `A high-quality artistic illustration of the concept "${word}". IMPORTANT: Do NOT include any text, letters, labels, or words in the image. Pure visual representation only.`;
-    const fullPrompt = promptContext 
-      ? `${basePrompt} Context: ${promptContext}. Vivid, distinct visual style.`
-      : `${basePrompt} Minimalist, solid, clean composition.`;
-
-    // Using Imagen for high quality visualization
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
-      prompt: fullPrompt,
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
       config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
-        aspectRatio: '4:3',
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              context: { type: Type.STRING, description: "Label for this fact (e.g. 'Idiom')" },
+              definition: { type: Type.STRING, description: "The explanation" },
+            },
+            required: ["context", "definition"],
+          },
+        },
       },
     });
 
-    const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
-    if (!base64ImageBytes) throw new Error("No image generated");
-    
-    return `data:image/jpeg;base64,${base64ImageBytes}`;
-  } catch (error) {
-    console.error("Imagen failed", error);
-    return ""; 
-  }
-};
+    if (!response.text) {
+      return [];
+    }
 
-// Generate a practice story using saved words
-export const generateStoryFromWords = async (words: string[], targetLanguage: SupportedLanguage): Promise<StoryQuiz> => {
-  // Select random subset if too many words (max 8)
-  const subset = words.length > 8 ? words.sort(() => 0.5 - Math.random()).slice(0, 8) : words;
-  
-  const prompt = `
-    Create a creative, coherent, and short story (approx 150 words) that includes the following words exactly: ${subset.join(', ')}.
-    
-    IMPORTANT FORMATTING INSTRUCTION:
-    Whenever one of the requested words (or a grammatical variation of it) appears in the story, wrap it in double curly braces. 
-    Example: "The {{cat}} sat on the {{mat}}."
-    
-    The story should be written in the words' original language (usually English), but make it simple enough for learners.
-    
-    Return JSON with:
-    1. 'title': A creative title for the story.
-    2. 'content': The story text with the {{word}} formatting.
-    3. 'wordsUsed': The list of words from the input that were successfully included.
-  `;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          content: { type: Type.STRING, description: "Story text with {{word}} placeholders" },
-          wordsUsed: { type: Type.ARRAY, items: { type: Type.STRING } },
+    return JSON.parse(response.text) as AdditionalMeaning[];
+  };
+
+  // Conjugation, declension or comparison tables, depending on the word's part of speech and language
+  const getInflections = async (
+    word: string,
+    partOfSpeech: string,
+    targetLanguage: SupportedLanguage
+  ): Promise<Inflections> => {
+    const prompt = `
+      You are a grammar reference. Give the inflected forms of the word "${word}" (part of speech: ${partOfSpeech}),
+      in its original language.
+
+      Choose 'kind':
+      - 'conjugation' for verbs: one table per common tense/mood (up to 6, most useful first), rows are grammatical persons,
+        a single column with the conjugated form (include the pronoun only in the row label).
+      - 'declension' for nouns (and pronouns/articles): tables by case where the language has cases, otherwise one table
+        with the singular and plural forms (include the article where the language uses gendered articles).
+      - 'comparison' for adjectives/adverbs: positive, comparative and superlative, plus gender/number agreement forms
+        where the language has them.
+      - 'none' if the word does not inflect (return no tables).
+
+      Table titles, column headers and row labels are in ${targetLanguage}; the forms stay in the original language.
+      Every row must have exactly one cell per column. Add a short 'note' in ${targetLanguage} about irregularities, if any.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: ["conjugation", "declension", "comparison", "none"] },
+            tables: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  title: { type: Type.STRING },
+                  columns: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  rows: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        label: { type: Type.STRING },
+                        cells: { type: Type.ARRAY, items: { type: Type.STRING } },
+                      },
+                      required: ["label", "cells"],
+                    },
+                  },
+                },
+                required: ["title", "columns", "rows"],
+              },
+            },
+            note: { type: Type.STRING },
+          },
+          required: ["kind", "tables"],
         },
-        required: ["title", "content", "wordsUsed"],
       },
-    },
-  });
+    });
 
-  if (!response.text) {
-    throw new Error("Failed to generate story");
-  }
+    if (!response.text) {
+      throw new Error("Failed to generate inflections.");
+    }
 
-  return JSON.parse(response.text) as StoryQuiz;
-};
+    return JSON.parse(response.text) as Inflections;
+  };
 
-// Chat with the AI about the word
-export const chatAboutWord = async (
-  history: { role: 'user' | 'model'; text: string }[],
-  message: string,
-  currentWord: string,
-  targetLanguage: string,
-  nativeLanguage: string
-) => {
-  const chat = ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      systemInstruction: `You are a helpful dictionary assistant. The user is currently looking at the word "${currentWord}". 
-      User Profile:
-      - Native Language: ${nativeLanguage}
-      - Learning/Explanation Language: ${targetLanguage}
-
-      Answer their questions about grammar, usage, nuance, or culture related to this word. 
-      Keep answers concise and helpful.
-      Ensure all explanations are in ${targetLanguage}, unless the user asks for a translation to their native language.`,
-    },
-    history: history.map(h => ({
-      role: h.role,
-      parts: [{ text: h.text }],
-    })),
-  });
-
-  const response = await chat.sendMessage({ message });
-  return response.text;
-};
+  // Break a sentence or idiom down into translations and a word-by-word gloss
+  const analyzeSentence = async (
+    sentence: string,
+    targetLanguage: SupportedLanguage,
+    nativeLanguage: SupportedLanguage
+  ): Promise<SentenceAnalysis> => {
+    const prompt = `
+      You are a world-class linguist. Analyze this sentence or phrase: "${sentence}"
+
+      User Context:
+      - Native Language: ${nativeLanguage} (translations go into this language).
+      - Explanation Language: ${targetLanguage} (grammatical roles and notes are written in this language).
 
-// Text-to-Speech
-export const playPronunciation = async (text: string) => {
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' }, // Kore is usually good for clarity
+      Return JSON with:
+      1. 'sentence': The sentence as given (fix obvious typos only).
+      2. 'literalTranslation': A word-for-word translation into ${nativeLanguage}, keeping the original structure.
+      3. 'naturalTranslation': How a native ${nativeLanguage} speaker would say it.
+      4. 'tokens': Every word of the sentence in order (skip punctuation). Keep fixed multi-word expressions together as one token. For each:
+         'text' (as written), 'lemma' (dictionary form in the original language), 'gloss' (short ${nativeLanguage} meaning in this context),
+         'role' (grammatical role, e.g. subject, verb in past tense, preposition).
+      5. 'notes': One or two sentences on any idiom, figurative meaning or notable grammar, or an empty string.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            sentence: { type: Type.STRING },
+            literalTranslation: { type: Type.STRING },
+            naturalTranslation: { type: Type.STRING },
+            tokens: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING },
+                  lemma: { type: Type.STRING },
+                  gloss: { type: Type.STRING },
+                  role: { type: Type.STRING },
+                },
+                required: ["text", "lemma", "gloss", "role"],
+              },
+            },
+            notes: { type: Type.STRING },
+          },
+          required: ["sentence", "literalTranslation", "naturalTranslation", "tokens"],
         },
       },
-    },
-  });
-
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) return;
-
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-  const audioBuffer = await decodeAudioData(decodeAudio(base64Audio), audioContext);
-  
-  const source = audioContext.createBufferSource();
-  source.buffer = audioBuffer;
-  source.connect(audioContext.destination);
-  source.start();
-};
+    });
+
+    if (!response.text) {
+      throw new Error("Failed to analyze sentence.");
+    }
 
-async function decodeAudioData(
-  bytes: Uint8Array,
-  ctx: AudioContext
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(bytes.buffer);
-  const numChannels = 1;
-  const sampleRate = 24000;
-  const frameCount = dataInt16.length / numChannels;
-  
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    return JSON.parse(response.text) as SentenceAnalysis;
+  };
+
+  // Short glosses for many words at once, read in the context of the passage they came from
+  const glossWords = async (words: string[], passage: string, targetLanguage: SupportedLanguage): Promise<WordGloss[]> => {
+    const prompt = `
+      A language learner is reading this passage:
+      ---
+      ${passage.slice(0, 4000)}
+      ---
+
+      For each of these words from the passage, give its dictionary form and a very short gloss (2-6 words) in ${targetLanguage}
+      describing what it means in this passage: ${words.join(', ')}
+
+      Return a JSON array with one entry per word: 'word' (exactly as listed), 'lemma', 'gloss'.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              word: { type: Type.STRING },
+              lemma: { type: Type.STRING },
+              gloss: { type: Type.STRING },
+            },
+            required: ["word", "lemma", "gloss"],
+          },
+        },
+      },
+    });
+
+    if (!response.text) {
+      return [];
     }
-  }
-  return buffer;
-}
+
+    return JSON.parse(response.text) as WordGloss[];
+  };
+
+  // Imagen can't hear, so the sound-alike is found here and handed over as a plain scene
+  const getMnemonicScene = async (word: string, nativeLanguage: SupportedLanguage, meaning?: string): Promise<MnemonicScene> => {
+    const prompt = `
+      Build a keyword-method memory aid for a learner whose native language is ${nativeLanguage}.
+      Word to remember: "${word}"${meaning ? `, meaning: ${meaning}` : ''}.
+
+      1. 'keyword': a common, easy-to-picture word in ${nativeLanguage} that sounds like "${word}" when said aloud.
+      2. 'scene': one or two sentences in English describing a vivid, slightly absurd picture in which the keyword
+         acts out the meaning of "${word}". Describe only what is visible; no text, letters or speech bubbles.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            keyword: { type: Type.STRING },
+            scene: { type: Type.STRING },
+          },
+          required: ["keyword", "scene"],
+        },
+      },
+    });
+
+    if (!response.text) {
+      throw new Error("Failed to build mnemonic scene.");
+    }
+
+    return JSON.parse(response.text) as MnemonicScene;
+  };
+
+  // Generate an image representing the word
+  const generateWordImage = async (word: string, promptContext?: string, options: ImagePromptOptions = {}): Promise<string> => {
+    try {
+      const fullPrompt = options.prompt?.trim() || buildImagePrompt(word, promptContext, options);
+
+      // Using Imagen for high quality visualization
+      const response = await ai.models.generateImages({
+        model: models.image,
+        prompt: fullPrompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/jpeg',
+          aspectRatio: '4:3',
+        },
+      });
+
+      const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+      if (!base64ImageBytes) throw new Error("No image generated");
+
+      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    } catch (error) {
+      console.error("Imagen failed", error);
+      return "";
+    }
+  };
+
+  // Generate a practice story using saved words
+  const generateStoryFromWords = async (words: string[], targetLanguage: SupportedLanguage): Promise<StoryQuiz> => {
+    // Select random subset if too many words (max 8)
+    const subset = words.length > 8 ? words.sort(() => 0.5 - Math.random()).slice(0, 8) : words;
+
+    const prompt = `
+      Create a creative, coherent, and short story (approx 150 words) that includes the following words exactly: ${subset.join(', ')}.
+
+      IMPORTANT FORMATTING INSTRUCTION:
+      Whenever one of the requested words (or a grammatical variation of it) appears in the story, wrap it in double curly braces.
+      Example: "The {{cat}} sat on the {{mat}}."
+
+      The story should be written in the words' original language (usually English), but make it simple enough for learners.
+
+      Return JSON with:
+      1. 'title': A creative title for the story.
+      2. 'content': The story text with the {{word}} formatting.
+      3. 'wordsUsed': The list of words from the input that were successfully included.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            content: { type: Type.STRING, description: "Story text with {{word}} placeholders" },
+            wordsUsed: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ["title", "content", "wordsUsed"],
+        },
+      },
+    });
+
+    if (!response.text) {
+      throw new Error("Failed to generate story");
+    }
+
+    return JSON.parse(response.text) as StoryQuiz;
+  };
+
+  // Chat with the AI about the word, yielding the reply as it streams in
+  const streamChatAboutWord = async function* (
+    history: ChatHistoryEntry[],
+    message: string,
+    currentWord: string,
+    targetLanguage: string,
+    nativeLanguage: string,
+    signal?: AbortSignal
+  ) {
+    const stream = await ai.models.generateContentStream({
+      model: models.text,
+      contents: [
+        ...history.map(h => ({
+          role: h.role,
+          parts: [{ text: h.text }],
+        })),
+        { role: 'user', parts: [{ text: message }] },
+      ],
+      config: {
+        systemInstruction: `You are a helpful dictionary assistant. The user is currently looking at the word "${currentWord}".
+        User Profile:
+        - Native Language: ${nativeLanguage}
+        - Learning/Explanation Language: ${targetLanguage}
+
+        Answer their questions about grammar, usage, nuance, or culture related to this word.
+        Keep answers concise and helpful. Use Markdown where it helps: **bold** for key forms, lists, and tables for conjugations.
+        Ensure all explanations are in ${targetLanguage}, unless the user asks for a translation to their native language.`,
+        abortSignal: signal,
+      },
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  };
+
+  // Text-to-Speech, returns base64 16-bit PCM at 24kHz
+  const synthesizeSpeech = async (text: string, voice = DEFAULT_VOICE) => {
+    const response = await ai.models.generateContent({
+      model: models.tts,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice },
+          },
+        },
+      },
+    });
+
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? null;
+  };
+
+  // Score a recording of the user saying `expectedText`, with sound-level feedback
+  const assessPronunciation = async (
+    audioBase64: string,
+    mimeType: string,
+    expectedText: string,
+    targetLanguage: SupportedLanguage,
+    nativeLanguage: SupportedLanguage
+  ): Promise<PronunciationAssessment> => {
+    const prompt = `
+      You are a pronunciation coach. The attached recording is a learner (native language: ${nativeLanguage}) trying to say this (in its original language):
+      "${expectedText}"
+
+      Listen carefully and return JSON with:
+      1. 'score': 0-100, how close the pronunciation is to a native speaker (intelligibility, sounds, stress, rhythm).
+      2. 'transcript': What you actually heard.
+      3. 'summary': One or two encouraging sentences in ${targetLanguage}.
+      4. 'issues': Up to 4 specific problems, each with 'sound' (the phoneme or syllable, IPA where helpful)
+         and 'feedback' (what was off and how to place the mouth/tongue to fix it, in ${targetLanguage}). Empty if none.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: models.text,
+      contents: [{
+        parts: [
+          { inlineData: { mimeType, data: audioBase64 } },
+          { text: prompt },
+        ],
+      }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            score: { type: Type.NUMBER },
+            transcript: { type: Type.STRING },
+            summary: { type: Type.STRING },
+            issues: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  sound: { type: Type.STRING },
+                  feedback: { type: Type.STRING },
+                },
+                required: ["sound", "feedback"],
+              },
+            },
+          },
+          required: ["score", "transcript", "summary", "issues"],
+        },
+      },
+    });
+
+    if (!response.text) {
+      throw new Error("Failed to assess pronunciation.");
+    }
+
+    return JSON.parse(response.text) as PronunciationAssessment;
+  };
+
+  return {
+    name: 'gemini',
+    checkSpelling,
+    getWordDetails,
+    getAdditionalMeanings,
+    getInflections,
+    analyzeSentence,
+    glossWords,
+    getMnemonicScene,
+    generateWordImage,
+    generateStoryFromWords,
+    streamChatAboutWord,
+    synthesizeSpeech,
+    assessPronunciation,
+  };
+};
@@ -0,0 +1,9 @@
+// Stable 32-bit FNV-1a hash so the same input always yields the same output
+export const stableHash = (input: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
@@ -0,0 +1,64 @@
+import { createContext, useContext } from "react";
+import { SupportedLanguage } from "../types";
+import { en, MessageKey, Messages } from "./locales/en";
+import { es } from "./locales/es";
+import { fr } from "./locales/fr";
+import { de } from "./locales/de";
+import { zh } from "./locales/zh";
+import { ja } from "./locales/ja";
+import { ko } from "./locales/ko";
+import { hi } from "./locales/hi";
+import { ar } from "./locales/ar";
+import { pt } from "./locales/pt";
+import { ru } from "./locales/ru";
+import { it } from "./locales/it";
+
+export type { MessageKey };
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+// The interface follows the "I speak" language
+const CATALOGS: Record<SupportedLanguage, Messages> = {
+  [SupportedLanguage.ENGLISH]: en,
+  [SupportedLanguage.SPANISH]: es,
+  [SupportedLanguage.FRENCH]: fr,
+  [SupportedLanguage.GERMAN]: de,
+  [SupportedLanguage.CHINESE]: zh,
+  [SupportedLanguage.JAPANESE]: ja,
+  [SupportedLanguage.KOREAN]: ko,
+  [SupportedLanguage.HINDI]: hi,
+  [SupportedLanguage.ARABIC]: ar,
+  [SupportedLanguage.PORTUGUESE]: pt,
+  [SupportedLanguage.RUSSIAN]: ru,
+  [SupportedLanguage.ITALIAN]: it,
+};
+
+// Each language under its own name, so the selectors read the same whatever the UI language
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+  [SupportedLanguage.ENGLISH]: 'English',
+  [SupportedLanguage.SPANISH]: 'Español',
+  [SupportedLanguage.FRENCH]: 'Français',
+  [SupportedLanguage.GERMAN]: 'Deutsch',
+  [SupportedLanguage.CHINESE]: '简体中文',
+  [SupportedLanguage.JAPANESE]: '日本語',
+  [SupportedLanguage.KOREAN]: '한국어',
+  [SupportedLanguage.HINDI]: 'हिन्दी',
+  [SupportedLanguage.ARABIC]: 'العربية',
+  [SupportedLanguage.PORTUGUESE]: 'Português',
+  [SupportedLanguage.RUSSIAN]: 'Русский',
+  [SupportedLanguage.ITALIAN]: 'Italiano',
+};
+
+export const isRtlLanguage = (language: SupportedLanguage) => language === SupportedLanguage.ARABIC;
+
+// Missing keys fall back to English; {name} placeholders are filled from vars
+export const createTranslator = (language: SupportedLanguage): Translate => {
+  const catalog = CATALOGS[language] ?? en;
+  return (key, vars) => {
+    const template = catalog[key] ?? en[key] ?? key;
+    return vars ? template.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match)) : template;
+  };
+};
+
+export const TranslationContext = createContext<Translate>(createTranslator(SupportedLanguage.ENGLISH));
+
+export const useTranslation = () => useContext(TranslationContext);
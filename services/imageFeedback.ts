@@ -0,0 +1,111 @@
+import { ImagePromptOptions } from "../types";
+
+const STORAGE_KEY = 'leximind_image_feedback';
+const MAX_ENTRIES = 500;
+
+export type ImageRating = 'like' | 'dislike';
+
+export type ImageStyleId = 'minimal' | 'abstract' | 'scenario' | 'photo' | 'watercolor' | 'comic' | 'mnemonic';
+
+export interface ImageStyle {
+  id: ImageStyleId;
+  prompt: string;
+}
+
+// Presets for the prompt editor; "Generate variation" also rotates through them, in this order.
+// The mnemonic preset needs a scene from getMnemonicScene as its prompt context.
+export const IMAGE_STYLES: ImageStyle[] = [
+  { id: 'minimal', prompt: 'Minimalist, solid, clean composition' },
+  { id: 'abstract', prompt: 'Abstract and colorful interpretation' },
+  { id: 'scenario', prompt: 'Real world scenario usage' },
+  { id: 'photo', prompt: 'Photorealistic photograph, natural light, shallow depth of field' },
+  { id: 'watercolor', prompt: 'Soft watercolor painting with loose brushwork and paper texture' },
+  { id: 'comic', prompt: 'Bold comic book panel with clean ink lines and flat colors' },
+  {
+    id: 'mnemonic',
+    prompt: 'Mnemonic picture: the memory-aid scene drawn literally, vivid and slightly absurd so it sticks',
+  },
+];
+
+export interface ImageFeedback {
+  imageId: string;       // From imageIdFor, so a rating follows the picture across lookups
+  word: string;
+  style?: ImageStyleId;  // Unknown for images cached before their style was recorded
+  rating: ImageRating;
+  ratedAt: number;
+}
+
+export interface StyleScore {
+  style: ImageStyleId;
+  likes: number;
+  dislikes: number;
+}
+
+export const loadImageFeedback = (): ImageFeedback[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ImageFeedback[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistImageFeedback = (feedback: ImageFeedback[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(feedback));
+  } catch (error) {
+    console.warn("Failed to persist image feedback", error);
+  }
+};
+
+export const getImageRating = (feedback: ImageFeedback[], imageId: string) =>
+  feedback.find(f => f.imageId === imageId)?.rating;
+
+// Newest first; rating an image again replaces its entry, and a null rating clears it
+export const rateImage = (
+  feedback: ImageFeedback[],
+  entry: Omit<ImageFeedback, 'rating'> & { rating: ImageRating | null }
+): ImageFeedback[] => {
+  const rest = feedback.filter(f => f.imageId !== entry.imageId);
+  if (!entry.rating) return rest;
+  return [{ ...entry, rating: entry.rating }, ...rest].slice(0, MAX_ENTRIES);
+};
+
+// Best net score first; styles that were never rated are left out
+export const getStyleScores = (feedback: ImageFeedback[]): StyleScore[] =>
+  IMAGE_STYLES
+    .map(({ id }) => {
+      const rated = feedback.filter(f => f.style === id);
+      return {
+        style: id,
+        likes: rated.filter(f => f.rating === 'like').length,
+        dislikes: rated.filter(f => f.rating === 'dislike').length,
+      };
+    })
+    .filter(score => score.likes + score.dislikes > 0)
+    .sort((a, b) => (b.likes - b.dislikes) - (a.likes - a.dislikes));
+
+const netScore = (scores: StyleScore[], id: ImageStyleId) => {
+  const score = scores.find(s => s.style === id);
+  return score ? score.likes - score.dislikes : 0;
+};
+
+// The best-rated style not yet in the gallery; once all have been tried, the best-rated overall.
+// Unrated styles score zero, so they still get tried before a disliked one.
+export const pickImageStyle = (feedback: ImageFeedback[], used: ImageStyleId[] = []): ImageStyle => {
+  const scores = getStyleScores(feedback);
+  const unused = IMAGE_STYLES.filter(style => !used.includes(style.id));
+  const candidates = unused.length > 0 ? unused : IMAGE_STYLES;
+  return candidates.reduce((best, style) => (netScore(scores, style.id) > netScore(scores, best.id) ? style : best));
+};
+
+// Prompt steering for generateWordImage from the learner's rating history
+export const imagePromptOptions = (feedback: ImageFeedback[], style: ImageStyle): ImagePromptOptions => {
+  const scores = getStyleScores(feedback);
+  const promptOf = (id: ImageStyleId) => IMAGE_STYLES.find(s => s.id === id)!.prompt;
+  return {
+    style: style.prompt,
+    liked: scores.filter(s => s.likes > s.dislikes).map(s => promptOf(s.style)),
+    disliked: scores.filter(s => s.dislikes > s.likes).map(s => promptOf(s.style)),
+  };
+};
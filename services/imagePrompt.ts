@@ -0,0 +1,22 @@
+import { ImagePromptOptions, MnemonicScene } from "../types";
+
+const DEFAULT_STYLE = 'Minimalist, solid, clean composition';
+
+// The full Imagen prompt. Shared by the provider and the prompt editor, so what the learner edits is what gets sent.
+// Style descriptions may refer to the word as {word}.
+export const buildImagePrompt = (word: string, promptContext?: string, options: ImagePromptOptions = {}) =>
+  [
+    // Strict instruction to remove text
+    `A high-quality artistic illustration of the concept "${word}". IMPORTANT: Do NOT include any text, letters, labels, or words in the image. Pure visual representation only.`,
+    promptContext && `Context: ${promptContext}.`,
+    `Style: ${options.style ?? DEFAULT_STYLE}.`,
+    options.liked?.length && `The learner has liked images in these styles: ${options.liked.join('; ')}.`,
+    options.disliked?.length && `Steer clear of styles the learner disliked: ${options.disliked.join('; ')}.`,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\{word\}/g, word);
+
+export const exampleContext = (example: string) => `The scene described by the sentence "${example}"`;
+
+export const mnemonicContext = ({ scene }: MnemonicScene) => `Memory aid: ${scene.replace(/\.\s*$/, '')}`;
@@ -0,0 +1,123 @@
+import { SavedItem } from "../types";
+import { idbDelete, idbGet, idbPut } from "./db";
+import { stableHash } from "./hash";
+
+const THUMBNAIL_SIZE = 320; // Longest edge in px for Wordbook grid thumbnails
+
+export type ImageVariant = 'full' | 'thumb';
+
+interface StoredImageRecord {
+  id: string;
+  blob: Blob;
+  thumbnail: Blob;
+  createdAt: number;
+}
+
+// Object URLs handed out so far, so each blob is only materialised once per session
+const objectUrls = new Map<string, string>();
+
+// Content-derived id: saving the same picture twice reuses one record
+export const imageIdFor = (dataUrl: string) =>
+  `img-${stableHash(dataUrl).toString(36)}-${dataUrl.length.toString(36)}`;
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image"));
+    img.src = src;
+  });
+
+// Downscale to a JPEG thumbnail; falls back to the original if the canvas can't encode it
+const createThumbnail = async (dataUrl: string, original: Blob): Promise<Blob> => {
+  try {
+    const img = await loadImage(dataUrl);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth || THUMBNAIL_SIZE, img.naturalHeight || THUMBNAIL_SIZE));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round((img.naturalWidth || THUMBNAIL_SIZE) * scale));
+    canvas.height = Math.max(1, Math.round((img.naturalHeight || THUMBNAIL_SIZE) * scale));
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    return thumbnail ?? original;
+  } catch (error) {
+    console.warn("Thumbnail generation failed", error);
+    return original;
+  }
+};
+
+// Persist a generated image (data URL) and return its id
+export const saveImage = async (dataUrl: string): Promise<string> => {
+  const id = imageIdFor(dataUrl);
+  if (await idbGet<StoredImageRecord>('images', id)) {
+    return id;
+  }
+  const blob = await dataUrlToBlob(dataUrl);
+  const thumbnail = await createThumbnail(dataUrl, blob);
+  await idbPut<StoredImageRecord>('images', { id, blob, thumbnail, createdAt: Date.now() });
+  return id;
+};
+
+export const getImageBlob = async (id: string, variant: ImageVariant = 'full'): Promise<Blob | null> => {
+  const record = await idbGet<StoredImageRecord>('images', id);
+  if (!record) return null;
+  return variant === 'thumb' ? record.thumbnail : record.blob;
+};
+
+export const getImageUrl = async (id: string, variant: ImageVariant = 'full'): Promise<string | null> => {
+  const key = `${id}:${variant}`;
+  const cached = objectUrls.get(key);
+  if (cached) return cached;
+
+  const blob = await getImageBlob(id, variant);
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(key, url);
+  return url;
+};
+
+export const deleteImage = async (id: string) => {
+  (['full', 'thumb'] as ImageVariant[]).forEach(variant => {
+    const key = `${id}:${variant}`;
+    const url = objectUrls.get(key);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(key);
+    }
+  });
+  await idbDelete('images', id);
+};
+
+// Move base64 images embedded by older versions out of localStorage and into the blob store
+export const migrateLegacyImages = async (items: SavedItem[]): Promise<SavedItem[] | null> => {
+  if (!items.some(item => item.imageUrl)) return null;
+
+  return Promise.all(items.map(async item => {
+    if (!item.imageUrl) return item;
+    const { imageUrl, ...rest } = item;
+    try {
+      return { ...rest, imageId: imageUrl.startsWith('data:') ? await saveImage(imageUrl) : '' };
+    } catch (error) {
+      console.error(`Failed to migrate image for "${item.word}"`, error);
+      return item;
+    }
+  }));
+};
+
+export interface StorageUsage {
+  used: number;           // Bytes used by this origin (IndexedDB, caches, ...)
+  quota: number;          // Bytes the browser will let this origin use
+  localStorageBytes: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  let localStorageBytes = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i) ?? '';
+    // localStorage keeps strings as UTF-16
+    localStorageBytes += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+  }
+  return { used: estimate.usage ?? 0, quota: estimate.quota ?? 0, localStorageBytes };
+};
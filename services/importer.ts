@@ -0,0 +1,192 @@
+import { SavedItem, SupportedLanguage } from "../types";
+import { isInLanguagePair, LanguagePairOf } from "./wordbook";
+
+export type ImportStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ImportJob {
+  id: string;
+  word: string;
+  targetLanguage: SupportedLanguage;
+  nativeLanguage: SupportedLanguage;
+  withImage: boolean;
+  status: ImportStatus;
+  attempts: number;
+  error?: string;
+  example?: string; // Sentence the word was found in, kept as its first example
+}
+
+const MAX_AUTO_ATTEMPTS = 2;   // One automatic retry before a job is marked failed
+const MIN_INTERVAL_MS = 1500;  // Spacing between job starts to stay under API rate limits
+
+// ---------- Parsing ----------
+
+// Split one CSV line, honouring double-quoted fields with "" escapes
+const parseCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',' || ch === '\t' || ch === ';') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+};
+
+const parseJson = (text: string): string[] => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : Array.isArray(data?.words) ? data.words : [];
+  return list
+    .map((entry: unknown) =>
+      typeof entry === 'string' ? entry : (entry as { word?: unknown })?.word
+    )
+    .filter((word: unknown): word is string => typeof word === 'string');
+};
+
+const parseCsv = (lines: string[]): string[] => {
+  const rows = lines.map(parseCsvLine);
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const wordColumn = header.findIndex(cell => cell === 'word' || cell === 'term');
+  if (wordColumn >= 0) {
+    return rows.slice(1).map(row => row[wordColumn] ?? '');
+  }
+  return rows.map(row => row[0]);
+};
+
+// Accepts a JSON array (of strings or {word} objects), CSV/TSV with an optional "word" header, or one word per line
+export const parseImportText = (text: string): string[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  let words: string[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    words = parseJson(trimmed);
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+    words = lines.some(line => /[,\t;]/.test(line)) ? parseCsv(lines) : lines;
+  }
+
+  return words.map(word => word.trim()).filter(Boolean);
+};
+
+// Drop words already in the Wordbook, already queued, or repeated within the list (case-insensitive).
+// With a language pair, only entries for that pair count.
+export const dedupeWords = (words: string[], savedItems: SavedItem[], jobs: ImportJob[] = [], pair?: LanguagePairOf) => {
+  const seen = new Set([
+    ...savedItems.filter(item => isInLanguagePair(item, pair)).map(item => item.word.toLowerCase()),
+    ...jobs.filter(job => job.status !== 'failed' && isInLanguagePair(job, pair)).map(job => job.word.toLowerCase()),
+  ]);
+  const unique: string[] = [];
+  for (const word of words) {
+    const key = word.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push(word);
+    }
+  }
+  return unique;
+};
+
+// ---------- Queue ----------
+
+interface ImportQueueOptions {
+  process: (job: ImportJob) => Promise<void>;
+  onChange: (jobs: ImportJob[]) => void;
+}
+
+// Runs enrichment jobs one at a time, spaced out by MIN_INTERVAL_MS, reporting every status change
+export const createImportQueue = ({ process, onChange }: ImportQueueOptions) => {
+  let jobs: ImportJob[] = [];
+  let running = false;
+  let lastStart = 0;
+
+  const update = (id: string, patch: Partial<ImportJob>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+    onChange(jobs);
+  };
+
+  const pump = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let next: ImportJob | undefined;
+      while ((next = jobs.find(job => job.status === 'pending'))) {
+        const wait = lastStart + MIN_INTERVAL_MS - Date.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+        // The job may have been cleared while we waited
+        const job = jobs.find(j => j.id === next!.id && j.status === 'pending');
+        if (!job) continue;
+
+        lastStart = Date.now();
+        const attempts = job.attempts + 1;
+        update(job.id, { status: 'running', attempts, error: undefined });
+        try {
+          await process({ ...job, attempts });
+          update(job.id, { status: 'done' });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          update(job.id, { status: attempts < MAX_AUTO_ATTEMPTS ? 'pending' : 'failed', error: message });
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const enqueue = (
+    words: string[],
+    settings: Pick<ImportJob, 'targetLanguage' | 'nativeLanguage' | 'withImage'>,
+    examples: Record<string, string> = {} // Keyed by lowercase word
+  ) => {
+    const stamp = Date.now();
+    // Re-importing a failed word replaces its old job
+    const incoming = new Set(words.map(w => w.toLowerCase()));
+    jobs = [
+      ...jobs.filter(job => !(job.status === 'failed' && incoming.has(job.word.toLowerCase()))),
+      ...words.map((word, i) => ({
+        id: `${stamp}-${i}`,
+        word,
+        ...settings,
+        example: examples[word.toLowerCase()],
+        status: 'pending' as const,
+        attempts: 0,
+      })),
+    ];
+    onChange(jobs);
+    pump();
+  };
+
+  const retry = (id?: string) => {
+    jobs = jobs.map(job =>
+      job.status === 'failed' && (!id || job.id === id) ? { ...job, status: 'pending', attempts: 0, error: undefined } : job
+    );
+    onChange(jobs);
+    pump();
+  };
+
+  // Forget finished jobs; pending ones stay queued
+  const clearFinished = () => {
+    jobs = jobs.filter(job => job.status === 'pending' || job.status === 'running');
+    onChange(jobs);
+  };
+
+  return { enqueue, retry, clearFinished };
+};
@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const ar: Messages = {
+  'nav.reader': 'القارئ',
+  'nav.review': 'المراجعة',
+  'nav.wordbook': 'دفتر الكلمات',
+  'header.iSpeak': 'لغتي',
+  'header.explainIn': 'الشرح باللغة',
+
+  'hero.title': 'الكلمات،',
+  'hero.titleAccent': 'بروح جديدة.',
+  'hero.subtitle': 'أدخل كلمة لتحصل على شرح غني ومصوّر بلغتك.',
+
+  'search.modeWord': 'كلمة',
+  'search.modeSentence': 'جملة',
+  'search.placeholderWord': 'ابحث عن كلمة...',
+  'search.placeholderSentence': 'الصق جملة أو تعبيرًا اصطلاحيًا...',
+  'search.submitWord': 'بحث',
+  'search.submitSentence': 'تحليل',
+  'search.recent': 'عمليات البحث الأخيرة',
+  'search.clear': 'مسح',
+  'search.sourceSaved': 'دفتر الكلمات',
+  'search.sourceRecent': 'حديثًا',
+  'search.didYouMean': '«{term}» لا تبدو كلمة. هل تقصد:',
+  'search.searchAnyway': 'ابحث عن «{term}» على أي حال',
+
+  'word.pronounce': 'النطق',
+  'word.voice': 'الصوت',
+  'word.slow': 'بطيء',
+  'word.slowTitle': 'تشغيل الصوت ببطء',
+  'word.refresh': 'تحديث',
+  'word.cachedRefresh': 'مخزّن مؤقتًا · تحديث',
+  'word.refreshTitle': 'إنشاء تعريف وصورة جديدين',
+  'word.definition': 'التعريف ({language})',
+  'word.illustrateSense': 'صوّر هذا المعنى',
+  'word.originalDefinition': 'التعريف باللغة الأصلية',
+  'word.vibeCheck': 'النبرة والسياق',
+  'word.usageExamples': 'أمثلة الاستخدام',
+  'word.forms': 'الصيغ',
+  'word.showForms': 'عرض الصيغ',
+  'word.formsHint': 'التصريفات والجمع وصيغ المقارنة لكلمة «{word}».',
+  'word.speakingPractice': 'تدريب النطق',
+  'word.origin': 'الأصل والتاريخ',
+  'word.visualization': 'تصوير بالذكاء الاصطناعي',
+  'word.saved': 'محفوظة',
+  'word.saveSense': 'حفظ المعنى {n}',
+  'word.save': 'حفظ في دفتر الكلمات',
+  'word.generatingArt': 'جارٍ إنشاء الصورة...',
+  'word.aiGenerated': 'مولّدة بالذكاء الاصطناعي',
+  'word.noImage': 'لا توجد صورة',
+  'word.feedback': 'رأيك',
+  'word.generateVariation': 'إنشاء نسخة أخرى',
+
+  'gems.title': 'كنوز خفية',
+  'gems.subtitle': 'معلومات طريفة وعامية وأسرار ثقافية.',
+  'gems.reveal': 'اكشف الأسرار',
+  'gems.loading': 'جارٍ التنقيب...',
+
+  'chat.ask': 'اسأل الذكاء الاصطناعي',
+  'chat.title': 'محادثة مع المعلّم',
+  'chat.pastConversations': 'المحادثات السابقة',
+  'chat.discussing': 'نتحدث عن «{word}»',
+  'chat.noThreads': 'لا توجد محادثات محفوظة بعد.',
+  'chat.messageCount': '{count} رسائل',
+  'chat.deleteThread': 'حذف المحادثة',
+  'chat.empty': 'ماذا تريد أن تعرف أيضًا؟',
+  'chat.promptQuiz': 'أعطني اختبارًا قصيرًا.',
+  'chat.promptFormal': 'هل هذه الكلمة رسمية؟',
+  'chat.promptTranslate': 'ترجم جملة.',
+  'chat.regenerate': 'إعادة الإنشاء',
+  'chat.saveNote': 'حفظ كملاحظة',
+  'chat.noteAdded': 'أضيفت إلى الملاحظات',
+  'chat.noteTitle': 'إرفاق هذه الإجابة بالكلمة في دفتر كلماتك',
+  'chat.noteTitleUnsaved': 'احفظ الكلمة في دفتر كلماتك أولًا',
+  'chat.placeholder': 'اكتب رسالة...',
+  'chat.stop': 'إيقاف',
+
+  'wordbook.title': 'دفتر كلماتي',
+  'wordbook.count': '{count} كلمة محفوظة',
+  'wordbook.import': 'استيراد',
+  'wordbook.importing': 'جارٍ الاستيراد {progress}',
+  'wordbook.export': 'تصدير',
+  'wordbook.reviewDue': 'راجع {count} مستحقة',
+  'wordbook.quiz': 'اختبار',
+  'wordbook.story': 'تدرّب بقصة من الذكاء الاصطناعي',
+  'wordbook.empty': 'لم تحفظ أي كلمات بعد.',
+  'wordbook.startSearching': 'ابدأ البحث',
+  'wordbook.or': 'أو',
+  'wordbook.importList': 'استورد قائمة كلمات',
+  'wordbook.remove': 'إزالة من دفتر الكلمات',
+  'wordbook.open': 'افتح الكلمة ومحادثتها',
+
+  'review.title': 'المراجعة',
+  'review.due': '{count} بطاقة مستحقة',
+  'reader.title': 'القارئ',
+  'reader.subtitle': 'الصق نصًا؛ ستُميَّز الكلمات غير الموجودة في دفتر كلماتك',
+  'reader.saving': 'جارٍ حفظ الكلمات {progress}',
+  'quiz.title': 'اختبار',
+  'quiz.subtitle': 'مبني على كلماتك المحفوظة ({count})',
+
+  'sentence.literal': 'حرفيًا',
+  'sentence.natural': 'بصياغة طبيعية',
+  'sentence.wordByWord': 'كلمة بكلمة',
+  'sentence.open': 'افتح «{word}»',
+
+  'practice.example': 'مثال {n}',
+  'practice.record': 'تسجيل',
+  'practice.recordAgain': 'سجّل مجددًا',
+  'practice.stop': 'إيقاف',
+  'practice.assess': 'تقييم',
+  'practice.heard': 'ما سُمع:',
+  'practice.unsupported': 'هذا المتصفح لا يدعم التسجيل.',
+  'practice.micError': 'تعذّر الوصول إلى الميكروفون. تحقّق من أذونات المتصفح.',
+  'practice.assessError': 'تعذّر تقييم هذا التسجيل. حاول مرة أخرى.',
+
+  'forms.conjugation': 'التصريف',
+  'forms.declension': 'الإعراب',
+  'forms.comparison': 'المقارنة',
+  'forms.none': 'لا تتصرّف',
+  'forms.invariable': 'هذه الكلمة لا يتغير شكلها.',
+
+  'speak.listen': 'استمع',
+
+  'wordbook.allDecks': 'كل الكلمات',
+  'wordbook.edit': 'تعديل المجموعة والوسوم والملاحظات',
+  'editor.title': 'المجموعة والوسوم والملاحظات',
+  'editor.deck': 'المجموعة',
+  'editor.deckPlaceholder': 'مثلًا: السفر',
+  'editor.tags': 'الوسوم',
+  'editor.tagsPlaceholder': 'طعام، أفعال، الفصل 3',
+  'editor.notes': 'ملاحظات',
+  'editor.save': 'حفظ',
+  'editor.cancel': 'إلغاء',
+
+  'filter.search': 'ابحث في الكلمات والتعريفات والملاحظات...',
+  'filter.allLanguages': 'كل اللغات',
+  'filter.anyTime': 'أي وقت',
+  'filter.pastWeek': 'الأسبوع الماضي',
+  'filter.pastMonth': 'الشهر الماضي',
+  'filter.pastYear': 'السنة الماضية',
+  'filter.allStatuses': 'أي حالة',
+  'filter.statusNew': 'جديدة',
+  'filter.statusDue': 'مستحقة',
+  'filter.statusLearning': 'قيد التعلّم',
+  'filter.statusMastered': 'متقنة',
+  'sort.newest': 'الأحدث',
+  'sort.oldest': 'الأقدم',
+  'sort.alphabetical': 'أبجديًا',
+  'sort.weakest': 'الأضعف تذكّرًا',
+  'filter.clear': 'مسح عوامل التصفية',
+  'filter.noMatches': 'لا توجد كلمات تطابق عوامل التصفية هذه.',
+  'filter.showing': '{count} من {total}',
+
+  'nav.progress': 'التقدّم',
+  'stats.title': 'التقدّم',
+  'stats.subtitle': 'دراستك خلال آخر 30 يومًا',
+  'stats.empty': 'ابحث عن بعض الكلمات واحفظها لبدء تتبّع تقدّمك.',
+  'stats.wordsSaved': 'الكلمات المحفوظة',
+  'stats.currentStreak': 'السلسلة الحالية',
+  'stats.longestStreak': 'أطول سلسلة',
+  'stats.days': '{count} يوم',
+  'stats.accuracy': 'دقة المراجعة',
+  'stats.savedPerDay': 'الكلمات المحفوظة يوميًا',
+  'stats.lookups': '{count} عملية بحث خلال آخر 30 يومًا',
+  'stats.accuracyPerDay': 'دقة المراجعة يوميًا',
+  'stats.noReviews': 'لا مراجعات خلال آخر 30 يومًا.',
+  'stats.byLanguage': 'حسب اللغة',
+  'stats.byPartOfSpeech': 'حسب نوع الكلمة',
+  'stats.unspecified': 'غير محدد',
+  'stats.mostMissed': 'الأكثر خطأً في الاختبارات',
+  'stats.noMisses': 'لا توجد كلمات خاطئة بعد. أجرِ اختبارًا أو قصة لتظهر هنا.',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'أساليبك',
+  'imageStyle.minimal': 'بسيط',
+  'imageStyle.abstract': 'تجريدي',
+  'imageStyle.scenario': 'مشهد واقعي',
+
+  'imageStyle.photo': 'صورة فوتوغرافية',
+  'imageStyle.watercolor': 'ألوان مائية',
+  'imageStyle.comic': 'قصة مصورة',
+  'imageStyle.mnemonic': 'مشهد للتذكّر',
+  'word.customizeImage': 'تخصيص الصورة',
+  'imageEditor.title': 'اختر أسلوبًا وعدّل الوصف قبل الإنشاء',
+  'imageEditor.style': 'الأسلوب',
+  'imageEditor.basedOn': 'بالاستناد إلى',
+  'imageEditor.wordOnly': 'الكلمة نفسها',
+  'imageEditor.prompt': 'الوصف',
+  'imageEditor.reset': 'إعادة بناء الوصف',
+  'imageEditor.edited': 'معدّل يدويًا. سيُرسل نصك كما هو.',
+  'imageEditor.generate': 'إنشاء الصورة',
+
+  'common.backToWordbook': 'العودة إلى دفتر الكلمات',
+  'review.complete': 'انتهت الجلسة — تمت {count} مراجعة.',
+  'review.nothingDue': 'لا شيء مستحق للمراجعة الآن.',
+  'review.remaining': 'متبقٍّ: {count}',
+  'review.reviewed': 'تمت مراجعة: {count}',
+  'review.showDefinition': 'إظهار التعريف',
+  'grade.again': 'مرة أخرى',
+  'grade.hard': 'صعب',
+  'grade.good': 'جيد',
+  'grade.easy': 'سهل',
+  'exercise.definition': 'اختر الكلمة',
+  'exercise.synonym': 'اختر المرادف',
+  'exercise.example': 'أكمل الجملة',
+  'exercise.match': 'طابق الصور',
+  'quiz.askDefinition': 'أي كلمة تطابق هذا التعريف؟',
+  'quiz.askSynonym': 'أي كلمة أقرب في المعنى إلى «{word}»؟',
+  'quiz.askExample': 'أي كلمة تكمل الجملة؟',
+  'quiz.correct': 'صحيح!',
+  'quiz.answerWas': 'كانت الإجابة «{answer}».',
+  'quiz.next': 'التالي',
+  'quiz.matchHint': 'اختر كلمة، ثم الصورة التي تنتمي إليها.',
+  'quiz.pictureAlt': 'صورة الاختبار',
+  'quiz.check': 'تحقّق',
+  'quiz.needWords': 'احفظ {count} كلمات على الأقل لإنشاء اختبار.',
+  'quiz.complete': 'انتهى الاختبار',
+  'quiz.missedMoved': 'تقدّمت الكلمات الخاطئة في قائمة المراجعة:',
+  'quiz.newQuiz': 'اختبار جديد',
+  'quiz.end': 'إنهاء الاختبار',
+  'story.reveal': 'إظهار',
+  'story.test': 'اختبرني',
+  'story.revealHint': 'انقر على الفراغات المسطّرة لإظهار الكلمات.',
+  'story.score': '{score} / {total} صحيحة',
+  'story.missedMoved': 'تقدّمت الكلمات الخاطئة في قائمة المراجعة.',
+  'story.tryAgain': 'حاول مرة أخرى',
+  'story.check': 'تحقّق من الإجابات',
+  'reader.placeholder': 'الصق مقالًا أو فقرة تقرؤها...',
+  'reader.read': 'اقرأ',
+  'reader.status': '{count} كلمات جديدة · مرّر للحصول على شرح، وانقر للتحديد',
+  'reader.withImages': 'مع الصور',
+  'reader.clear': 'مسح',
+  'reader.selectAll': 'تحديد الكل',
+  'reader.save': 'حفظ في دفتر الكلمات',
+  'reader.saveCount': 'حفظ {count} في دفتر الكلمات',
+  'reader.another': 'قراءة فقرة أخرى',
+  'reader.queued': 'كلمات في قائمة الانتظار لدفترك: {count}',
+  'export.title': 'تصدير دفتر الكلمات',
+  'export.layout': 'تخطيط البطاقة',
+  'export.front': 'الوجه',
+  'export.back': 'الظهر',
+  'export.off': 'إيقاف',
+  'export.imagesAnkiOnly': 'تُضمَّن الصور في حزم Anki فقط.',
+  'export.failed': 'فشل التصدير. حاول مرة أخرى.',
+  'export.download': 'تنزيل',
+  'exportField.word': 'الكلمة',
+  'exportField.phonetic': 'النطق',
+  'exportField.grammar': 'القواعد',
+  'exportField.definition': 'التعريف',
+  'exportField.examples': 'الأمثلة',
+  'exportField.image': 'الصورة',
+  'import.title': 'استيراد كلمات',
+  'import.subtitle': 'كلمة في كل سطر، أو CSV، أو JSON.',
+  'import.chooseFile': 'اختيار ملف',
+  'import.withImages': 'إنشاء صور',
+  'import.summary': 'تم العثور على {found} · {fresh} جديدة · {skipped} محفوظة أو في الانتظار',
+  'import.parseError': 'تعذّرت قراءة ملف JSON هذا. تحقّق من التنسيق وحاول مرة أخرى.',
+  'import.submit': 'استيراد الكلمات',
+  'import.submitCount': 'استيراد {count} كلمات',
+  'import.progress': 'التقدّم {done}/{total}',
+  'import.retryFailed': 'إعادة محاولة الفاشلة',
+  'import.clearFinished': 'مسح المكتملة',
+  'import.retry': 'إعادة المحاولة',
+  'import.pending': 'في الانتظار',
+  'import.running': 'قيد التنفيذ',
+  'import.done': 'تم',
+  'import.failed': 'فشل',
+  'storage.used': 'مستخدم {used} من {quota}',
+  'storage.wordList': 'قائمة الكلمات: {size} في localStorage',
+
+  'export.count': '{count} كلمة',
+  'export.deckCount': '{deck} · {count} كلمة',
+
+  'imageEditor.findingSoundAlike': 'جارٍ البحث عن كلمة في {language} تشبهها في النطق...',
+  'imageEditor.soundAlike': 'تشبه في النطق: {keyword}',
+  'imageEditor.sceneFailed': 'تعذّر العثور على كلمة مشابهة في النطق. جرّب نمطًا آخر أو اكتب الوصف بنفسك.',
+
+  'storage.wordbookFull': 'تعذّر حفظ دفتر الكلمات: مساحة تخزين المتصفح ممتلئة.',
+  'storage.imageFull': 'تعذّر حفظ الصورة: قد تكون مساحة تخزين المتصفح ممتلئة.',
+  'chat.stopped': 'تم الإيقاف.',
+  'chat.failed': 'لا أستطيع الإجابة عن ذلك الآن.',
+
+  'grammar.article': 'أداة التعريف',
+  'grammar.gender': 'الجنس',
+  'grammar.measureWord': 'كلمة العدّ',
+  'grammar.reading': 'القراءة',
+  'grammar.romanization': 'الكتابة بالحروف اللاتينية',
+};
@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const de: Messages = {
+  'nav.reader': 'Lesen',
+  'nav.review': 'Wiederholen',
+  'nav.wordbook': 'Wortschatz',
+  'header.iSpeak': 'Ich spreche',
+  'header.explainIn': 'Erklären auf',
+
+  'hero.title': 'Wörter,',
+  'hero.titleAccent': 'neu gedacht.',
+  'hero.subtitle': 'Gib ein Wort ein und erhalte eine anschauliche Erklärung in deiner Sprache.',
+
+  'search.modeWord': 'Wort',
+  'search.modeSentence': 'Satz',
+  'search.placeholderWord': 'Wort suchen...',
+  'search.placeholderSentence': 'Satz oder Redewendung einfügen...',
+  'search.submitWord': 'Suchen',
+  'search.submitSentence': 'Analysieren',
+  'search.recent': 'Letzte Suchen',
+  'search.clear': 'Löschen',
+  'search.sourceSaved': 'Wortschatz',
+  'search.sourceRecent': 'Zuletzt',
+  'search.didYouMean': '„{term}“ sieht nicht wie ein Wort aus. Meintest du:',
+  'search.searchAnyway': 'Trotzdem nach „{term}“ suchen',
+
+  'word.pronounce': 'Aussprechen',
+  'word.voice': 'Stimme',
+  'word.slow': 'Langsam',
+  'word.slowTitle': 'Langsam abspielen',
+  'word.refresh': 'Neu laden',
+  'word.cachedRefresh': 'Zwischengespeichert · Neu laden',
+  'word.refreshTitle': 'Neue Definition und neues Bild erzeugen',
+  'word.definition': 'Definition ({language})',
+  'word.illustrateSense': 'Diese Bedeutung illustrieren',
+  'word.originalDefinition': 'Definition in der Originalsprache',
+  'word.vibeCheck': 'Ton & Kontext',
+  'word.usageExamples': 'Beispielsätze',
+  'word.forms': 'Formen',
+  'word.showForms': 'Formen zeigen',
+  'word.formsHint': 'Konjugation, Plural und Steigerung von „{word}“.',
+  'word.speakingPractice': 'Sprechübung',
+  'word.origin': 'Herkunft & Geschichte',
+  'word.visualization': 'KI-Visualisierung',
+  'word.saved': 'Gespeichert',
+  'word.saveSense': 'Bedeutung {n} speichern',
+  'word.save': 'Im Wortschatz speichern',
+  'word.generatingArt': 'Bild wird erstellt...',
+  'word.aiGenerated': 'KI-generiert',
+  'word.noImage': 'Kein Bild verfügbar',
+  'word.feedback': 'Feedback',
+  'word.generateVariation': 'Variante erzeugen',
+
+  'gems.title': 'Verborgene Schätze',
+  'gems.subtitle': 'Wissenswertes, Slang und kulturelle Geheimnisse.',
+  'gems.reveal': 'Geheimnisse lüften',
+  'gems.loading': 'Wird ausgegraben...',
+
+  'chat.ask': 'KI fragen',
+  'chat.title': 'Tutor-Chat',
+  'chat.pastConversations': 'Frühere Gespräche',
+  'chat.discussing': 'Gespräch über „{word}“',
+  'chat.noThreads': 'Noch keine gespeicherten Gespräche.',
+  'chat.messageCount': '{count} Nachrichten',
+  'chat.deleteThread': 'Gespräch löschen',
+  'chat.empty': 'Was möchtest du noch wissen?',
+  'chat.promptQuiz': 'Stell mir ein Quiz.',
+  'chat.promptFormal': 'Ist dieses Wort förmlich?',
+  'chat.promptTranslate': 'Übersetze einen Satz.',
+  'chat.regenerate': 'Neu generieren',
+  'chat.saveNote': 'Als Notiz speichern',
+  'chat.noteAdded': 'Zu Notizen hinzugefügt',
+  'chat.noteTitle': 'Diese Antwort an das Wort in deinem Wortschatz anhängen',
+  'chat.noteTitleUnsaved': 'Speichere das Wort zuerst in deinem Wortschatz',
+  'chat.placeholder': 'Nachricht eingeben...',
+  'chat.stop': 'Anhalten',
+
+  'wordbook.title': 'Mein Wortschatz',
+  'wordbook.count': '{count} gespeicherte Wörter',
+  'wordbook.import': 'Importieren',
+  'wordbook.importing': 'Importiere {progress}',
+  'wordbook.export': 'Exportieren',
+  'wordbook.reviewDue': '{count} fällige wiederholen',
+  'wordbook.quiz': 'Quiz',
+  'wordbook.story': 'Mit KI-Geschichte üben',
+  'wordbook.empty': 'Noch keine Wörter gespeichert.',
+  'wordbook.startSearching': 'Jetzt suchen',
+  'wordbook.or': 'oder',
+  'wordbook.importList': 'eine Wortliste importieren',
+  'wordbook.remove': 'Aus dem Wortschatz entfernen',
+  'wordbook.open': 'Wort und Tutor-Chat öffnen',
+
+  'review.title': 'Wiederholen',
+  'review.due': '{count} Karten fällig',
+  'reader.title': 'Lesen',
+  'reader.subtitle': 'Text einfügen; Wörter, die nicht in deinem Wortschatz sind, werden markiert',
+  'reader.saving': 'Wörter werden gespeichert {progress}',
+  'quiz.title': 'Quiz',
+  'quiz.subtitle': 'Aus deinen {count} gespeicherten Wörtern erstellt',
+
+  'sentence.literal': 'Wörtlich',
+  'sentence.natural': 'Natürlich',
+  'sentence.wordByWord': 'Wort für Wort',
+  'sentence.open': '„{word}“ öffnen',
+
+  'practice.example': 'Beispiel {n}',
+  'practice.record': 'Aufnehmen',
+  'practice.recordAgain': 'Neu aufnehmen',
+  'practice.stop': 'Stopp',
+  'practice.assess': 'Bewerten',
+  'practice.heard': 'Gehört:',
+  'practice.unsupported': 'Dieser Browser unterstützt keine Aufnahmen.',
+  'practice.micError': 'Kein Zugriff auf das Mikrofon. Prüfe die Browser-Berechtigungen.',
+  'practice.assessError': 'Die Aufnahme konnte nicht bewertet werden. Versuch es noch einmal.',
+
+  'forms.conjugation': 'Konjugation',
+  'forms.declension': 'Deklination',
+  'forms.comparison': 'Steigerung',
+  'forms.none': 'Unveränderlich',
+  'forms.invariable': 'Dieses Wort verändert seine Form nicht.',
+
+  'speak.listen': 'Anhören',
+
+  'wordbook.allDecks': 'Alle Wörter',
+  'wordbook.edit': 'Stapel, Tags und Notizen bearbeiten',
+  'editor.title': 'Stapel, Tags und Notizen',
+  'editor.deck': 'Stapel',
+  'editor.deckPlaceholder': 'z. B. Reisen',
+  'editor.tags': 'Tags',
+  'editor.tagsPlaceholder': 'Essen, Verben, Kapitel 3',
+  'editor.notes': 'Notizen',
+  'editor.save': 'Speichern',
+  'editor.cancel': 'Abbrechen',
+
+  'filter.search': 'Wörter, Definitionen und Notizen durchsuchen...',
+  'filter.allLanguages': 'Alle Sprachen',
+  'filter.anyTime': 'Beliebiger Zeitraum',
+  'filter.pastWeek': 'Letzte Woche',
+  'filter.pastMonth': 'Letzter Monat',
+  'filter.pastYear': 'Letztes Jahr',
+  'filter.allStatuses': 'Jeder Status',
+  'filter.statusNew': 'Neu',
+  'filter.statusDue': 'Fällig',
+  'filter.statusLearning': 'In Arbeit',
+  'filter.statusMastered': 'Gemeistert',
+  'sort.newest': 'Neueste',
+  'sort.oldest': 'Älteste',
+  'sort.alphabetical': 'A–Z',
+  'sort.weakest': 'Schwächste Erinnerung',
+  'filter.clear': 'Filter zurücksetzen',
+  'filter.noMatches': 'Keine Wörter entsprechen diesen Filtern.',
+  'filter.showing': '{count} von {total}',
+
+  'nav.progress': 'Fortschritt',
+  'stats.title': 'Fortschritt',
+  'stats.subtitle': 'Dein Lernen in den letzten 30 Tagen',
+  'stats.empty': 'Schlage ein paar Wörter nach und speichere sie, um deinen Fortschritt zu verfolgen.',
+  'stats.wordsSaved': 'Gespeicherte Wörter',
+  'stats.currentStreak': 'Aktuelle Serie',
+  'stats.longestStreak': 'Längste Serie',
+  'stats.days': '{count} T.',
+  'stats.accuracy': 'Trefferquote',
+  'stats.savedPerDay': 'Gespeicherte Wörter pro Tag',
+  'stats.lookups': '{count} Nachschlagen in den letzten 30 Tagen',
+  'stats.accuracyPerDay': 'Trefferquote pro Tag',
+  'stats.noReviews': 'Keine Wiederholungen in den letzten 30 Tagen.',
+  'stats.byLanguage': 'Nach Sprache',
+  'stats.byPartOfSpeech': 'Nach Wortart',
+  'stats.unspecified': 'Nicht angegeben',
+  'stats.mostMissed': 'Am häufigsten falsch im Quiz',
+  'stats.noMisses': 'Noch keine falschen Wörter. Mach ein Quiz oder eine Geschichte, um sie hier zu sehen.',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'Deine Stile',
+  'imageStyle.minimal': 'Minimalistisch',
+  'imageStyle.abstract': 'Abstrakt',
+  'imageStyle.scenario': 'Alltagsszene',
+
+  'imageStyle.photo': 'Foto',
+  'imageStyle.watercolor': 'Aquarell',
+  'imageStyle.comic': 'Comic',
+  'imageStyle.mnemonic': 'Eselsbrücke',
+  'word.customizeImage': 'Bild anpassen',
+  'imageEditor.title': 'Wähle einen Stil und bearbeite den Prompt vor dem Erzeugen',
+  'imageEditor.style': 'Stil',
+  'imageEditor.basedOn': 'Grundlage',
+  'imageEditor.wordOnly': 'Das Wort selbst',
+  'imageEditor.prompt': 'Prompt',
+  'imageEditor.reset': 'Prompt neu erstellen',
+  'imageEditor.edited': 'Von Hand bearbeitet. Dein Text wird genau so gesendet.',
+  'imageEditor.generate': 'Bild erzeugen',
+
+  'common.backToWordbook': 'Zurück zum Wortschatz',
+  'review.complete': 'Sitzung beendet – {count} Wiederholungen erledigt.',
+  'review.nothingDue': 'Gerade ist nichts zur Wiederholung fällig.',
+  'review.remaining': '{count} übrig',
+  'review.reviewed': '{count} wiederholt',
+  'review.showDefinition': 'Definition zeigen',
+  'grade.again': 'Nochmal',
+  'grade.hard': 'Schwer',
+  'grade.good': 'Gut',
+  'grade.easy': 'Leicht',
+  'exercise.definition': 'Wort wählen',
+  'exercise.synonym': 'Synonym wählen',
+  'exercise.example': 'Satz ergänzen',
+  'exercise.match': 'Bilder zuordnen',
+  'quiz.askDefinition': 'Welches Wort passt zu dieser Definition?',
+  'quiz.askSynonym': 'Welches Wort kommt „{word}“ in der Bedeutung am nächsten?',
+  'quiz.askExample': 'Welches Wort vervollständigt den Satz?',
+  'quiz.correct': 'Richtig!',
+  'quiz.answerWas': 'Die Antwort war „{answer}“.',
+  'quiz.next': 'Weiter',
+  'quiz.matchHint': 'Wähle ein Wort und dann das passende Bild.',
+  'quiz.pictureAlt': 'Quizbild',
+  'quiz.check': 'Prüfen',
+  'quiz.needWords': 'Speichere mindestens {count} Wörter, um ein Quiz zu erstellen.',
+  'quiz.complete': 'Quiz beendet',
+  'quiz.missedMoved': 'Verpasste Wörter rücken in deiner Wiederholung nach vorn:',
+  'quiz.newQuiz': 'Neues Quiz',
+  'quiz.end': 'Quiz beenden',
+  'story.reveal': 'Aufdecken',
+  'story.test': 'Teste mich',
+  'story.revealHint': 'Klicke auf die unterstrichenen Lücken, um die Wörter aufzudecken.',
+  'story.score': '{score} / {total} richtig',
+  'story.missedMoved': 'Verpasste Wörter rücken in deiner Wiederholung nach vorn.',
+  'story.tryAgain': 'Nochmal versuchen',
+  'story.check': 'Antworten prüfen',
+  'reader.placeholder': 'Füge einen Artikel oder Textabschnitt ein, den du liest...',
+  'reader.read': 'Lesen',
+  'reader.status': '{count} neue Wörter · für eine Glosse darüberfahren, zum Auswählen klicken',
+  'reader.withImages': 'Mit Bildern',
+  'reader.clear': 'Leeren',
+  'reader.selectAll': 'Alle auswählen',
+  'reader.save': 'Im Wortschatz speichern',
+  'reader.saveCount': '{count} im Wortschatz speichern',
+  'reader.another': 'Anderen Text lesen',
+  'reader.queued': 'Wörter für deinen Wortschatz vorgemerkt: {count}',
+  'export.title': 'Wortschatz exportieren',
+  'export.layout': 'Kartenlayout',
+  'export.front': 'Vorne',
+  'export.back': 'Hinten',
+  'export.off': 'Aus',
+  'export.imagesAnkiOnly': 'Bilder sind nur in Anki-Paketen enthalten.',
+  'export.failed': 'Export fehlgeschlagen. Bitte versuche es erneut.',
+  'export.download': 'Herunterladen',
+  'exportField.word': 'Wort',
+  'exportField.phonetic': 'Aussprache',
+  'exportField.grammar': 'Grammatik',
+  'exportField.definition': 'Definition',
+  'exportField.examples': 'Beispiele',
+  'exportField.image': 'Bild',
+  'import.title': 'Wörter importieren',
+  'import.subtitle': 'Ein Wort pro Zeile, CSV oder JSON.',
+  'import.chooseFile': 'Datei wählen',
+  'import.withImages': 'Bilder erzeugen',
+  'import.summary': '{found} gefunden · {fresh} neu · {skipped} schon gespeichert oder vorgemerkt',
+  'import.parseError': 'Dieses JSON konnte nicht gelesen werden. Prüfe das Format und versuche es erneut.',
+  'import.submit': 'Wörter importieren',
+  'import.submitCount': '{count} Wörter importieren',
+  'import.progress': 'Fortschritt {done}/{total}',
+  'import.retryFailed': 'Fehlgeschlagene wiederholen',
+  'import.clearFinished': 'Erledigte entfernen',
+  'import.retry': 'Wiederholen',
+  'import.pending': 'Wartend',
+  'import.running': 'Läuft',
+  'import.done': 'Fertig',
+  'import.failed': 'Fehler',
+  'storage.used': '{used} von {quota} belegt',
+  'storage.wordList': 'Wortliste: {size} in localStorage',
+
+  'export.count': '{count} Wörter',
+  'export.deckCount': '{deck} · {count} Wörter',
+
+  'imageEditor.findingSoundAlike': 'Suche ein ähnlich klingendes Wort auf {language}...',
+  'imageEditor.soundAlike': 'Klingt wie: {keyword}',
+  'imageEditor.sceneFailed': 'Kein ähnlich klingendes Wort gefunden. Wähle einen anderen Stil oder schreib den Prompt selbst.',
+
+  'storage.wordbookFull': 'Dein Wortschatz konnte nicht gespeichert werden: Der Browserspeicher ist voll.',
+  'storage.imageFull': 'Das Bild konnte nicht gespeichert werden: Der Browserspeicher ist möglicherweise voll.',
+  'chat.stopped': 'Angehalten.',
+  'chat.failed': 'Darauf kann ich gerade nicht antworten.',
+
+  'grammar.article': 'Artikel',
+  'grammar.gender': 'Genus',
+  'grammar.measureWord': 'Zählwort',
+  'grammar.reading': 'Lesung',
+  'grammar.romanization': 'Umschrift',
+};
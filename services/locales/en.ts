@@ -0,0 +1,290 @@
+// Source catalog: every other locale must provide the same keys
+export const en = {
+  'nav.reader': 'Reader',
+  'nav.review': 'Review',
+  'nav.wordbook': 'Wordbook',
+  'header.iSpeak': 'I speak',
+  'header.explainIn': 'Explain in',
+
+  'hero.title': 'Words,',
+  'hero.titleAccent': 'reimagined.',
+  'hero.subtitle': 'Enter a word to get a rich, visual explanation in your language.',
+
+  'search.modeWord': 'Word',
+  'search.modeSentence': 'Sentence',
+  'search.placeholderWord': 'Search a word...',
+  'search.placeholderSentence': 'Paste a sentence or idiom...',
+  'search.submitWord': 'Search',
+  'search.submitSentence': 'Analyze',
+  'search.recent': 'Recent searches',
+  'search.clear': 'Clear',
+  'search.sourceSaved': 'Wordbook',
+  'search.sourceRecent': 'Recent',
+  'search.didYouMean': '"{term}" doesn\'t look like a word. Did you mean:',
+  'search.searchAnyway': 'Search "{term}" anyway',
+
+  'word.pronounce': 'Pronounce',
+  'word.voice': 'Voice',
+  'word.slow': 'Slow',
+  'word.slowTitle': 'Play speech slowly',
+  'word.refresh': 'Refresh',
+  'word.cachedRefresh': 'Cached · Refresh',
+  'word.refreshTitle': 'Generate a fresh definition and image',
+  'word.definition': 'Definition ({language})',
+  'word.illustrateSense': 'Illustrate this sense',
+  'word.originalDefinition': 'Definition in Original Language',
+  'word.vibeCheck': 'Vibe Check',
+  'word.usageExamples': 'Usage Examples',
+  'word.forms': 'Forms',
+  'word.showForms': 'Show forms',
+  'word.formsHint': 'Conjugations, plurals and comparisons for "{word}".',
+  'word.speakingPractice': 'Speaking Practice',
+  'word.origin': 'Origin & History',
+  'word.visualization': 'AI Visualization',
+  'word.saved': 'Saved',
+  'word.saveSense': 'Save sense {n}',
+  'word.save': 'Save to Wordbook',
+  'word.generatingArt': 'Generating Art...',
+  'word.aiGenerated': 'AI Generated',
+  'word.noImage': 'No image available',
+  'word.feedback': 'Feedback',
+  'word.generateVariation': 'Generate Variation',
+
+  'gems.title': 'Hidden Gems',
+  'gems.subtitle': 'Trivia, slang, and cultural secrets.',
+  'gems.reveal': 'Reveal Secrets',
+  'gems.loading': 'Unearthing...',
+
+  'chat.ask': 'Ask AI',
+  'chat.title': 'Tutor Chat',
+  'chat.pastConversations': 'Past conversations',
+  'chat.discussing': 'Discussing "{word}"',
+  'chat.noThreads': 'No saved conversations yet.',
+  'chat.messageCount': '{count} messages',
+  'chat.deleteThread': 'Delete conversation',
+  'chat.empty': 'What else would you like to know?',
+  'chat.promptQuiz': 'Give me a quiz.',
+  'chat.promptFormal': 'Is this word formal?',
+  'chat.promptTranslate': 'Translate a sentence.',
+  'chat.regenerate': 'Regenerate',
+  'chat.saveNote': 'Save as note',
+  'chat.noteAdded': 'Added to notes',
+  'chat.noteTitle': 'Attach this answer to the word in your Wordbook',
+  'chat.noteTitleUnsaved': 'Save the word to your Wordbook first',
+  'chat.placeholder': 'Type a message...',
+  'chat.stop': 'Stop generating',
+
+  'wordbook.title': 'My Wordbook',
+  'wordbook.count': '{count} Saved Words',
+  'wordbook.import': 'Import',
+  'wordbook.importing': 'Importing {progress}',
+  'wordbook.export': 'Export',
+  'wordbook.reviewDue': 'Review {count} Due',
+  'wordbook.quiz': 'Quiz',
+  'wordbook.story': 'Practice with AI Story',
+  'wordbook.empty': 'No words saved yet.',
+  'wordbook.startSearching': 'Start searching',
+  'wordbook.or': 'or',
+  'wordbook.importList': 'import a word list',
+  'wordbook.remove': 'Remove from wordbook',
+  'wordbook.open': 'Open word and its tutor chat',
+
+  'review.title': 'Review',
+  'review.due': '{count} Cards Due',
+  'reader.title': 'Reader',
+  'reader.subtitle': 'Paste a passage; words not in your Wordbook are highlighted',
+  'reader.saving': 'Saving words {progress}',
+  'quiz.title': 'Quiz',
+  'quiz.subtitle': 'Built from your {count} saved words',
+
+  'sentence.literal': 'Literal',
+  'sentence.natural': 'Natural',
+  'sentence.wordByWord': 'Word by Word',
+  'sentence.open': 'Open "{word}"',
+
+  'practice.example': 'Example {n}',
+  'practice.record': 'Record',
+  'practice.recordAgain': 'Record again',
+  'practice.stop': 'Stop',
+  'practice.assess': 'Assess',
+  'practice.heard': 'Heard:',
+  'practice.unsupported': 'Recording isn\'t supported in this browser.',
+  'practice.micError': 'Couldn\'t access the microphone. Check your browser permissions.',
+  'practice.assessError': 'Couldn\'t assess this recording. Try again.',
+
+  'forms.conjugation': 'Conjugation',
+  'forms.declension': 'Declension',
+  'forms.comparison': 'Comparison',
+  'forms.none': 'No inflection',
+  'forms.invariable': 'This word doesn\'t change form.',
+
+  'speak.listen': 'Listen',
+
+  'wordbook.allDecks': 'All words',
+  'wordbook.edit': 'Edit deck, tags and notes',
+  'editor.title': 'Deck, tags and notes',
+  'editor.deck': 'Deck',
+  'editor.deckPlaceholder': 'e.g. Travel',
+  'editor.tags': 'Tags',
+  'editor.tagsPlaceholder': 'food, verbs, chapter 3',
+  'editor.notes': 'Notes',
+  'editor.save': 'Save',
+  'editor.cancel': 'Cancel',
+
+  'filter.search': 'Search words, definitions and notes...',
+  'filter.allLanguages': 'All languages',
+  'filter.anyTime': 'Any time',
+  'filter.pastWeek': 'Past week',
+  'filter.pastMonth': 'Past month',
+  'filter.pastYear': 'Past year',
+  'filter.allStatuses': 'Any status',
+  'filter.statusNew': 'New',
+  'filter.statusDue': 'Due',
+  'filter.statusLearning': 'Learning',
+  'filter.statusMastered': 'Mastered',
+  'sort.newest': 'Newest',
+  'sort.oldest': 'Oldest',
+  'sort.alphabetical': 'A–Z',
+  'sort.weakest': 'Weakest recall',
+  'filter.clear': 'Clear filters',
+  'filter.noMatches': 'No words match these filters.',
+  'filter.showing': '{count} of {total}',
+
+  'nav.progress': 'Progress',
+  'stats.title': 'Progress',
+  'stats.subtitle': 'Your study over the last 30 days',
+  'stats.empty': 'Look up and save a few words to start tracking your progress.',
+  'stats.wordsSaved': 'Words saved',
+  'stats.currentStreak': 'Current streak',
+  'stats.longestStreak': 'Longest streak',
+  'stats.days': '{count} d',
+  'stats.accuracy': 'Review accuracy',
+  'stats.savedPerDay': 'Words saved per day',
+  'stats.lookups': '{count} lookups in the last 30 days',
+  'stats.accuracyPerDay': 'Review accuracy per day',
+  'stats.noReviews': 'No reviews in the last 30 days.',
+  'stats.byLanguage': 'By language',
+  'stats.byPartOfSpeech': 'By part of speech',
+  'stats.unspecified': 'Unspecified',
+  'stats.mostMissed': 'Most missed in quizzes',
+  'stats.noMisses': 'No missed words yet. Take a quiz or a story to see them here.',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'Your styles',
+  'imageStyle.minimal': 'Minimal',
+  'imageStyle.abstract': 'Abstract',
+  'imageStyle.scenario': 'Real-world scene',
+
+  'imageStyle.photo': 'Photo',
+  'imageStyle.watercolor': 'Watercolor',
+  'imageStyle.comic': 'Comic',
+  'imageStyle.mnemonic': 'Mnemonic scene',
+  'word.customizeImage': 'Customize image',
+  'imageEditor.title': 'Choose a style and edit the prompt before generating',
+  'imageEditor.style': 'Style',
+  'imageEditor.basedOn': 'Based on',
+  'imageEditor.wordOnly': 'The word itself',
+  'imageEditor.prompt': 'Prompt',
+  'imageEditor.reset': 'Rebuild prompt',
+  'imageEditor.edited': 'Edited by hand. Your text is sent exactly as written.',
+  'imageEditor.generate': 'Generate image',
+
+  'common.backToWordbook': 'Back to Wordbook',
+  'review.complete': 'Session complete — {count} reviews done.',
+  'review.nothingDue': 'Nothing due for review right now.',
+  'review.remaining': '{count} remaining',
+  'review.reviewed': '{count} reviewed',
+  'review.showDefinition': 'Show Definition',
+  'grade.again': 'Again',
+  'grade.hard': 'Hard',
+  'grade.good': 'Good',
+  'grade.easy': 'Easy',
+  'exercise.definition': 'Pick the word',
+  'exercise.synonym': 'Choose the synonym',
+  'exercise.example': 'Fill the sentence',
+  'exercise.match': 'Match images',
+  'quiz.askDefinition': 'Which word matches this definition?',
+  'quiz.askSynonym': 'Which word is closest in meaning to "{word}"?',
+  'quiz.askExample': 'Which word completes the sentence?',
+  'quiz.correct': 'Correct!',
+  'quiz.answerWas': 'The answer was "{answer}".',
+  'quiz.next': 'Next',
+  'quiz.matchHint': 'Pick a word, then the picture it belongs to.',
+  'quiz.pictureAlt': 'Quiz picture',
+  'quiz.check': 'Check',
+  'quiz.needWords': 'Save at least {count} words to build a quiz.',
+  'quiz.complete': 'Quiz complete',
+  'quiz.missedMoved': 'Missed words moved up in your review queue:',
+  'quiz.newQuiz': 'New quiz',
+  'quiz.end': 'End quiz',
+  'story.reveal': 'Reveal',
+  'story.test': 'Test me',
+  'story.revealHint': 'Click the underlined blanks to reveal the words.',
+  'story.score': '{score} / {total} correct',
+  'story.missedMoved': 'Missed words moved up in your review queue.',
+  'story.tryAgain': 'Try again',
+  'story.check': 'Check answers',
+  'reader.placeholder': "Paste an article or passage you're reading...",
+  'reader.read': 'Read',
+  'reader.status': '{count} new words · hover for a gloss, click to select',
+  'reader.withImages': 'With images',
+  'reader.clear': 'Clear',
+  'reader.selectAll': 'Select all',
+  'reader.save': 'Save to Wordbook',
+  'reader.saveCount': 'Save {count} to Wordbook',
+  'reader.another': 'Read another passage',
+  'reader.queued': 'Words queued for your Wordbook: {count}',
+  'export.title': 'Export Wordbook',
+  'export.layout': 'Card Layout',
+  'export.front': 'Front',
+  'export.back': 'Back',
+  'export.off': 'Off',
+  'export.imagesAnkiOnly': 'Images are only included in Anki packages.',
+  'export.failed': 'Export failed. Please try again.',
+  'export.download': 'Download',
+  'exportField.word': 'Word',
+  'exportField.phonetic': 'Phonetic',
+  'exportField.grammar': 'Grammar',
+  'exportField.definition': 'Definition',
+  'exportField.examples': 'Examples',
+  'exportField.image': 'Image',
+  'import.title': 'Import Words',
+  'import.subtitle': 'One word per line, CSV, or JSON.',
+  'import.chooseFile': 'Choose file',
+  'import.withImages': 'Generate images',
+  'import.summary': '{found} found · {fresh} new · {skipped} already saved or queued',
+  'import.parseError': "Couldn't read that JSON. Check the format and try again.",
+  'import.submit': 'Import words',
+  'import.submitCount': 'Import {count} words',
+  'import.progress': 'Progress {done}/{total}',
+  'import.retryFailed': 'Retry failed',
+  'import.clearFinished': 'Clear finished',
+  'import.retry': 'Retry',
+  'import.pending': 'Pending',
+  'import.running': 'Running',
+  'import.done': 'Done',
+  'import.failed': 'Failed',
+  'storage.used': '{used} of {quota} used',
+  'storage.wordList': 'Word list: {size} in localStorage',
+
+  'export.count': '{count} words',
+  'export.deckCount': '{deck} · {count} words',
+
+  'imageEditor.findingSoundAlike': 'Finding a word in {language} that sounds like it...',
+  'imageEditor.soundAlike': 'Sound-alike: {keyword}',
+  'imageEditor.sceneFailed': "Couldn't find a sound-alike. Try another style or write the prompt yourself.",
+
+  'storage.wordbookFull': "Your Wordbook couldn't be saved: browser storage is full.",
+  'storage.imageFull': "Couldn't store the image: browser storage may be full.",
+  'chat.stopped': 'Stopped.',
+  'chat.failed': "I couldn't answer that at the moment.",
+
+  'grammar.article': 'Article',
+  'grammar.gender': 'Gender',
+  'grammar.measureWord': 'Measure word',
+  'grammar.reading': 'Reading',
+  'grammar.romanization': 'Romanization',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const es: Messages = {
+  'nav.reader': 'Lector',
+  'nav.review': 'Repaso',
+  'nav.wordbook': 'Vocabulario',
+  'header.iSpeak': 'Hablo',
+  'header.explainIn': 'Explicar en',
+
+  'hero.title': 'Palabras,',
+  'hero.titleAccent': 'reinventadas.',
+  'hero.subtitle': 'Escribe una palabra y recibe una explicación rica y visual en tu idioma.',
+
+  'search.modeWord': 'Palabra',
+  'search.modeSentence': 'Frase',
+  'search.placeholderWord': 'Busca una palabra...',
+  'search.placeholderSentence': 'Pega una frase o expresión...',
+  'search.submitWord': 'Buscar',
+  'search.submitSentence': 'Analizar',
+  'search.recent': 'Búsquedas recientes',
+  'search.clear': 'Borrar',
+  'search.sourceSaved': 'Vocabulario',
+  'search.sourceRecent': 'Reciente',
+  'search.didYouMean': '«{term}» no parece una palabra. ¿Quisiste decir:',
+  'search.searchAnyway': 'Buscar «{term}» de todos modos',
+
+  'word.pronounce': 'Pronunciar',
+  'word.voice': 'Voz',
+  'word.slow': 'Lento',
+  'word.slowTitle': 'Reproducir la voz despacio',
+  'word.refresh': 'Actualizar',
+  'word.cachedRefresh': 'En caché · Actualizar',
+  'word.refreshTitle': 'Generar una definición y una imagen nuevas',
+  'word.definition': 'Definición ({language})',
+  'word.illustrateSense': 'Ilustrar este sentido',
+  'word.originalDefinition': 'Definición en el idioma original',
+  'word.vibeCheck': 'Tono y contexto',
+  'word.usageExamples': 'Ejemplos de uso',
+  'word.forms': 'Formas',
+  'word.showForms': 'Ver formas',
+  'word.formsHint': 'Conjugaciones, plurales y comparativos de «{word}».',
+  'word.speakingPractice': 'Práctica oral',
+  'word.origin': 'Origen e historia',
+  'word.visualization': 'Visualización IA',
+  'word.saved': 'Guardada',
+  'word.saveSense': 'Guardar sentido {n}',
+  'word.save': 'Guardar en vocabulario',
+  'word.generatingArt': 'Generando imagen...',
+  'word.aiGenerated': 'Generado por IA',
+  'word.noImage': 'No hay imagen disponible',
+  'word.feedback': 'Opinión',
+  'word.generateVariation': 'Generar variación',
+
+  'gems.title': 'Joyas ocultas',
+  'gems.subtitle': 'Curiosidades, jerga y secretos culturales.',
+  'gems.reveal': 'Revelar secretos',
+  'gems.loading': 'Desenterrando...',
+
+  'chat.ask': 'Pregunta a la IA',
+  'chat.title': 'Chat con tutor',
+  'chat.pastConversations': 'Conversaciones anteriores',
+  'chat.discussing': 'Hablando de «{word}»',
+  'chat.noThreads': 'Aún no hay conversaciones guardadas.',
+  'chat.messageCount': '{count} mensajes',
+  'chat.deleteThread': 'Eliminar conversación',
+  'chat.empty': '¿Qué más te gustaría saber?',
+  'chat.promptQuiz': 'Hazme un test.',
+  'chat.promptFormal': '¿Esta palabra es formal?',
+  'chat.promptTranslate': 'Traduce una frase.',
+  'chat.regenerate': 'Regenerar',
+  'chat.saveNote': 'Guardar como nota',
+  'chat.noteAdded': 'Añadida a las notas',
+  'chat.noteTitle': 'Adjuntar esta respuesta a la palabra en tu vocabulario',
+  'chat.noteTitleUnsaved': 'Primero guarda la palabra en tu vocabulario',
+  'chat.placeholder': 'Escribe un mensaje...',
+  'chat.stop': 'Detener',
+
+  'wordbook.title': 'Mi vocabulario',
+  'wordbook.count': '{count} palabras guardadas',
+  'wordbook.import': 'Importar',
+  'wordbook.importing': 'Importando {progress}',
+  'wordbook.export': 'Exportar',
+  'wordbook.reviewDue': 'Repasar {count} pendientes',
+  'wordbook.quiz': 'Test',
+  'wordbook.story': 'Practicar con una historia IA',
+  'wordbook.empty': 'Aún no has guardado palabras.',
+  'wordbook.startSearching': 'Empieza a buscar',
+  'wordbook.or': 'o',
+  'wordbook.importList': 'importa una lista de palabras',
+  'wordbook.remove': 'Quitar del vocabulario',
+  'wordbook.open': 'Abrir la palabra y su chat',
+
+  'review.title': 'Repaso',
+  'review.due': '{count} tarjetas pendientes',
+  'reader.title': 'Lector',
+  'reader.subtitle': 'Pega un texto; se resaltan las palabras que no están en tu vocabulario',
+  'reader.saving': 'Guardando palabras {progress}',
+  'quiz.title': 'Test',
+  'quiz.subtitle': 'Creado con tus {count} palabras guardadas',
+
+  'sentence.literal': 'Literal',
+  'sentence.natural': 'Natural',
+  'sentence.wordByWord': 'Palabra por palabra',
+  'sentence.open': 'Abrir «{word}»',
+
+  'practice.example': 'Ejemplo {n}',
+  'practice.record': 'Grabar',
+  'practice.recordAgain': 'Grabar de nuevo',
+  'practice.stop': 'Parar',
+  'practice.assess': 'Evaluar',
+  'practice.heard': 'Se oyó:',
+  'practice.unsupported': 'Este navegador no permite grabar audio.',
+  'practice.micError': 'No se pudo acceder al micrófono. Revisa los permisos del navegador.',
+  'practice.assessError': 'No se pudo evaluar la grabación. Inténtalo de nuevo.',
+
+  'forms.conjugation': 'Conjugación',
+  'forms.declension': 'Declinación',
+  'forms.comparison': 'Comparación',
+  'forms.none': 'Sin flexión',
+  'forms.invariable': 'Esta palabra no cambia de forma.',
+
+  'speak.listen': 'Escuchar',
+
+  'wordbook.allDecks': 'Todas',
+  'wordbook.edit': 'Editar mazo, etiquetas y notas',
+  'editor.title': 'Mazo, etiquetas y notas',
+  'editor.deck': 'Mazo',
+  'editor.deckPlaceholder': 'p. ej. Viajes',
+  'editor.tags': 'Etiquetas',
+  'editor.tagsPlaceholder': 'comida, verbos, capítulo 3',
+  'editor.notes': 'Notas',
+  'editor.save': 'Guardar',
+  'editor.cancel': 'Cancelar',
+
+  'filter.search': 'Busca palabras, definiciones y notas...',
+  'filter.allLanguages': 'Todos los idiomas',
+  'filter.anyTime': 'Cualquier fecha',
+  'filter.pastWeek': 'Última semana',
+  'filter.pastMonth': 'Último mes',
+  'filter.pastYear': 'Último año',
+  'filter.allStatuses': 'Cualquier estado',
+  'filter.statusNew': 'Nuevas',
+  'filter.statusDue': 'Pendientes',
+  'filter.statusLearning': 'Aprendiendo',
+  'filter.statusMastered': 'Dominadas',
+  'sort.newest': 'Más recientes',
+  'sort.oldest': 'Más antiguas',
+  'sort.alphabetical': 'A–Z',
+  'sort.weakest': 'Peor recordadas',
+  'filter.clear': 'Quitar filtros',
+  'filter.noMatches': 'Ninguna palabra coincide con estos filtros.',
+  'filter.showing': '{count} de {total}',
+
+  'nav.progress': 'Progreso',
+  'stats.title': 'Progreso',
+  'stats.subtitle': 'Tu estudio en los últimos 30 días',
+  'stats.empty': 'Busca y guarda algunas palabras para empezar a seguir tu progreso.',
+  'stats.wordsSaved': 'Palabras guardadas',
+  'stats.currentStreak': 'Racha actual',
+  'stats.longestStreak': 'Racha más larga',
+  'stats.days': '{count} d',
+  'stats.accuracy': 'Acierto en repasos',
+  'stats.savedPerDay': 'Palabras guardadas por día',
+  'stats.lookups': '{count} búsquedas en los últimos 30 días',
+  'stats.accuracyPerDay': 'Acierto en repasos por día',
+  'stats.noReviews': 'Sin repasos en los últimos 30 días.',
+  'stats.byLanguage': 'Por idioma',
+  'stats.byPartOfSpeech': 'Por categoría gramatical',
+  'stats.unspecified': 'Sin especificar',
+  'stats.mostMissed': 'Más falladas en cuestionarios',
+  'stats.noMisses': 'Aún no hay palabras falladas. Haz un cuestionario o una historia para verlas aquí.',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'Tus estilos',
+  'imageStyle.minimal': 'Minimalista',
+  'imageStyle.abstract': 'Abstracto',
+  'imageStyle.scenario': 'Escena real',
+
+  'imageStyle.photo': 'Foto',
+  'imageStyle.watercolor': 'Acuarela',
+  'imageStyle.comic': 'Cómic',
+  'imageStyle.mnemonic': 'Escena mnemotécnica',
+  'word.customizeImage': 'Personalizar imagen',
+  'imageEditor.title': 'Elige un estilo y edita la instrucción antes de generar',
+  'imageEditor.style': 'Estilo',
+  'imageEditor.basedOn': 'Basada en',
+  'imageEditor.wordOnly': 'La palabra en sí',
+  'imageEditor.prompt': 'Instrucción',
+  'imageEditor.reset': 'Reconstruir instrucción',
+  'imageEditor.edited': 'Editada a mano. Tu texto se envía tal cual.',
+  'imageEditor.generate': 'Generar imagen',
+
+  'common.backToWordbook': 'Volver al vocabulario',
+  'review.complete': 'Sesión terminada: {count} repasos hechos.',
+  'review.nothingDue': 'No hay nada pendiente de repaso ahora mismo.',
+  'review.remaining': 'Quedan {count}',
+  'review.reviewed': '{count} repasadas',
+  'review.showDefinition': 'Mostrar definición',
+  'grade.again': 'Otra vez',
+  'grade.hard': 'Difícil',
+  'grade.good': 'Bien',
+  'grade.easy': 'Fácil',
+  'exercise.definition': 'Elige la palabra',
+  'exercise.synonym': 'Elige el sinónimo',
+  'exercise.example': 'Completa la frase',
+  'exercise.match': 'Relaciona imágenes',
+  'quiz.askDefinition': '¿Qué palabra corresponde a esta definición?',
+  'quiz.askSynonym': '¿Qué palabra tiene el significado más parecido a «{word}»?',
+  'quiz.askExample': '¿Qué palabra completa la frase?',
+  'quiz.correct': '¡Correcto!',
+  'quiz.answerWas': 'La respuesta era «{answer}».',
+  'quiz.next': 'Siguiente',
+  'quiz.matchHint': 'Elige una palabra y luego la imagen que le corresponde.',
+  'quiz.pictureAlt': 'Imagen del test',
+  'quiz.check': 'Comprobar',
+  'quiz.needWords': 'Guarda al menos {count} palabras para crear un test.',
+  'quiz.complete': 'Test terminado',
+  'quiz.missedMoved': 'Las palabras falladas suben en tu cola de repaso:',
+  'quiz.newQuiz': 'Nuevo test',
+  'quiz.end': 'Terminar test',
+  'story.reveal': 'Mostrar',
+  'story.test': 'Ponme a prueba',
+  'story.revealHint': 'Haz clic en los huecos subrayados para ver las palabras.',
+  'story.score': '{score} / {total} correctas',
+  'story.missedMoved': 'Las palabras falladas suben en tu cola de repaso.',
+  'story.tryAgain': 'Intentar de nuevo',
+  'story.check': 'Comprobar respuestas',
+  'reader.placeholder': 'Pega un artículo o un fragmento que estés leyendo...',
+  'reader.read': 'Leer',
+  'reader.status': '{count} palabras nuevas · pasa el ratón para ver una glosa, haz clic para seleccionar',
+  'reader.withImages': 'Con imágenes',
+  'reader.clear': 'Borrar',
+  'reader.selectAll': 'Seleccionar todo',
+  'reader.save': 'Guardar en el vocabulario',
+  'reader.saveCount': 'Guardar {count} en el vocabulario',
+  'reader.another': 'Leer otro fragmento',
+  'reader.queued': 'Palabras en cola para tu vocabulario: {count}',
+  'export.title': 'Exportar vocabulario',
+  'export.layout': 'Diseño de la tarjeta',
+  'export.front': 'Anverso',
+  'export.back': 'Reverso',
+  'export.off': 'No',
+  'export.imagesAnkiOnly': 'Las imágenes solo se incluyen en los paquetes de Anki.',
+  'export.failed': 'No se pudo exportar. Inténtalo de nuevo.',
+  'export.download': 'Descargar',
+  'exportField.word': 'Palabra',
+  'exportField.phonetic': 'Fonética',
+  'exportField.grammar': 'Gramática',
+  'exportField.definition': 'Definición',
+  'exportField.examples': 'Ejemplos',
+  'exportField.image': 'Imagen',
+  'import.title': 'Importar palabras',
+  'import.subtitle': 'Una palabra por línea, CSV o JSON.',
+  'import.chooseFile': 'Elegir archivo',
+  'import.withImages': 'Generar imágenes',
+  'import.summary': '{found} encontradas · {fresh} nuevas · {skipped} ya guardadas o en cola',
+  'import.parseError': 'No se pudo leer ese JSON. Revisa el formato e inténtalo de nuevo.',
+  'import.submit': 'Importar palabras',
+  'import.submitCount': 'Importar {count} palabras',
+  'import.progress': 'Progreso {done}/{total}',
+  'import.retryFailed': 'Reintentar fallidas',
+  'import.clearFinished': 'Quitar terminadas',
+  'import.retry': 'Reintentar',
+  'import.pending': 'Pendiente',
+  'import.running': 'En curso',
+  'import.done': 'Hecho',
+  'import.failed': 'Error',
+  'storage.used': '{used} de {quota} usados',
+  'storage.wordList': 'Lista de palabras: {size} en localStorage',
+
+  'export.count': '{count} palabras',
+  'export.deckCount': '{deck} · {count} palabras',
+
+  'imageEditor.findingSoundAlike': 'Buscando una palabra en {language} que suene parecido...',
+  'imageEditor.soundAlike': 'Suena como: {keyword}',
+  'imageEditor.sceneFailed': 'No se encontró una palabra parecida. Prueba otro estilo o escribe tú el prompt.',
+
+  'storage.wordbookFull': 'No se pudo guardar tu vocabulario: el almacenamiento del navegador está lleno.',
+  'storage.imageFull': 'No se pudo guardar la imagen: puede que el almacenamiento del navegador esté lleno.',
+  'chat.stopped': 'Detenido.',
+  'chat.failed': 'Ahora mismo no puedo responder a eso.',
+
+  'grammar.article': 'Artículo',
+  'grammar.gender': 'Género',
+  'grammar.measureWord': 'Clasificador',
+  'grammar.reading': 'Lectura',
+  'grammar.romanization': 'Romanización',
+};
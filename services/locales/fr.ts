@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const fr: Messages = {
+  'nav.reader': 'Lecteur',
+  'nav.review': 'Révision',
+  'nav.wordbook': 'Lexique',
+  'header.iSpeak': 'Je parle',
+  'header.explainIn': 'Expliquer en',
+
+  'hero.title': 'Les mots,',
+  'hero.titleAccent': 'réinventés.',
+  'hero.subtitle': "Saisissez un mot pour obtenir une explication riche et illustrée dans votre langue.",
+
+  'search.modeWord': 'Mot',
+  'search.modeSentence': 'Phrase',
+  'search.placeholderWord': 'Rechercher un mot...',
+  'search.placeholderSentence': 'Collez une phrase ou une expression...',
+  'search.submitWord': 'Rechercher',
+  'search.submitSentence': 'Analyser',
+  'search.recent': 'Recherches récentes',
+  'search.clear': 'Effacer',
+  'search.sourceSaved': 'Lexique',
+  'search.sourceRecent': 'Récent',
+  'search.didYouMean': "« {term} » ne ressemble pas à un mot. Vouliez-vous dire :",
+  'search.searchAnyway': 'Rechercher « {term} » quand même',
+
+  'word.pronounce': 'Prononcer',
+  'word.voice': 'Voix',
+  'word.slow': 'Lent',
+  'word.slowTitle': 'Lire plus lentement',
+  'word.refresh': 'Actualiser',
+  'word.cachedRefresh': 'En cache · Actualiser',
+  'word.refreshTitle': 'Générer une nouvelle définition et une nouvelle image',
+  'word.definition': 'Définition ({language})',
+  'word.illustrateSense': 'Illustrer ce sens',
+  'word.originalDefinition': "Définition dans la langue d'origine",
+  'word.vibeCheck': 'Ton et contexte',
+  'word.usageExamples': "Exemples d'emploi",
+  'word.forms': 'Formes',
+  'word.showForms': 'Voir les formes',
+  'word.formsHint': 'Conjugaisons, pluriels et comparatifs de « {word} ».',
+  'word.speakingPractice': "Entraînement à l'oral",
+  'word.origin': 'Origine et histoire',
+  'word.visualization': 'Visualisation IA',
+  'word.saved': 'Enregistré',
+  'word.saveSense': 'Enregistrer le sens {n}',
+  'word.save': 'Ajouter au lexique',
+  'word.generatingArt': "Création de l'image...",
+  'word.aiGenerated': 'Généré par IA',
+  'word.noImage': 'Aucune image disponible',
+  'word.feedback': 'Avis',
+  'word.generateVariation': 'Générer une variante',
+
+  'gems.title': 'Pépites cachées',
+  'gems.subtitle': 'Anecdotes, argot et secrets culturels.',
+  'gems.reveal': 'Révéler les secrets',
+  'gems.loading': 'Exploration...',
+
+  'chat.ask': "Demander à l'IA",
+  'chat.title': 'Chat avec le tuteur',
+  'chat.pastConversations': 'Conversations passées',
+  'chat.discussing': 'À propos de « {word} »',
+  'chat.noThreads': 'Aucune conversation enregistrée.',
+  'chat.messageCount': '{count} messages',
+  'chat.deleteThread': 'Supprimer la conversation',
+  'chat.empty': "Que voulez-vous savoir d'autre ?",
+  'chat.promptQuiz': 'Fais-moi un quiz.',
+  'chat.promptFormal': 'Ce mot est-il soutenu ?',
+  'chat.promptTranslate': 'Traduis une phrase.',
+  'chat.regenerate': 'Régénérer',
+  'chat.saveNote': 'Enregistrer comme note',
+  'chat.noteAdded': 'Ajouté aux notes',
+  'chat.noteTitle': 'Joindre cette réponse au mot dans votre lexique',
+  'chat.noteTitleUnsaved': "Ajoutez d'abord le mot à votre lexique",
+  'chat.placeholder': 'Écrivez un message...',
+  'chat.stop': 'Arrêter',
+
+  'wordbook.title': 'Mon lexique',
+  'wordbook.count': '{count} mots enregistrés',
+  'wordbook.import': 'Importer',
+  'wordbook.importing': 'Import {progress}',
+  'wordbook.export': 'Exporter',
+  'wordbook.reviewDue': 'Réviser {count} à revoir',
+  'wordbook.quiz': 'Quiz',
+  'wordbook.story': "S'entraîner avec une histoire IA",
+  'wordbook.empty': 'Aucun mot enregistré pour le moment.',
+  'wordbook.startSearching': 'Commencer une recherche',
+  'wordbook.or': 'ou',
+  'wordbook.importList': 'importer une liste de mots',
+  'wordbook.remove': 'Retirer du lexique',
+  'wordbook.open': 'Ouvrir le mot et son chat',
+
+  'review.title': 'Révision',
+  'review.due': '{count} cartes à revoir',
+  'reader.title': 'Lecteur',
+  'reader.subtitle': 'Collez un texte ; les mots absents de votre lexique sont surlignés',
+  'reader.saving': 'Enregistrement des mots {progress}',
+  'quiz.title': 'Quiz',
+  'quiz.subtitle': 'Créé à partir de vos {count} mots enregistrés',
+
+  'sentence.literal': 'Littéral',
+  'sentence.natural': 'Naturel',
+  'sentence.wordByWord': 'Mot à mot',
+  'sentence.open': 'Ouvrir « {word} »',
+
+  'practice.example': 'Exemple {n}',
+  'practice.record': 'Enregistrer',
+  'practice.recordAgain': 'Recommencer',
+  'practice.stop': 'Arrêter',
+  'practice.assess': 'Évaluer',
+  'practice.heard': 'Entendu :',
+  'practice.unsupported': "L'enregistrement n'est pas pris en charge par ce navigateur.",
+  'practice.micError': "Impossible d'accéder au micro. Vérifiez les autorisations du navigateur.",
+  'practice.assessError': "Impossible d'évaluer cet enregistrement. Réessayez.",
+
+  'forms.conjugation': 'Conjugaison',
+  'forms.declension': 'Déclinaison',
+  'forms.comparison': 'Comparaison',
+  'forms.none': 'Invariable',
+  'forms.invariable': 'Ce mot ne change pas de forme.',
+
+  'speak.listen': 'Écouter',
+
+  'wordbook.allDecks': 'Tous les mots',
+  'wordbook.edit': 'Modifier le paquet, les étiquettes et les notes',
+  'editor.title': 'Paquet, étiquettes et notes',
+  'editor.deck': 'Paquet',
+  'editor.deckPlaceholder': 'ex. Voyage',
+  'editor.tags': 'Étiquettes',
+  'editor.tagsPlaceholder': 'cuisine, verbes, chapitre 3',
+  'editor.notes': 'Notes',
+  'editor.save': 'Enregistrer',
+  'editor.cancel': 'Annuler',
+
+  'filter.search': 'Rechercher mots, définitions et notes...',
+  'filter.allLanguages': 'Toutes les langues',
+  'filter.anyTime': 'Toutes les dates',
+  'filter.pastWeek': '7 derniers jours',
+  'filter.pastMonth': '30 derniers jours',
+  'filter.pastYear': 'Dernière année',
+  'filter.allStatuses': 'Tous les statuts',
+  'filter.statusNew': 'Nouveaux',
+  'filter.statusDue': 'À revoir',
+  'filter.statusLearning': 'En cours',
+  'filter.statusMastered': 'Maîtrisés',
+  'sort.newest': 'Plus récents',
+  'sort.oldest': 'Plus anciens',
+  'sort.alphabetical': 'A–Z',
+  'sort.weakest': 'Moins bien retenus',
+  'filter.clear': 'Effacer les filtres',
+  'filter.noMatches': 'Aucun mot ne correspond à ces filtres.',
+  'filter.showing': '{count} sur {total}',
+
+  'nav.progress': 'Progrès',
+  'stats.title': 'Progrès',
+  'stats.subtitle': 'Votre étude sur les 30 derniers jours',
+  'stats.empty': 'Recherchez et enregistrez quelques mots pour commencer à suivre vos progrès.',
+  'stats.wordsSaved': 'Mots enregistrés',
+  'stats.currentStreak': 'Série actuelle',
+  'stats.longestStreak': 'Plus longue série',
+  'stats.days': '{count} j',
+  'stats.accuracy': 'Réussite en révision',
+  'stats.savedPerDay': 'Mots enregistrés par jour',
+  'stats.lookups': '{count} recherches sur les 30 derniers jours',
+  'stats.accuracyPerDay': 'Réussite en révision par jour',
+  'stats.noReviews': 'Aucune révision sur les 30 derniers jours.',
+  'stats.byLanguage': 'Par langue',
+  'stats.byPartOfSpeech': 'Par nature grammaticale',
+  'stats.unspecified': 'Non précisé',
+  'stats.mostMissed': 'Les plus ratés aux quiz',
+  'stats.noMisses': "Aucun mot raté pour l'instant. Faites un quiz ou une histoire pour les voir ici.",
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'Vos styles',
+  'imageStyle.minimal': 'Minimaliste',
+  'imageStyle.abstract': 'Abstrait',
+  'imageStyle.scenario': 'Scène réelle',
+
+  'imageStyle.photo': 'Photo',
+  'imageStyle.watercolor': 'Aquarelle',
+  'imageStyle.comic': 'Bande dessinée',
+  'imageStyle.mnemonic': 'Scène mnémotechnique',
+  'word.customizeImage': "Personnaliser l'image",
+  'imageEditor.title': 'Choisissez un style et modifiez le prompt avant de générer',
+  'imageEditor.style': 'Style',
+  'imageEditor.basedOn': 'À partir de',
+  'imageEditor.wordOnly': 'Le mot seul',
+  'imageEditor.prompt': 'Prompt',
+  'imageEditor.reset': 'Reconstruire le prompt',
+  'imageEditor.edited': 'Modifié à la main. Votre texte est envoyé tel quel.',
+  'imageEditor.generate': "Générer l'image",
+
+  'common.backToWordbook': 'Retour au carnet',
+  'review.complete': 'Session terminée : {count} révisions faites.',
+  'review.nothingDue': 'Rien à réviser pour le moment.',
+  'review.remaining': '{count} restantes',
+  'review.reviewed': '{count} révisées',
+  'review.showDefinition': 'Afficher la définition',
+  'grade.again': 'À revoir',
+  'grade.hard': 'Difficile',
+  'grade.good': 'Bien',
+  'grade.easy': 'Facile',
+  'exercise.definition': 'Trouver le mot',
+  'exercise.synonym': 'Choisir le synonyme',
+  'exercise.example': 'Compléter la phrase',
+  'exercise.match': 'Associer les images',
+  'quiz.askDefinition': 'Quel mot correspond à cette définition ?',
+  'quiz.askSynonym': 'Quel mot a le sens le plus proche de « {word} » ?',
+  'quiz.askExample': 'Quel mot complète la phrase ?',
+  'quiz.correct': 'Correct !',
+  'quiz.answerWas': 'La réponse était « {answer} ».',
+  'quiz.next': 'Suivant',
+  'quiz.matchHint': "Choisissez un mot, puis l'image qui lui correspond.",
+  'quiz.pictureAlt': 'Image du quiz',
+  'quiz.check': 'Vérifier',
+  'quiz.needWords': 'Enregistrez au moins {count} mots pour créer un quiz.',
+  'quiz.complete': 'Quiz terminé',
+  'quiz.missedMoved': 'Les mots manqués remontent dans votre file de révision :',
+  'quiz.newQuiz': 'Nouveau quiz',
+  'quiz.end': 'Terminer le quiz',
+  'story.reveal': 'Révéler',
+  'story.test': 'Me tester',
+  'story.revealHint': 'Cliquez sur les blancs soulignés pour révéler les mots.',
+  'story.score': '{score} / {total} correctes',
+  'story.missedMoved': 'Les mots manqués remontent dans votre file de révision.',
+  'story.tryAgain': 'Réessayer',
+  'story.check': 'Vérifier les réponses',
+  'reader.placeholder': 'Collez un article ou un passage que vous lisez...',
+  'reader.read': 'Lire',
+  'reader.status': '{count} nouveaux mots · survolez pour une glose, cliquez pour sélectionner',
+  'reader.withImages': 'Avec images',
+  'reader.clear': 'Effacer',
+  'reader.selectAll': 'Tout sélectionner',
+  'reader.save': 'Enregistrer dans le carnet',
+  'reader.saveCount': 'Enregistrer {count} dans le carnet',
+  'reader.another': 'Lire un autre passage',
+  'reader.queued': 'Mots en attente pour votre carnet : {count}',
+  'export.title': 'Exporter le carnet',
+  'export.layout': 'Mise en page des cartes',
+  'export.front': 'Recto',
+  'export.back': 'Verso',
+  'export.off': 'Non',
+  'export.imagesAnkiOnly': 'Les images ne sont incluses que dans les paquets Anki.',
+  'export.failed': "L'export a échoué. Veuillez réessayer.",
+  'export.download': 'Télécharger',
+  'exportField.word': 'Mot',
+  'exportField.phonetic': 'Phonétique',
+  'exportField.grammar': 'Grammaire',
+  'exportField.definition': 'Définition',
+  'exportField.examples': 'Exemples',
+  'exportField.image': 'Image',
+  'import.title': 'Importer des mots',
+  'import.subtitle': 'Un mot par ligne, CSV ou JSON.',
+  'import.chooseFile': 'Choisir un fichier',
+  'import.withImages': 'Générer des images',
+  'import.summary': '{found} trouvés · {fresh} nouveaux · {skipped} déjà enregistrés ou en attente',
+  'import.parseError': 'Impossible de lire ce JSON. Vérifiez le format et réessayez.',
+  'import.submit': 'Importer des mots',
+  'import.submitCount': 'Importer {count} mots',
+  'import.progress': 'Progression {done}/{total}',
+  'import.retryFailed': 'Relancer les échecs',
+  'import.clearFinished': 'Effacer les terminés',
+  'import.retry': 'Relancer',
+  'import.pending': 'En attente',
+  'import.running': 'En cours',
+  'import.done': 'Terminé',
+  'import.failed': 'Échec',
+  'storage.used': '{used} sur {quota} utilisés',
+  'storage.wordList': 'Liste de mots : {size} dans localStorage',
+
+  'export.count': '{count} mots',
+  'export.deckCount': '{deck} · {count} mots',
+
+  'imageEditor.findingSoundAlike': "Recherche d'un mot en {language} qui lui ressemble à l'oreille...",
+  'imageEditor.soundAlike': 'Sonne comme : {keyword}',
+  'imageEditor.sceneFailed': 'Aucun mot ressemblant trouvé. Essayez un autre style ou écrivez le prompt vous-même.',
+
+  'storage.wordbookFull': "Impossible d'enregistrer votre carnet : le stockage du navigateur est plein.",
+  'storage.imageFull': "Impossible d'enregistrer l'image : le stockage du navigateur est peut-être plein.",
+  'chat.stopped': 'Arrêté.',
+  'chat.failed': 'Je ne peux pas répondre à cela pour le moment.',
+
+  'grammar.article': 'Article',
+  'grammar.gender': 'Genre',
+  'grammar.measureWord': 'Classificateur',
+  'grammar.reading': 'Lecture',
+  'grammar.romanization': 'Romanisation',
+};
@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const hi: Messages = {
+  'nav.reader': 'रीडर',
+  'nav.review': 'दोहराव',
+  'nav.wordbook': 'शब्दकोश',
+  'header.iSpeak': 'मेरी भाषा',
+  'header.explainIn': 'समझाने की भाषा',
+
+  'hero.title': 'शब्द,',
+  'hero.titleAccent': 'नए अंदाज़ में।',
+  'hero.subtitle': 'कोई शब्द लिखें और अपनी भाषा में उसकी विस्तृत, चित्रमय व्याख्या पाएँ।',
+
+  'search.modeWord': 'शब्द',
+  'search.modeSentence': 'वाक्य',
+  'search.placeholderWord': 'कोई शब्द खोजें...',
+  'search.placeholderSentence': 'कोई वाक्य या मुहावरा चिपकाएँ...',
+  'search.submitWord': 'खोजें',
+  'search.submitSentence': 'विश्लेषण करें',
+  'search.recent': 'हाल की खोजें',
+  'search.clear': 'साफ़ करें',
+  'search.sourceSaved': 'शब्दकोश',
+  'search.sourceRecent': 'हाल में',
+  'search.didYouMean': '"{term}" कोई शब्द नहीं लगता। क्या आपका मतलब था:',
+  'search.searchAnyway': 'फिर भी "{term}" खोजें',
+
+  'word.pronounce': 'उच्चारण',
+  'word.voice': 'आवाज़',
+  'word.slow': 'धीमा',
+  'word.slowTitle': 'धीरे-धीरे चलाएँ',
+  'word.refresh': 'रीफ़्रेश',
+  'word.cachedRefresh': 'कैश्ड · रीफ़्रेश',
+  'word.refreshTitle': 'नई परिभाषा और चित्र बनाएँ',
+  'word.definition': 'परिभाषा ({language})',
+  'word.illustrateSense': 'इस अर्थ का चित्र बनाएँ',
+  'word.originalDefinition': 'मूल भाषा में परिभाषा',
+  'word.vibeCheck': 'लहजा और संदर्भ',
+  'word.usageExamples': 'प्रयोग के उदाहरण',
+  'word.forms': 'रूप',
+  'word.showForms': 'रूप दिखाएँ',
+  'word.formsHint': '"{word}" के धातु रूप, बहुवचन और तुलनात्मक रूप।',
+  'word.speakingPractice': 'बोलने का अभ्यास',
+  'word.origin': 'उत्पत्ति और इतिहास',
+  'word.visualization': 'AI चित्रण',
+  'word.saved': 'सहेजा गया',
+  'word.saveSense': 'अर्थ {n} सहेजें',
+  'word.save': 'शब्दकोश में सहेजें',
+  'word.generatingArt': 'चित्र बन रहा है...',
+  'word.aiGenerated': 'AI द्वारा निर्मित',
+  'word.noImage': 'कोई चित्र उपलब्ध नहीं',
+  'word.feedback': 'प्रतिक्रिया',
+  'word.generateVariation': 'नया संस्करण बनाएँ',
+
+  'gems.title': 'छिपे रत्न',
+  'gems.subtitle': 'रोचक तथ्य, बोलचाल और सांस्कृतिक रहस्य।',
+  'gems.reveal': 'रहस्य खोलें',
+  'gems.loading': 'खोज जारी है...',
+
+  'chat.ask': 'AI से पूछें',
+  'chat.title': 'ट्यूटर चैट',
+  'chat.pastConversations': 'पिछली बातचीत',
+  'chat.discussing': '"{word}" पर चर्चा',
+  'chat.noThreads': 'अभी तक कोई बातचीत सहेजी नहीं गई।',
+  'chat.messageCount': '{count} संदेश',
+  'chat.deleteThread': 'बातचीत हटाएँ',
+  'chat.empty': 'आप और क्या जानना चाहेंगे?',
+  'chat.promptQuiz': 'मुझसे एक क्विज़ लो।',
+  'chat.promptFormal': 'क्या यह शब्द औपचारिक है?',
+  'chat.promptTranslate': 'एक वाक्य का अनुवाद करो।',
+  'chat.regenerate': 'फिर से बनाएँ',
+  'chat.saveNote': 'नोट के रूप में सहेजें',
+  'chat.noteAdded': 'नोट्स में जोड़ा गया',
+  'chat.noteTitle': 'इस उत्तर को शब्दकोश के शब्द के साथ जोड़ें',
+  'chat.noteTitleUnsaved': 'पहले शब्द को अपने शब्दकोश में सहेजें',
+  'chat.placeholder': 'संदेश लिखें...',
+  'chat.stop': 'रोकें',
+
+  'wordbook.title': 'मेरा शब्दकोश',
+  'wordbook.count': '{count} सहेजे गए शब्द',
+  'wordbook.import': 'आयात',
+  'wordbook.importing': 'आयात हो रहा है {progress}',
+  'wordbook.export': 'निर्यात',
+  'wordbook.reviewDue': '{count} बाकी दोहराएँ',
+  'wordbook.quiz': 'क्विज़',
+  'wordbook.story': 'AI कहानी से अभ्यास करें',
+  'wordbook.empty': 'अभी तक कोई शब्द सहेजा नहीं गया।',
+  'wordbook.startSearching': 'खोजना शुरू करें',
+  'wordbook.or': 'या',
+  'wordbook.importList': 'शब्द सूची आयात करें',
+  'wordbook.remove': 'शब्दकोश से हटाएँ',
+  'wordbook.open': 'शब्द और उसकी चैट खोलें',
+
+  'review.title': 'दोहराव',
+  'review.due': '{count} कार्ड बाकी',
+  'reader.title': 'रीडर',
+  'reader.subtitle': 'कोई अंश चिपकाएँ; जो शब्द आपके शब्दकोश में नहीं हैं वे हाइलाइट होंगे',
+  'reader.saving': 'शब्द सहेजे जा रहे हैं {progress}',
+  'quiz.title': 'क्विज़',
+  'quiz.subtitle': 'आपके {count} सहेजे गए शब्दों से बना',
+
+  'sentence.literal': 'शाब्दिक',
+  'sentence.natural': 'स्वाभाविक',
+  'sentence.wordByWord': 'शब्द-दर-शब्द',
+  'sentence.open': '"{word}" खोलें',
+
+  'practice.example': 'उदाहरण {n}',
+  'practice.record': 'रिकॉर्ड करें',
+  'practice.recordAgain': 'फिर से रिकॉर्ड करें',
+  'practice.stop': 'रोकें',
+  'practice.assess': 'मूल्यांकन करें',
+  'practice.heard': 'सुना गया:',
+  'practice.unsupported': 'यह ब्राउज़र रिकॉर्डिंग का समर्थन नहीं करता।',
+  'practice.micError': 'माइक्रोफ़ोन तक पहुँच नहीं मिली। ब्राउज़र की अनुमतियाँ जाँचें।',
+  'practice.assessError': 'इस रिकॉर्डिंग का मूल्यांकन नहीं हो सका। फिर से कोशिश करें।',
+
+  'forms.conjugation': 'धातु रूप',
+  'forms.declension': 'कारक रूप',
+  'forms.comparison': 'तुलना',
+  'forms.none': 'अविकारी',
+  'forms.invariable': 'इस शब्द का रूप नहीं बदलता।',
+
+  'speak.listen': 'सुनें',
+
+  'wordbook.allDecks': 'सभी शब्द',
+  'wordbook.edit': 'डेक, टैग और नोट्स संपादित करें',
+  'editor.title': 'डेक, टैग और नोट्स',
+  'editor.deck': 'डेक',
+  'editor.deckPlaceholder': 'जैसे यात्रा',
+  'editor.tags': 'टैग',
+  'editor.tagsPlaceholder': 'भोजन, क्रियाएँ, अध्याय 3',
+  'editor.notes': 'नोट्स',
+  'editor.save': 'सहेजें',
+  'editor.cancel': 'रद्द करें',
+
+  'filter.search': 'शब्द, परिभाषाएँ और नोट्स खोजें...',
+  'filter.allLanguages': 'सभी भाषाएँ',
+  'filter.anyTime': 'कभी भी',
+  'filter.pastWeek': 'पिछला सप्ताह',
+  'filter.pastMonth': 'पिछला महीना',
+  'filter.pastYear': 'पिछला साल',
+  'filter.allStatuses': 'कोई भी स्थिति',
+  'filter.statusNew': 'नए',
+  'filter.statusDue': 'बाकी',
+  'filter.statusLearning': 'सीख रहे हैं',
+  'filter.statusMastered': 'महारत',
+  'sort.newest': 'नवीनतम',
+  'sort.oldest': 'सबसे पुराने',
+  'sort.alphabetical': 'वर्णानुक्रम',
+  'sort.weakest': 'सबसे कमज़ोर याद',
+  'filter.clear': 'फ़िल्टर हटाएँ',
+  'filter.noMatches': 'इन फ़िल्टरों से कोई शब्द मेल नहीं खाता।',
+  'filter.showing': '{total} में से {count}',
+
+  'nav.progress': 'प्रगति',
+  'stats.title': 'प्रगति',
+  'stats.subtitle': 'पिछले 30 दिनों में आपकी पढ़ाई',
+  'stats.empty': 'प्रगति ट्रैक करने के लिए कुछ शब्द खोजें और सहेजें।',
+  'stats.wordsSaved': 'सहेजे गए शब्द',
+  'stats.currentStreak': 'मौजूदा सिलसिला',
+  'stats.longestStreak': 'सबसे लंबा सिलसिला',
+  'stats.days': '{count} दिन',
+  'stats.accuracy': 'दोहराव सटीकता',
+  'stats.savedPerDay': 'प्रति दिन सहेजे गए शब्द',
+  'stats.lookups': 'पिछले 30 दिनों में {count} खोजें',
+  'stats.accuracyPerDay': 'प्रति दिन दोहराव सटीकता',
+  'stats.noReviews': 'पिछले 30 दिनों में कोई दोहराव नहीं।',
+  'stats.byLanguage': 'भाषा के अनुसार',
+  'stats.byPartOfSpeech': 'शब्द-भेद के अनुसार',
+  'stats.unspecified': 'अनिर्दिष्ट',
+  'stats.mostMissed': 'क्विज़ में सबसे ज़्यादा चूके',
+  'stats.noMisses': 'अभी तक कोई चूका हुआ शब्द नहीं। उन्हें यहाँ देखने के लिए क्विज़ या कहानी करें।',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'आपकी शैलियाँ',
+  'imageStyle.minimal': 'सादगीपूर्ण',
+  'imageStyle.abstract': 'अमूर्त',
+  'imageStyle.scenario': 'वास्तविक दृश्य',
+
+  'imageStyle.photo': 'फ़ोटो',
+  'imageStyle.watercolor': 'जलरंग',
+  'imageStyle.comic': 'कॉमिक',
+  'imageStyle.mnemonic': 'याद रखने वाला दृश्य',
+  'word.customizeImage': 'चित्र अनुकूलित करें',
+  'imageEditor.title': 'बनाने से पहले शैली चुनें और प्रॉम्प्ट संपादित करें',
+  'imageEditor.style': 'शैली',
+  'imageEditor.basedOn': 'आधार',
+  'imageEditor.wordOnly': 'केवल शब्द',
+  'imageEditor.prompt': 'प्रॉम्प्ट',
+  'imageEditor.reset': 'प्रॉम्प्ट फिर से बनाएँ',
+  'imageEditor.edited': 'हाथ से संपादित। आपका पाठ जैसा लिखा है वैसा ही भेजा जाएगा।',
+  'imageEditor.generate': 'चित्र बनाएँ',
+
+  'common.backToWordbook': 'शब्दकोश पर वापस जाएँ',
+  'review.complete': 'सत्र पूरा — {count} दोहराव हो गए।',
+  'review.nothingDue': 'अभी दोहराने के लिए कुछ नहीं है।',
+  'review.remaining': '{count} बाकी',
+  'review.reviewed': '{count} दोहराए गए',
+  'review.showDefinition': 'परिभाषा दिखाएँ',
+  'grade.again': 'फिर से',
+  'grade.hard': 'कठिन',
+  'grade.good': 'अच्छा',
+  'grade.easy': 'आसान',
+  'exercise.definition': 'शब्द चुनें',
+  'exercise.synonym': 'पर्यायवाची चुनें',
+  'exercise.example': 'वाक्य पूरा करें',
+  'exercise.match': 'चित्र मिलाएँ',
+  'quiz.askDefinition': 'कौन-सा शब्द इस परिभाषा से मेल खाता है?',
+  'quiz.askSynonym': 'कौन-सा शब्द "{word}" के अर्थ के सबसे करीब है?',
+  'quiz.askExample': 'कौन-सा शब्द वाक्य पूरा करता है?',
+  'quiz.correct': 'सही!',
+  'quiz.answerWas': 'उत्तर "{answer}" था।',
+  'quiz.next': 'अगला',
+  'quiz.matchHint': 'एक शब्द चुनें, फिर उससे जुड़ा चित्र चुनें।',
+  'quiz.pictureAlt': 'क्विज़ चित्र',
+  'quiz.check': 'जाँचें',
+  'quiz.needWords': 'क्विज़ बनाने के लिए कम से कम {count} शब्द सहेजें।',
+  'quiz.complete': 'क्विज़ पूरी हुई',
+  'quiz.missedMoved': 'छूटे हुए शब्द आपकी दोहराव सूची में ऊपर आ गए हैं:',
+  'quiz.newQuiz': 'नई क्विज़',
+  'quiz.end': 'क्विज़ समाप्त करें',
+  'story.reveal': 'दिखाएँ',
+  'story.test': 'मेरी परीक्षा लें',
+  'story.revealHint': 'शब्द देखने के लिए रेखांकित खाली जगहों पर क्लिक करें।',
+  'story.score': '{total} में से {score} सही',
+  'story.missedMoved': 'छूटे हुए शब्द आपकी दोहराव सूची में ऊपर आ गए हैं।',
+  'story.tryAgain': 'फिर से कोशिश करें',
+  'story.check': 'उत्तर जाँचें',
+  'reader.placeholder': 'जो लेख या अंश आप पढ़ रहे हैं उसे चिपकाएँ...',
+  'reader.read': 'पढ़ें',
+  'reader.status': '{count} नए शब्द · अर्थ के लिए होवर करें, चुनने के लिए क्लिक करें',
+  'reader.withImages': 'चित्रों के साथ',
+  'reader.clear': 'साफ़ करें',
+  'reader.selectAll': 'सभी चुनें',
+  'reader.save': 'शब्दकोश में सहेजें',
+  'reader.saveCount': '{count} शब्दकोश में सहेजें',
+  'reader.another': 'दूसरा अंश पढ़ें',
+  'reader.queued': 'आपके शब्दकोश के लिए कतार में शब्द: {count}',
+  'export.title': 'शब्दकोश निर्यात करें',
+  'export.layout': 'कार्ड लेआउट',
+  'export.front': 'आगे',
+  'export.back': 'पीछे',
+  'export.off': 'बंद',
+  'export.imagesAnkiOnly': 'चित्र केवल Anki पैकेज में शामिल होते हैं।',
+  'export.failed': 'निर्यात विफल रहा। कृपया फिर से कोशिश करें।',
+  'export.download': 'डाउनलोड',
+  'exportField.word': 'शब्द',
+  'exportField.phonetic': 'उच्चारण',
+  'exportField.grammar': 'व्याकरण',
+  'exportField.definition': 'परिभाषा',
+  'exportField.examples': 'उदाहरण',
+  'exportField.image': 'चित्र',
+  'import.title': 'शब्द आयात करें',
+  'import.subtitle': 'हर पंक्ति में एक शब्द, CSV या JSON।',
+  'import.chooseFile': 'फ़ाइल चुनें',
+  'import.withImages': 'चित्र बनाएँ',
+  'import.summary': '{found} मिले · {fresh} नए · {skipped} पहले से सहेजे या कतार में',
+  'import.parseError': 'वह JSON पढ़ा नहीं जा सका। प्रारूप जाँचें और फिर से कोशिश करें।',
+  'import.submit': 'शब्द आयात करें',
+  'import.submitCount': '{count} शब्द आयात करें',
+  'import.progress': 'प्रगति {done}/{total}',
+  'import.retryFailed': 'विफल वाले फिर से करें',
+  'import.clearFinished': 'पूरे हुए हटाएँ',
+  'import.retry': 'फिर से करें',
+  'import.pending': 'प्रतीक्षा में',
+  'import.running': 'चल रहा है',
+  'import.done': 'पूरा',
+  'import.failed': 'विफल',
+  'storage.used': '{quota} में से {used} उपयोग हुआ',
+  'storage.wordList': 'शब्द सूची: localStorage में {size}',
+
+  'export.count': '{count} शब्द',
+  'export.deckCount': '{deck} · {count} शब्द',
+
+  'imageEditor.findingSoundAlike': '{language} में मिलता-जुलता सुनाई देने वाला शब्द खोजा जा रहा है...',
+  'imageEditor.soundAlike': 'मिलती-जुलती ध्वनि: {keyword}',
+  'imageEditor.sceneFailed': 'मिलता-जुलता शब्द नहीं मिला। कोई दूसरी शैली चुनें या प्रॉम्प्ट खुद लिखें।',
+
+  'storage.wordbookFull': 'आपका शब्दकोश सहेजा नहीं जा सका: ब्राउज़र स्टोरेज भर गया है।',
+  'storage.imageFull': 'चित्र सहेजा नहीं जा सका: ब्राउज़र स्टोरेज शायद भर गया है।',
+  'chat.stopped': 'रोक दिया गया।',
+  'chat.failed': 'मैं अभी इसका उत्तर नहीं दे सका।',
+
+  'grammar.article': 'उपपद',
+  'grammar.gender': 'लिंग',
+  'grammar.measureWord': 'परिमाण शब्द',
+  'grammar.reading': 'उच्चारण',
+  'grammar.romanization': 'रोमन लिप्यंतरण',
+};
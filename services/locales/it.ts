@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const it: Messages = {
+  'nav.reader': 'Lettore',
+  'nav.review': 'Ripasso',
+  'nav.wordbook': 'Vocabolario',
+  'header.iSpeak': 'Parlo',
+  'header.explainIn': 'Spiega in',
+
+  'hero.title': 'Parole,',
+  'hero.titleAccent': 'reinventate.',
+  'hero.subtitle': "Inserisci una parola per ottenere una spiegazione ricca e visiva nella tua lingua.",
+
+  'search.modeWord': 'Parola',
+  'search.modeSentence': 'Frase',
+  'search.placeholderWord': 'Cerca una parola...',
+  'search.placeholderSentence': "Incolla una frase o un'espressione...",
+  'search.submitWord': 'Cerca',
+  'search.submitSentence': 'Analizza',
+  'search.recent': 'Ricerche recenti',
+  'search.clear': 'Cancella',
+  'search.sourceSaved': 'Vocabolario',
+  'search.sourceRecent': 'Recente',
+  'search.didYouMean': '«{term}» non sembra una parola. Forse cercavi:',
+  'search.searchAnyway': 'Cerca comunque «{term}»',
+
+  'word.pronounce': 'Pronuncia',
+  'word.voice': 'Voce',
+  'word.slow': 'Lento',
+  'word.slowTitle': 'Riproduci lentamente',
+  'word.refresh': 'Aggiorna',
+  'word.cachedRefresh': 'In cache · Aggiorna',
+  'word.refreshTitle': "Genera una nuova definizione e un'immagine",
+  'word.definition': 'Definizione ({language})',
+  'word.illustrateSense': 'Illustra questo significato',
+  'word.originalDefinition': 'Definizione nella lingua originale',
+  'word.vibeCheck': 'Tono e contesto',
+  'word.usageExamples': "Esempi d'uso",
+  'word.forms': 'Forme',
+  'word.showForms': 'Mostra forme',
+  'word.formsHint': 'Coniugazioni, plurali e comparativi di «{word}».',
+  'word.speakingPractice': 'Pratica orale',
+  'word.origin': 'Origine e storia',
+  'word.visualization': 'Visualizzazione IA',
+  'word.saved': 'Salvata',
+  'word.saveSense': 'Salva significato {n}',
+  'word.save': 'Salva nel vocabolario',
+  'word.generatingArt': 'Creazione immagine...',
+  'word.aiGenerated': "Generato dall'IA",
+  'word.noImage': 'Nessuna immagine disponibile',
+  'word.feedback': 'Feedback',
+  'word.generateVariation': 'Genera variante',
+
+  'gems.title': 'Gemme nascoste',
+  'gems.subtitle': 'Curiosità, gergo e segreti culturali.',
+  'gems.reveal': 'Svela i segreti',
+  'gems.loading': 'Alla scoperta...',
+
+  'chat.ask': "Chiedi all'IA",
+  'chat.title': 'Chat con il tutor',
+  'chat.pastConversations': 'Conversazioni passate',
+  'chat.discussing': 'Parliamo di «{word}»',
+  'chat.noThreads': 'Nessuna conversazione salvata.',
+  'chat.messageCount': '{count} messaggi',
+  'chat.deleteThread': 'Elimina conversazione',
+  'chat.empty': "Cos'altro vorresti sapere?",
+  'chat.promptQuiz': 'Fammi un quiz.',
+  'chat.promptFormal': 'Questa parola è formale?',
+  'chat.promptTranslate': 'Traduci una frase.',
+  'chat.regenerate': 'Rigenera',
+  'chat.saveNote': 'Salva come nota',
+  'chat.noteAdded': 'Aggiunta alle note',
+  'chat.noteTitle': 'Allega questa risposta alla parola nel tuo vocabolario',
+  'chat.noteTitleUnsaved': 'Prima salva la parola nel tuo vocabolario',
+  'chat.placeholder': 'Scrivi un messaggio...',
+  'chat.stop': 'Interrompi',
+
+  'wordbook.title': 'Il mio vocabolario',
+  'wordbook.count': '{count} parole salvate',
+  'wordbook.import': 'Importa',
+  'wordbook.importing': 'Importazione {progress}',
+  'wordbook.export': 'Esporta',
+  'wordbook.reviewDue': 'Ripassa {count} in scadenza',
+  'wordbook.quiz': 'Quiz',
+  'wordbook.story': 'Esercitati con una storia IA',
+  'wordbook.empty': 'Nessuna parola salvata.',
+  'wordbook.startSearching': 'Inizia a cercare',
+  'wordbook.or': 'o',
+  'wordbook.importList': 'importa un elenco di parole',
+  'wordbook.remove': 'Rimuovi dal vocabolario',
+  'wordbook.open': 'Apri la parola e la sua chat',
+
+  'review.title': 'Ripasso',
+  'review.due': '{count} schede da ripassare',
+  'reader.title': 'Lettore',
+  'reader.subtitle': 'Incolla un testo; le parole non presenti nel vocabolario vengono evidenziate',
+  'reader.saving': 'Salvataggio parole {progress}',
+  'quiz.title': 'Quiz',
+  'quiz.subtitle': 'Creato dalle tue {count} parole salvate',
+
+  'sentence.literal': 'Letterale',
+  'sentence.natural': 'Naturale',
+  'sentence.wordByWord': 'Parola per parola',
+  'sentence.open': 'Apri «{word}»',
+
+  'practice.example': 'Esempio {n}',
+  'practice.record': 'Registra',
+  'practice.recordAgain': 'Registra di nuovo',
+  'practice.stop': 'Stop',
+  'practice.assess': 'Valuta',
+  'practice.heard': 'Sentito:',
+  'practice.unsupported': 'Questo browser non supporta la registrazione.',
+  'practice.micError': 'Impossibile accedere al microfono. Controlla i permessi del browser.',
+  'practice.assessError': 'Impossibile valutare la registrazione. Riprova.',
+
+  'forms.conjugation': 'Coniugazione',
+  'forms.declension': 'Declinazione',
+  'forms.comparison': 'Comparazione',
+  'forms.none': 'Invariabile',
+  'forms.invariable': 'Questa parola non cambia forma.',
+
+  'speak.listen': 'Ascolta',
+
+  'wordbook.allDecks': 'Tutte le parole',
+  'wordbook.edit': 'Modifica mazzo, tag e note',
+  'editor.title': 'Mazzo, tag e note',
+  'editor.deck': 'Mazzo',
+  'editor.deckPlaceholder': 'es. Viaggi',
+  'editor.tags': 'Tag',
+  'editor.tagsPlaceholder': 'cibo, verbi, capitolo 3',
+  'editor.notes': 'Note',
+  'editor.save': 'Salva',
+  'editor.cancel': 'Annulla',
+
+  'filter.search': 'Cerca parole, definizioni e note...',
+  'filter.allLanguages': 'Tutte le lingue',
+  'filter.anyTime': 'Qualsiasi data',
+  'filter.pastWeek': 'Ultima settimana',
+  'filter.pastMonth': 'Ultimo mese',
+  'filter.pastYear': 'Ultimo anno',
+  'filter.allStatuses': 'Qualsiasi stato',
+  'filter.statusNew': 'Nuove',
+  'filter.statusDue': 'Da ripassare',
+  'filter.statusLearning': 'In apprendimento',
+  'filter.statusMastered': 'Padroneggiate',
+  'sort.newest': 'Più recenti',
+  'sort.oldest': 'Meno recenti',
+  'sort.alphabetical': 'A–Z',
+  'sort.weakest': 'Ricordate peggio',
+  'filter.clear': 'Cancella filtri',
+  'filter.noMatches': 'Nessuna parola corrisponde a questi filtri.',
+  'filter.showing': '{count} di {total}',
+
+  'nav.progress': 'Progressi',
+  'stats.title': 'Progressi',
+  'stats.subtitle': 'Il tuo studio negli ultimi 30 giorni',
+  'stats.empty': 'Cerca e salva qualche parola per iniziare a seguire i tuoi progressi.',
+  'stats.wordsSaved': 'Parole salvate',
+  'stats.currentStreak': 'Serie attuale',
+  'stats.longestStreak': 'Serie più lunga',
+  'stats.days': '{count} g',
+  'stats.accuracy': 'Precisione nei ripassi',
+  'stats.savedPerDay': 'Parole salvate al giorno',
+  'stats.lookups': '{count} ricerche negli ultimi 30 giorni',
+  'stats.accuracyPerDay': 'Precisione nei ripassi al giorno',
+  'stats.noReviews': 'Nessun ripasso negli ultimi 30 giorni.',
+  'stats.byLanguage': 'Per lingua',
+  'stats.byPartOfSpeech': 'Per categoria grammaticale',
+  'stats.unspecified': 'Non specificato',
+  'stats.mostMissed': 'Più sbagliate nei quiz',
+  'stats.noMisses': 'Nessuna parola sbagliata finora. Fai un quiz o una storia per vederle qui.',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'I tuoi stili',
+  'imageStyle.minimal': 'Minimalista',
+  'imageStyle.abstract': 'Astratto',
+  'imageStyle.scenario': 'Scena reale',
+
+  'imageStyle.photo': 'Foto',
+  'imageStyle.watercolor': 'Acquerello',
+  'imageStyle.comic': 'Fumetto',
+  'imageStyle.mnemonic': 'Scena mnemonica',
+  'word.customizeImage': 'Personalizza immagine',
+  'imageEditor.title': 'Scegli uno stile e modifica il prompt prima di generare',
+  'imageEditor.style': 'Stile',
+  'imageEditor.basedOn': 'Basata su',
+  'imageEditor.wordOnly': 'La parola stessa',
+  'imageEditor.prompt': 'Prompt',
+  'imageEditor.reset': 'Ricostruisci prompt',
+  'imageEditor.edited': "Modificato a mano. Il testo viene inviato così com'è.",
+  'imageEditor.generate': 'Genera immagine',
+
+  'common.backToWordbook': 'Torna al vocabolario',
+  'review.complete': 'Sessione completata: {count} ripassi fatti.',
+  'review.nothingDue': 'Niente da ripassare al momento.',
+  'review.remaining': '{count} rimanenti',
+  'review.reviewed': '{count} ripassate',
+  'review.showDefinition': 'Mostra definizione',
+  'grade.again': 'Ancora',
+  'grade.hard': 'Difficile',
+  'grade.good': 'Bene',
+  'grade.easy': 'Facile',
+  'exercise.definition': 'Scegli la parola',
+  'exercise.synonym': 'Scegli il sinonimo',
+  'exercise.example': 'Completa la frase',
+  'exercise.match': 'Abbina le immagini',
+  'quiz.askDefinition': 'Quale parola corrisponde a questa definizione?',
+  'quiz.askSynonym': 'Quale parola ha il significato più vicino a «{word}»?',
+  'quiz.askExample': 'Quale parola completa la frase?',
+  'quiz.correct': 'Corretto!',
+  'quiz.answerWas': 'La risposta era «{answer}».',
+  'quiz.next': 'Avanti',
+  'quiz.matchHint': "Scegli una parola, poi l'immagine a cui appartiene.",
+  'quiz.pictureAlt': 'Immagine del quiz',
+  'quiz.check': 'Verifica',
+  'quiz.needWords': 'Salva almeno {count} parole per creare un quiz.',
+  'quiz.complete': 'Quiz completato',
+  'quiz.missedMoved': 'Le parole sbagliate sono salite nella coda di ripasso:',
+  'quiz.newQuiz': 'Nuovo quiz',
+  'quiz.end': 'Termina quiz',
+  'story.reveal': 'Mostra',
+  'story.test': 'Mettimi alla prova',
+  'story.revealHint': 'Fai clic sugli spazi sottolineati per mostrare le parole.',
+  'story.score': '{score} / {total} corrette',
+  'story.missedMoved': 'Le parole sbagliate sono salite nella coda di ripasso.',
+  'story.tryAgain': 'Riprova',
+  'story.check': 'Verifica le risposte',
+  'reader.placeholder': 'Incolla un articolo o un brano che stai leggendo...',
+  'reader.read': 'Leggi',
+  'reader.status': '{count} parole nuove · passa sopra per una glossa, fai clic per selezionare',
+  'reader.withImages': 'Con immagini',
+  'reader.clear': 'Cancella',
+  'reader.selectAll': 'Seleziona tutto',
+  'reader.save': 'Salva nel vocabolario',
+  'reader.saveCount': 'Salva {count} nel vocabolario',
+  'reader.another': 'Leggi un altro brano',
+  'reader.queued': 'Parole in coda per il tuo vocabolario: {count}',
+  'export.title': 'Esporta vocabolario',
+  'export.layout': 'Layout della scheda',
+  'export.front': 'Fronte',
+  'export.back': 'Retro',
+  'export.off': 'No',
+  'export.imagesAnkiOnly': 'Le immagini sono incluse solo nei pacchetti Anki.',
+  'export.failed': 'Esportazione non riuscita. Riprova.',
+  'export.download': 'Scarica',
+  'exportField.word': 'Parola',
+  'exportField.phonetic': 'Fonetica',
+  'exportField.grammar': 'Grammatica',
+  'exportField.definition': 'Definizione',
+  'exportField.examples': 'Esempi',
+  'exportField.image': 'Immagine',
+  'import.title': 'Importa parole',
+  'import.subtitle': 'Una parola per riga, CSV o JSON.',
+  'import.chooseFile': 'Scegli file',
+  'import.withImages': 'Genera immagini',
+  'import.summary': '{found} trovate · {fresh} nuove · {skipped} già salvate o in coda',
+  'import.parseError': 'Impossibile leggere quel JSON. Controlla il formato e riprova.',
+  'import.submit': 'Importa parole',
+  'import.submitCount': 'Importa {count} parole',
+  'import.progress': 'Avanzamento {done}/{total}',
+  'import.retryFailed': 'Riprova le fallite',
+  'import.clearFinished': 'Rimuovi completate',
+  'import.retry': 'Riprova',
+  'import.pending': 'In attesa',
+  'import.running': 'In corso',
+  'import.done': 'Fatto',
+  'import.failed': 'Non riuscita',
+  'storage.used': '{used} di {quota} usati',
+  'storage.wordList': 'Elenco parole: {size} in localStorage',
+
+  'export.count': '{count} parole',
+  'export.deckCount': '{deck} · {count} parole',
+
+  'imageEditor.findingSoundAlike': 'Cerco una parola in {language} dal suono simile...',
+  'imageEditor.soundAlike': 'Suona come: {keyword}',
+  'imageEditor.sceneFailed': 'Nessuna parola dal suono simile trovata. Prova un altro stile o scrivi tu il prompt.',
+
+  'storage.wordbookFull': 'Impossibile salvare il vocabolario: lo spazio del browser è pieno.',
+  'storage.imageFull': "Impossibile salvare l'immagine: lo spazio del browser potrebbe essere pieno.",
+  'chat.stopped': 'Interrotto.',
+  'chat.failed': 'Al momento non riesco a rispondere.',
+
+  'grammar.article': 'Articolo',
+  'grammar.gender': 'Genere',
+  'grammar.measureWord': 'Classificatore',
+  'grammar.reading': 'Lettura',
+  'grammar.romanization': 'Romanizzazione',
+};
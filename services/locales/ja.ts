@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const ja: Messages = {
+  'nav.reader': 'リーダー',
+  'nav.review': '復習',
+  'nav.wordbook': '単語帳',
+  'header.iSpeak': '母語',
+  'header.explainIn': '説明の言語',
+
+  'hero.title': '言葉を、',
+  'hero.titleAccent': '新しく。',
+  'hero.subtitle': '単語を入力すると、あなたの言語でビジュアル豊かに解説します。',
+
+  'search.modeWord': '単語',
+  'search.modeSentence': '文',
+  'search.placeholderWord': '単語を検索...',
+  'search.placeholderSentence': '文や慣用句を貼り付け...',
+  'search.submitWord': '検索',
+  'search.submitSentence': '解析',
+  'search.recent': '最近の検索',
+  'search.clear': 'クリア',
+  'search.sourceSaved': '単語帳',
+  'search.sourceRecent': '最近',
+  'search.didYouMean': '「{term}」は単語ではないようです。もしかして：',
+  'search.searchAnyway': 'それでも「{term}」を検索',
+
+  'word.pronounce': '発音',
+  'word.voice': '音声',
+  'word.slow': 'ゆっくり',
+  'word.slowTitle': 'ゆっくり再生',
+  'word.refresh': '更新',
+  'word.cachedRefresh': 'キャッシュ · 更新',
+  'word.refreshTitle': '定義と画像を新しく生成',
+  'word.definition': '定義（{language}）',
+  'word.illustrateSense': 'この意味を図解',
+  'word.originalDefinition': '原語での定義',
+  'word.vibeCheck': 'ニュアンス',
+  'word.usageExamples': '用例',
+  'word.forms': '語形',
+  'word.showForms': '語形を表示',
+  'word.formsHint': '「{word}」の活用・複数形・比較級。',
+  'word.speakingPractice': 'スピーキング練習',
+  'word.origin': '語源と歴史',
+  'word.visualization': 'AIビジュアル',
+  'word.saved': '保存済み',
+  'word.saveSense': '意味 {n} を保存',
+  'word.save': '単語帳に保存',
+  'word.generatingArt': '画像を生成中...',
+  'word.aiGenerated': 'AI生成',
+  'word.noImage': '画像がありません',
+  'word.feedback': 'フィードバック',
+  'word.generateVariation': 'バリエーションを生成',
+
+  'gems.title': '隠れた豆知識',
+  'gems.subtitle': 'トリビア、スラング、文化の秘密。',
+  'gems.reveal': '秘密を見る',
+  'gems.loading': '掘り起こし中...',
+
+  'chat.ask': 'AIに質問',
+  'chat.title': 'チューターとのチャット',
+  'chat.pastConversations': '過去の会話',
+  'chat.discussing': '「{word}」について',
+  'chat.noThreads': '保存された会話はまだありません。',
+  'chat.messageCount': '{count} 件のメッセージ',
+  'chat.deleteThread': '会話を削除',
+  'chat.empty': '他に知りたいことはありますか？',
+  'chat.promptQuiz': 'クイズを出して。',
+  'chat.promptFormal': 'この単語は改まった表現？',
+  'chat.promptTranslate': '文を翻訳して。',
+  'chat.regenerate': '再生成',
+  'chat.saveNote': 'メモとして保存',
+  'chat.noteAdded': 'メモに追加済み',
+  'chat.noteTitle': 'この回答を単語帳の単語に添付',
+  'chat.noteTitleUnsaved': '先に単語を単語帳に保存してください',
+  'chat.placeholder': 'メッセージを入力...',
+  'chat.stop': '生成を停止',
+
+  'wordbook.title': 'マイ単語帳',
+  'wordbook.count': '保存した単語 {count} 件',
+  'wordbook.import': 'インポート',
+  'wordbook.importing': 'インポート中 {progress}',
+  'wordbook.export': 'エクスポート',
+  'wordbook.reviewDue': '{count} 件を復習',
+  'wordbook.quiz': 'クイズ',
+  'wordbook.story': 'AIストーリーで練習',
+  'wordbook.empty': 'まだ単語が保存されていません。',
+  'wordbook.startSearching': '検索を始める',
+  'wordbook.or': 'または',
+  'wordbook.importList': '単語リストをインポート',
+  'wordbook.remove': '単語帳から削除',
+  'wordbook.open': '単語とチャットを開く',
+
+  'review.title': '復習',
+  'review.due': '復習するカード {count} 枚',
+  'reader.title': 'リーダー',
+  'reader.subtitle': '文章を貼り付けると、単語帳にない単語がハイライトされます',
+  'reader.saving': '単語を保存中 {progress}',
+  'quiz.title': 'クイズ',
+  'quiz.subtitle': '保存した {count} 個の単語から作成',
+
+  'sentence.literal': '直訳',
+  'sentence.natural': '自然な訳',
+  'sentence.wordByWord': '逐語解説',
+  'sentence.open': '「{word}」を開く',
+
+  'practice.example': '例文 {n}',
+  'practice.record': '録音',
+  'practice.recordAgain': '録り直す',
+  'practice.stop': '停止',
+  'practice.assess': '評価',
+  'practice.heard': '聞き取り結果：',
+  'practice.unsupported': 'このブラウザは録音に対応していません。',
+  'practice.micError': 'マイクにアクセスできません。ブラウザの権限を確認してください。',
+  'practice.assessError': '録音を評価できませんでした。もう一度お試しください。',
+
+  'forms.conjugation': '活用',
+  'forms.declension': '格変化',
+  'forms.comparison': '比較',
+  'forms.none': '語形変化なし',
+  'forms.invariable': 'この単語は語形が変化しません。',
+
+  'speak.listen': '聞く',
+
+  'wordbook.allDecks': 'すべての単語',
+  'wordbook.edit': 'デッキ・タグ・メモを編集',
+  'editor.title': 'デッキ・タグ・メモ',
+  'editor.deck': 'デッキ',
+  'editor.deckPlaceholder': '例：旅行',
+  'editor.tags': 'タグ',
+  'editor.tagsPlaceholder': '食べ物, 動詞, 第3章',
+  'editor.notes': 'メモ',
+  'editor.save': '保存',
+  'editor.cancel': 'キャンセル',
+
+  'filter.search': '単語・定義・メモを検索...',
+  'filter.allLanguages': 'すべての言語',
+  'filter.anyTime': 'すべての期間',
+  'filter.pastWeek': '過去1週間',
+  'filter.pastMonth': '過去1か月',
+  'filter.pastYear': '過去1年',
+  'filter.allStatuses': 'すべての状態',
+  'filter.statusNew': '新規',
+  'filter.statusDue': '復習待ち',
+  'filter.statusLearning': '学習中',
+  'filter.statusMastered': '習得済み',
+  'sort.newest': '新しい順',
+  'sort.oldest': '古い順',
+  'sort.alphabetical': 'アルファベット順',
+  'sort.weakest': '記憶が弱い順',
+  'filter.clear': 'フィルターをクリア',
+  'filter.noMatches': '条件に一致する単語はありません。',
+  'filter.showing': '{count} / {total}',
+
+  'nav.progress': '進捗',
+  'stats.title': '学習の進捗',
+  'stats.subtitle': '過去30日間の学習',
+  'stats.empty': '単語を調べて保存すると、進捗の記録が始まります。',
+  'stats.wordsSaved': '保存した単語',
+  'stats.currentStreak': '現在の連続日数',
+  'stats.longestStreak': '最長連続日数',
+  'stats.days': '{count}日',
+  'stats.accuracy': '復習の正答率',
+  'stats.savedPerDay': '1日あたりの保存数',
+  'stats.lookups': '過去30日間の検索 {count} 回',
+  'stats.accuracyPerDay': '1日あたりの正答率',
+  'stats.noReviews': '過去30日間に復習はありません。',
+  'stats.byLanguage': '言語別',
+  'stats.byPartOfSpeech': '品詞別',
+  'stats.unspecified': '未指定',
+  'stats.mostMissed': 'クイズでよく間違える単語',
+  'stats.noMisses': '間違えた単語はまだありません。クイズやストーリーに挑戦するとここに表示されます。',
+  'stats.misses': '{count}回',
+
+  'image.styleHistory': 'あなたのスタイル',
+  'imageStyle.minimal': 'ミニマル',
+  'imageStyle.abstract': '抽象的',
+  'imageStyle.scenario': '日常の場面',
+
+  'imageStyle.photo': '写真',
+  'imageStyle.watercolor': '水彩画',
+  'imageStyle.comic': 'コミック',
+  'imageStyle.mnemonic': '語呂合わせの場面',
+  'word.customizeImage': '画像をカスタマイズ',
+  'imageEditor.title': '生成前にスタイルを選び、プロンプトを編集します',
+  'imageEditor.style': 'スタイル',
+  'imageEditor.basedOn': 'もとにするもの',
+  'imageEditor.wordOnly': '単語そのもの',
+  'imageEditor.prompt': 'プロンプト',
+  'imageEditor.reset': 'プロンプトを作り直す',
+  'imageEditor.edited': '手動で編集済み。入力した文面がそのまま送信されます。',
+  'imageEditor.generate': '画像を生成',
+
+  'common.backToWordbook': '単語帳に戻る',
+  'review.complete': 'セッション完了：{count} 回復習しました。',
+  'review.nothingDue': '今は復習する単語がありません。',
+  'review.remaining': '残り {count}',
+  'review.reviewed': '復習済み {count}',
+  'review.showDefinition': '意味を表示',
+  'grade.again': 'もう一度',
+  'grade.hard': '難しい',
+  'grade.good': '良い',
+  'grade.easy': '簡単',
+  'exercise.definition': '単語を選ぶ',
+  'exercise.synonym': '類義語を選ぶ',
+  'exercise.example': '文を完成させる',
+  'exercise.match': '画像を合わせる',
+  'quiz.askDefinition': 'この意味に合う単語はどれですか？',
+  'quiz.askSynonym': '「{word}」に最も意味が近い単語はどれですか？',
+  'quiz.askExample': '文を完成させる単語はどれですか？',
+  'quiz.correct': '正解！',
+  'quiz.answerWas': '正解は「{answer}」でした。',
+  'quiz.next': '次へ',
+  'quiz.matchHint': '単語を選んでから、対応する画像を選んでください。',
+  'quiz.pictureAlt': 'クイズの画像',
+  'quiz.check': '確認',
+  'quiz.needWords': 'クイズを作るには少なくとも {count} 語を保存してください。',
+  'quiz.complete': 'クイズ完了',
+  'quiz.missedMoved': '間違えた単語は復習キューの前に移動しました：',
+  'quiz.newQuiz': '新しいクイズ',
+  'quiz.end': 'クイズを終了',
+  'story.reveal': '表示',
+  'story.test': 'テストする',
+  'story.revealHint': '下線の空欄をクリックすると単語が表示されます。',
+  'story.score': '{score} / {total} 正解',
+  'story.missedMoved': '間違えた単語は復習キューの前に移動しました。',
+  'story.tryAgain': 'もう一度',
+  'story.check': '答え合わせ',
+  'reader.placeholder': '読んでいる記事や文章を貼り付けてください...',
+  'reader.read': '読む',
+  'reader.status': '新しい単語 {count} 語 · ホバーで訳を表示、クリックで選択',
+  'reader.withImages': '画像付き',
+  'reader.clear': 'クリア',
+  'reader.selectAll': 'すべて選択',
+  'reader.save': '単語帳に保存',
+  'reader.saveCount': '{count} 語を単語帳に保存',
+  'reader.another': '別の文章を読む',
+  'reader.queued': '単語帳への追加待ち：{count} 語',
+  'export.title': '単語帳をエクスポート',
+  'export.layout': 'カードのレイアウト',
+  'export.front': '表',
+  'export.back': '裏',
+  'export.off': 'なし',
+  'export.imagesAnkiOnly': '画像は Anki パッケージにのみ含まれます。',
+  'export.failed': 'エクスポートに失敗しました。もう一度お試しください。',
+  'export.download': 'ダウンロード',
+  'exportField.word': '単語',
+  'exportField.phonetic': '発音記号',
+  'exportField.grammar': '文法',
+  'exportField.definition': '意味',
+  'exportField.examples': '例文',
+  'exportField.image': '画像',
+  'import.title': '単語をインポート',
+  'import.subtitle': '1 行に 1 語、または CSV・JSON。',
+  'import.chooseFile': 'ファイルを選択',
+  'import.withImages': '画像を生成',
+  'import.summary': '{found} 件見つかりました · 新規 {fresh} 件 · {skipped} 件は保存済みまたは待機中',
+  'import.parseError': 'その JSON を読み込めませんでした。形式を確認してもう一度お試しください。',
+  'import.submit': '単語をインポート',
+  'import.submitCount': '{count} 語をインポート',
+  'import.progress': '進行状況 {done}/{total}',
+  'import.retryFailed': '失敗分を再試行',
+  'import.clearFinished': '完了分を消去',
+  'import.retry': '再試行',
+  'import.pending': '待機中',
+  'import.running': '処理中',
+  'import.done': '完了',
+  'import.failed': '失敗',
+  'storage.used': '{quota} 中 {used} 使用',
+  'storage.wordList': '単語リスト：localStorage に {size}',
+
+  'export.count': '{count} 語',
+  'export.deckCount': '{deck} · {count} 語',
+
+  'imageEditor.findingSoundAlike': '音が似ている{language}の単語を探しています...',
+  'imageEditor.soundAlike': '似た音：{keyword}',
+  'imageEditor.sceneFailed': '似た音の単語が見つかりませんでした。別のスタイルを選ぶか、プロンプトを自分で書いてください。',
+
+  'storage.wordbookFull': '単語帳を保存できませんでした：ブラウザのストレージがいっぱいです。',
+  'storage.imageFull': '画像を保存できませんでした：ブラウザのストレージがいっぱいの可能性があります。',
+  'chat.stopped': '停止しました。',
+  'chat.failed': '今はその質問に答えられません。',
+
+  'grammar.article': '冠詞',
+  'grammar.gender': '性',
+  'grammar.measureWord': '助数詞',
+  'grammar.reading': '読み',
+  'grammar.romanization': 'ローマ字表記',
+};
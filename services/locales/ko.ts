@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const ko: Messages = {
+  'nav.reader': '읽기',
+  'nav.review': '복습',
+  'nav.wordbook': '단어장',
+  'header.iSpeak': '모국어',
+  'header.explainIn': '설명 언어',
+
+  'hero.title': '단어를,',
+  'hero.titleAccent': '새롭게.',
+  'hero.subtitle': '단어를 입력하면 내 언어로 풍부하고 시각적인 설명을 받을 수 있어요.',
+
+  'search.modeWord': '단어',
+  'search.modeSentence': '문장',
+  'search.placeholderWord': '단어 검색...',
+  'search.placeholderSentence': '문장이나 관용구를 붙여넣기...',
+  'search.submitWord': '검색',
+  'search.submitSentence': '분석',
+  'search.recent': '최근 검색',
+  'search.clear': '지우기',
+  'search.sourceSaved': '단어장',
+  'search.sourceRecent': '최근',
+  'search.didYouMean': '"{term}"은(는) 단어가 아닌 것 같아요. 혹시 이 단어인가요:',
+  'search.searchAnyway': '그래도 "{term}" 검색',
+
+  'word.pronounce': '발음 듣기',
+  'word.voice': '음성',
+  'word.slow': '느리게',
+  'word.slowTitle': '천천히 재생',
+  'word.refresh': '새로고침',
+  'word.cachedRefresh': '캐시됨 · 새로고침',
+  'word.refreshTitle': '새 정의와 이미지 생성',
+  'word.definition': '정의 ({language})',
+  'word.illustrateSense': '이 뜻을 그림으로',
+  'word.originalDefinition': '원어 정의',
+  'word.vibeCheck': '뉘앙스',
+  'word.usageExamples': '예문',
+  'word.forms': '어형',
+  'word.showForms': '어형 보기',
+  'word.formsHint': '"{word}"의 활용, 복수형, 비교급.',
+  'word.speakingPractice': '말하기 연습',
+  'word.origin': '어원과 역사',
+  'word.visualization': 'AI 시각화',
+  'word.saved': '저장됨',
+  'word.saveSense': '뜻 {n} 저장',
+  'word.save': '단어장에 저장',
+  'word.generatingArt': '이미지 생성 중...',
+  'word.aiGenerated': 'AI 생성',
+  'word.noImage': '이미지 없음',
+  'word.feedback': '피드백',
+  'word.generateVariation': '변형 생성',
+
+  'gems.title': '숨은 보석',
+  'gems.subtitle': '상식, 속어, 문화적 비밀.',
+  'gems.reveal': '비밀 보기',
+  'gems.loading': '찾는 중...',
+
+  'chat.ask': 'AI에게 질문',
+  'chat.title': '튜터 채팅',
+  'chat.pastConversations': '지난 대화',
+  'chat.discussing': '"{word}"에 대한 대화',
+  'chat.noThreads': '저장된 대화가 아직 없어요.',
+  'chat.messageCount': '메시지 {count}개',
+  'chat.deleteThread': '대화 삭제',
+  'chat.empty': '더 알고 싶은 것이 있나요?',
+  'chat.promptQuiz': '퀴즈를 내 줘.',
+  'chat.promptFormal': '이 단어는 격식체야?',
+  'chat.promptTranslate': '문장을 번역해 줘.',
+  'chat.regenerate': '다시 생성',
+  'chat.saveNote': '메모로 저장',
+  'chat.noteAdded': '메모에 추가됨',
+  'chat.noteTitle': '이 답변을 단어장의 단어에 첨부',
+  'chat.noteTitleUnsaved': '먼저 단어를 단어장에 저장하세요',
+  'chat.placeholder': '메시지 입력...',
+  'chat.stop': '생성 중지',
+
+  'wordbook.title': '내 단어장',
+  'wordbook.count': '저장된 단어 {count}개',
+  'wordbook.import': '가져오기',
+  'wordbook.importing': '가져오는 중 {progress}',
+  'wordbook.export': '내보내기',
+  'wordbook.reviewDue': '{count}개 복습하기',
+  'wordbook.quiz': '퀴즈',
+  'wordbook.story': 'AI 이야기로 연습',
+  'wordbook.empty': '아직 저장된 단어가 없어요.',
+  'wordbook.startSearching': '검색 시작하기',
+  'wordbook.or': '또는',
+  'wordbook.importList': '단어 목록 가져오기',
+  'wordbook.remove': '단어장에서 삭제',
+  'wordbook.open': '단어와 튜터 채팅 열기',
+
+  'review.title': '복습',
+  'review.due': '복습할 카드 {count}장',
+  'reader.title': '읽기',
+  'reader.subtitle': '글을 붙여넣으면 단어장에 없는 단어가 강조 표시됩니다',
+  'reader.saving': '단어 저장 중 {progress}',
+  'quiz.title': '퀴즈',
+  'quiz.subtitle': '저장한 단어 {count}개로 만든 퀴즈',
+
+  'sentence.literal': '직역',
+  'sentence.natural': '의역',
+  'sentence.wordByWord': '단어별 풀이',
+  'sentence.open': '"{word}" 열기',
+
+  'practice.example': '예문 {n}',
+  'practice.record': '녹음',
+  'practice.recordAgain': '다시 녹음',
+  'practice.stop': '중지',
+  'practice.assess': '평가',
+  'practice.heard': '인식된 발음:',
+  'practice.unsupported': '이 브라우저는 녹음을 지원하지 않습니다.',
+  'practice.micError': '마이크에 접근할 수 없습니다. 브라우저 권한을 확인하세요.',
+  'practice.assessError': '녹음을 평가하지 못했습니다. 다시 시도하세요.',
+
+  'forms.conjugation': '활용',
+  'forms.declension': '격변화',
+  'forms.comparison': '비교',
+  'forms.none': '어형 변화 없음',
+  'forms.invariable': '이 단어는 형태가 바뀌지 않습니다.',
+
+  'speak.listen': '듣기',
+
+  'wordbook.allDecks': '모든 단어',
+  'wordbook.edit': '덱, 태그, 메모 편집',
+  'editor.title': '덱, 태그, 메모',
+  'editor.deck': '덱',
+  'editor.deckPlaceholder': '예: 여행',
+  'editor.tags': '태그',
+  'editor.tagsPlaceholder': '음식, 동사, 3장',
+  'editor.notes': '메모',
+  'editor.save': '저장',
+  'editor.cancel': '취소',
+
+  'filter.search': '단어, 정의, 메모 검색...',
+  'filter.allLanguages': '모든 언어',
+  'filter.anyTime': '전체 기간',
+  'filter.pastWeek': '지난 1주',
+  'filter.pastMonth': '지난 1개월',
+  'filter.pastYear': '지난 1년',
+  'filter.allStatuses': '모든 상태',
+  'filter.statusNew': '새 단어',
+  'filter.statusDue': '복습 예정',
+  'filter.statusLearning': '학습 중',
+  'filter.statusMastered': '숙달',
+  'sort.newest': '최신순',
+  'sort.oldest': '오래된순',
+  'sort.alphabetical': '가나다/ABC순',
+  'sort.weakest': '기억이 약한 순',
+  'filter.clear': '필터 지우기',
+  'filter.noMatches': '조건에 맞는 단어가 없습니다.',
+  'filter.showing': '{total}개 중 {count}개',
+
+  'nav.progress': '진도',
+  'stats.title': '학습 진도',
+  'stats.subtitle': '지난 30일간의 학습',
+  'stats.empty': '단어를 찾아보고 저장하면 진도 기록이 시작됩니다.',
+  'stats.wordsSaved': '저장한 단어',
+  'stats.currentStreak': '현재 연속 학습',
+  'stats.longestStreak': '최장 연속 학습',
+  'stats.days': '{count}일',
+  'stats.accuracy': '복습 정답률',
+  'stats.savedPerDay': '일별 저장 단어',
+  'stats.lookups': '지난 30일간 검색 {count}회',
+  'stats.accuracyPerDay': '일별 복습 정답률',
+  'stats.noReviews': '지난 30일간 복습 기록이 없습니다.',
+  'stats.byLanguage': '언어별',
+  'stats.byPartOfSpeech': '품사별',
+  'stats.unspecified': '미지정',
+  'stats.mostMissed': '퀴즈에서 자주 틀린 단어',
+  'stats.noMisses': '아직 틀린 단어가 없습니다. 퀴즈나 이야기를 풀면 여기에 표시됩니다.',
+  'stats.misses': '{count}회',
+
+  'image.styleHistory': '내 스타일',
+  'imageStyle.minimal': '미니멀',
+  'imageStyle.abstract': '추상적',
+  'imageStyle.scenario': '실생활 장면',
+
+  'imageStyle.photo': '사진',
+  'imageStyle.watercolor': '수채화',
+  'imageStyle.comic': '만화',
+  'imageStyle.mnemonic': '연상 기억 장면',
+  'word.customizeImage': '이미지 직접 설정',
+  'imageEditor.title': '생성하기 전에 스타일을 고르고 프롬프트를 편집하세요',
+  'imageEditor.style': '스타일',
+  'imageEditor.basedOn': '기준',
+  'imageEditor.wordOnly': '단어 자체',
+  'imageEditor.prompt': '프롬프트',
+  'imageEditor.reset': '프롬프트 다시 만들기',
+  'imageEditor.edited': '직접 편집됨. 입력한 내용이 그대로 전송됩니다.',
+  'imageEditor.generate': '이미지 생성',
+
+  'common.backToWordbook': '단어장으로 돌아가기',
+  'review.complete': '세션 완료 — {count}회 복습했습니다.',
+  'review.nothingDue': '지금은 복습할 항목이 없습니다.',
+  'review.remaining': '{count}개 남음',
+  'review.reviewed': '{count}개 복습함',
+  'review.showDefinition': '뜻 보기',
+  'grade.again': '다시',
+  'grade.hard': '어려움',
+  'grade.good': '좋음',
+  'grade.easy': '쉬움',
+  'exercise.definition': '단어 고르기',
+  'exercise.synonym': '유의어 고르기',
+  'exercise.example': '문장 완성하기',
+  'exercise.match': '그림 맞추기',
+  'quiz.askDefinition': '이 뜻에 맞는 단어는 무엇인가요?',
+  'quiz.askSynonym': '"{word}"와 뜻이 가장 가까운 단어는 무엇인가요?',
+  'quiz.askExample': '문장을 완성하는 단어는 무엇인가요?',
+  'quiz.correct': '정답입니다!',
+  'quiz.answerWas': '정답은 "{answer}"였습니다.',
+  'quiz.next': '다음',
+  'quiz.matchHint': '단어를 고른 다음 알맞은 그림을 고르세요.',
+  'quiz.pictureAlt': '퀴즈 그림',
+  'quiz.check': '확인',
+  'quiz.needWords': '퀴즈를 만들려면 단어를 {count}개 이상 저장하세요.',
+  'quiz.complete': '퀴즈 완료',
+  'quiz.missedMoved': '틀린 단어가 복습 대기열 앞쪽으로 옮겨졌습니다:',
+  'quiz.newQuiz': '새 퀴즈',
+  'quiz.end': '퀴즈 종료',
+  'story.reveal': '보기',
+  'story.test': '테스트하기',
+  'story.revealHint': '밑줄 친 빈칸을 클릭하면 단어가 보입니다.',
+  'story.score': '{total}개 중 {score}개 정답',
+  'story.missedMoved': '틀린 단어가 복습 대기열 앞쪽으로 옮겨졌습니다.',
+  'story.tryAgain': '다시 하기',
+  'story.check': '정답 확인',
+  'reader.placeholder': '읽고 있는 기사나 글을 붙여 넣으세요...',
+  'reader.read': '읽기',
+  'reader.status': '새 단어 {count}개 · 마우스를 올리면 풀이, 클릭하면 선택',
+  'reader.withImages': '이미지 포함',
+  'reader.clear': '지우기',
+  'reader.selectAll': '모두 선택',
+  'reader.save': '단어장에 저장',
+  'reader.saveCount': '단어장에 {count}개 저장',
+  'reader.another': '다른 글 읽기',
+  'reader.queued': '단어장 대기열에 추가된 단어: {count}개',
+  'export.title': '단어장 내보내기',
+  'export.layout': '카드 레이아웃',
+  'export.front': '앞면',
+  'export.back': '뒷면',
+  'export.off': '안 함',
+  'export.imagesAnkiOnly': '이미지는 Anki 패키지에만 포함됩니다.',
+  'export.failed': '내보내기에 실패했습니다. 다시 시도해 주세요.',
+  'export.download': '다운로드',
+  'exportField.word': '단어',
+  'exportField.phonetic': '발음',
+  'exportField.grammar': '문법',
+  'exportField.definition': '뜻',
+  'exportField.examples': '예문',
+  'exportField.image': '이미지',
+  'import.title': '단어 가져오기',
+  'import.subtitle': '한 줄에 한 단어, CSV 또는 JSON.',
+  'import.chooseFile': '파일 선택',
+  'import.withImages': '이미지 생성',
+  'import.summary': '{found}개 찾음 · 새 단어 {fresh}개 · {skipped}개는 이미 저장되었거나 대기 중',
+  'import.parseError': 'JSON을 읽을 수 없습니다. 형식을 확인하고 다시 시도하세요.',
+  'import.submit': '단어 가져오기',
+  'import.submitCount': '단어 {count}개 가져오기',
+  'import.progress': '진행 {done}/{total}',
+  'import.retryFailed': '실패한 항목 재시도',
+  'import.clearFinished': '완료된 항목 지우기',
+  'import.retry': '재시도',
+  'import.pending': '대기',
+  'import.running': '진행 중',
+  'import.done': '완료',
+  'import.failed': '실패',
+  'storage.used': '{quota} 중 {used} 사용',
+  'storage.wordList': '단어 목록: localStorage에 {size}',
+
+  'export.count': '단어 {count}개',
+  'export.deckCount': '{deck} · 단어 {count}개',
+
+  'imageEditor.findingSoundAlike': '발음이 비슷한 {language} 단어를 찾는 중...',
+  'imageEditor.soundAlike': '비슷한 소리: {keyword}',
+  'imageEditor.sceneFailed': '비슷한 소리의 단어를 찾지 못했습니다. 다른 스타일을 고르거나 프롬프트를 직접 작성하세요.',
+
+  'storage.wordbookFull': '단어장을 저장할 수 없습니다: 브라우저 저장 공간이 가득 찼습니다.',
+  'storage.imageFull': '이미지를 저장할 수 없습니다: 브라우저 저장 공간이 가득 찼을 수 있습니다.',
+  'chat.stopped': '중지됨.',
+  'chat.failed': '지금은 답변할 수 없습니다.',
+
+  'grammar.article': '관사',
+  'grammar.gender': '성',
+  'grammar.measureWord': '양사',
+  'grammar.reading': '읽기',
+  'grammar.romanization': '로마자 표기',
+};
@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const pt: Messages = {
+  'nav.reader': 'Leitor',
+  'nav.review': 'Revisão',
+  'nav.wordbook': 'Vocabulário',
+  'header.iSpeak': 'Eu falo',
+  'header.explainIn': 'Explicar em',
+
+  'hero.title': 'Palavras,',
+  'hero.titleAccent': 'reinventadas.',
+  'hero.subtitle': 'Digite uma palavra para receber uma explicação rica e visual no seu idioma.',
+
+  'search.modeWord': 'Palavra',
+  'search.modeSentence': 'Frase',
+  'search.placeholderWord': 'Pesquise uma palavra...',
+  'search.placeholderSentence': 'Cole uma frase ou expressão...',
+  'search.submitWord': 'Pesquisar',
+  'search.submitSentence': 'Analisar',
+  'search.recent': 'Pesquisas recentes',
+  'search.clear': 'Limpar',
+  'search.sourceSaved': 'Vocabulário',
+  'search.sourceRecent': 'Recente',
+  'search.didYouMean': '"{term}" não parece uma palavra. Você quis dizer:',
+  'search.searchAnyway': 'Pesquisar "{term}" mesmo assim',
+
+  'word.pronounce': 'Pronunciar',
+  'word.voice': 'Voz',
+  'word.slow': 'Lento',
+  'word.slowTitle': 'Reproduzir a fala devagar',
+  'word.refresh': 'Atualizar',
+  'word.cachedRefresh': 'Em cache · Atualizar',
+  'word.refreshTitle': 'Gerar uma nova definição e imagem',
+  'word.definition': 'Definição ({language})',
+  'word.illustrateSense': 'Ilustrar este sentido',
+  'word.originalDefinition': 'Definição no idioma original',
+  'word.vibeCheck': 'Tom e contexto',
+  'word.usageExamples': 'Exemplos de uso',
+  'word.forms': 'Formas',
+  'word.showForms': 'Ver formas',
+  'word.formsHint': 'Conjugações, plurais e comparativos de "{word}".',
+  'word.speakingPractice': 'Prática de fala',
+  'word.origin': 'Origem e história',
+  'word.visualization': 'Visualização por IA',
+  'word.saved': 'Salva',
+  'word.saveSense': 'Salvar sentido {n}',
+  'word.save': 'Salvar no vocabulário',
+  'word.generatingArt': 'Gerando imagem...',
+  'word.aiGenerated': 'Gerado por IA',
+  'word.noImage': 'Nenhuma imagem disponível',
+  'word.feedback': 'Avaliação',
+  'word.generateVariation': 'Gerar variação',
+
+  'gems.title': 'Joias escondidas',
+  'gems.subtitle': 'Curiosidades, gírias e segredos culturais.',
+  'gems.reveal': 'Revelar segredos',
+  'gems.loading': 'Desenterrando...',
+
+  'chat.ask': 'Pergunte à IA',
+  'chat.title': 'Chat com tutor',
+  'chat.pastConversations': 'Conversas anteriores',
+  'chat.discussing': 'Conversando sobre "{word}"',
+  'chat.noThreads': 'Nenhuma conversa salva ainda.',
+  'chat.messageCount': '{count} mensagens',
+  'chat.deleteThread': 'Excluir conversa',
+  'chat.empty': 'O que mais você gostaria de saber?',
+  'chat.promptQuiz': 'Faça um quiz comigo.',
+  'chat.promptFormal': 'Esta palavra é formal?',
+  'chat.promptTranslate': 'Traduza uma frase.',
+  'chat.regenerate': 'Gerar novamente',
+  'chat.saveNote': 'Salvar como nota',
+  'chat.noteAdded': 'Adicionada às notas',
+  'chat.noteTitle': 'Anexar esta resposta à palavra no seu vocabulário',
+  'chat.noteTitleUnsaved': 'Salve a palavra no seu vocabulário primeiro',
+  'chat.placeholder': 'Digite uma mensagem...',
+  'chat.stop': 'Parar',
+
+  'wordbook.title': 'Meu vocabulário',
+  'wordbook.count': '{count} palavras salvas',
+  'wordbook.import': 'Importar',
+  'wordbook.importing': 'Importando {progress}',
+  'wordbook.export': 'Exportar',
+  'wordbook.reviewDue': 'Revisar {count} pendentes',
+  'wordbook.quiz': 'Quiz',
+  'wordbook.story': 'Praticar com uma história de IA',
+  'wordbook.empty': 'Nenhuma palavra salva ainda.',
+  'wordbook.startSearching': 'Comece a pesquisar',
+  'wordbook.or': 'ou',
+  'wordbook.importList': 'importe uma lista de palavras',
+  'wordbook.remove': 'Remover do vocabulário',
+  'wordbook.open': 'Abrir a palavra e o chat',
+
+  'review.title': 'Revisão',
+  'review.due': '{count} cartões pendentes',
+  'reader.title': 'Leitor',
+  'reader.subtitle': 'Cole um texto; palavras fora do seu vocabulário ficam destacadas',
+  'reader.saving': 'Salvando palavras {progress}',
+  'quiz.title': 'Quiz',
+  'quiz.subtitle': 'Criado a partir das suas {count} palavras salvas',
+
+  'sentence.literal': 'Literal',
+  'sentence.natural': 'Natural',
+  'sentence.wordByWord': 'Palavra por palavra',
+  'sentence.open': 'Abrir "{word}"',
+
+  'practice.example': 'Exemplo {n}',
+  'practice.record': 'Gravar',
+  'practice.recordAgain': 'Gravar de novo',
+  'practice.stop': 'Parar',
+  'practice.assess': 'Avaliar',
+  'practice.heard': 'Ouvido:',
+  'practice.unsupported': 'Este navegador não suporta gravação.',
+  'practice.micError': 'Não foi possível acessar o microfone. Verifique as permissões do navegador.',
+  'practice.assessError': 'Não foi possível avaliar a gravação. Tente novamente.',
+
+  'forms.conjugation': 'Conjugação',
+  'forms.declension': 'Declinação',
+  'forms.comparison': 'Comparação',
+  'forms.none': 'Sem flexão',
+  'forms.invariable': 'Esta palavra não muda de forma.',
+
+  'speak.listen': 'Ouvir',
+
+  'wordbook.allDecks': 'Todas as palavras',
+  'wordbook.edit': 'Editar baralho, etiquetas e notas',
+  'editor.title': 'Baralho, etiquetas e notas',
+  'editor.deck': 'Baralho',
+  'editor.deckPlaceholder': 'ex.: Viagem',
+  'editor.tags': 'Etiquetas',
+  'editor.tagsPlaceholder': 'comida, verbos, capítulo 3',
+  'editor.notes': 'Notas',
+  'editor.save': 'Salvar',
+  'editor.cancel': 'Cancelar',
+
+  'filter.search': 'Pesquise palavras, definições e notas...',
+  'filter.allLanguages': 'Todos os idiomas',
+  'filter.anyTime': 'Qualquer data',
+  'filter.pastWeek': 'Última semana',
+  'filter.pastMonth': 'Último mês',
+  'filter.pastYear': 'Último ano',
+  'filter.allStatuses': 'Qualquer estado',
+  'filter.statusNew': 'Novas',
+  'filter.statusDue': 'Pendentes',
+  'filter.statusLearning': 'Aprendendo',
+  'filter.statusMastered': 'Dominadas',
+  'sort.newest': 'Mais recentes',
+  'sort.oldest': 'Mais antigas',
+  'sort.alphabetical': 'A–Z',
+  'sort.weakest': 'Menos lembradas',
+  'filter.clear': 'Limpar filtros',
+  'filter.noMatches': 'Nenhuma palavra corresponde a esses filtros.',
+  'filter.showing': '{count} de {total}',
+
+  'nav.progress': 'Progresso',
+  'stats.title': 'Progresso',
+  'stats.subtitle': 'Seu estudo nos últimos 30 dias',
+  'stats.empty': 'Pesquise e salve algumas palavras para começar a acompanhar seu progresso.',
+  'stats.wordsSaved': 'Palavras salvas',
+  'stats.currentStreak': 'Sequência atual',
+  'stats.longestStreak': 'Maior sequência',
+  'stats.days': '{count} d',
+  'stats.accuracy': 'Acerto nas revisões',
+  'stats.savedPerDay': 'Palavras salvas por dia',
+  'stats.lookups': '{count} pesquisas nos últimos 30 dias',
+  'stats.accuracyPerDay': 'Acerto nas revisões por dia',
+  'stats.noReviews': 'Nenhuma revisão nos últimos 30 dias.',
+  'stats.byLanguage': 'Por idioma',
+  'stats.byPartOfSpeech': 'Por classe gramatical',
+  'stats.unspecified': 'Não especificado',
+  'stats.mostMissed': 'Mais erradas nos questionários',
+  'stats.noMisses': 'Nenhuma palavra errada ainda. Faça um questionário ou uma história para vê-las aqui.',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'Seus estilos',
+  'imageStyle.minimal': 'Minimalista',
+  'imageStyle.abstract': 'Abstrato',
+  'imageStyle.scenario': 'Cena real',
+
+  'imageStyle.photo': 'Foto',
+  'imageStyle.watercolor': 'Aquarela',
+  'imageStyle.comic': 'Quadrinhos',
+  'imageStyle.mnemonic': 'Cena mnemônica',
+  'word.customizeImage': 'Personalizar imagem',
+  'imageEditor.title': 'Escolha um estilo e edite o prompt antes de gerar',
+  'imageEditor.style': 'Estilo',
+  'imageEditor.basedOn': 'Com base em',
+  'imageEditor.wordOnly': 'A própria palavra',
+  'imageEditor.prompt': 'Prompt',
+  'imageEditor.reset': 'Reconstruir prompt',
+  'imageEditor.edited': 'Editado à mão. Seu texto é enviado exatamente como está.',
+  'imageEditor.generate': 'Gerar imagem',
+
+  'common.backToWordbook': 'Voltar ao vocabulário',
+  'review.complete': 'Sessão concluída — {count} revisões feitas.',
+  'review.nothingDue': 'Nada para revisar agora.',
+  'review.remaining': '{count} restantes',
+  'review.reviewed': '{count} revisadas',
+  'review.showDefinition': 'Mostrar definição',
+  'grade.again': 'De novo',
+  'grade.hard': 'Difícil',
+  'grade.good': 'Bom',
+  'grade.easy': 'Fácil',
+  'exercise.definition': 'Escolha a palavra',
+  'exercise.synonym': 'Escolha o sinônimo',
+  'exercise.example': 'Complete a frase',
+  'exercise.match': 'Associe as imagens',
+  'quiz.askDefinition': 'Qual palavra corresponde a esta definição?',
+  'quiz.askSynonym': 'Qual palavra tem o significado mais próximo de "{word}"?',
+  'quiz.askExample': 'Qual palavra completa a frase?',
+  'quiz.correct': 'Correto!',
+  'quiz.answerWas': 'A resposta era "{answer}".',
+  'quiz.next': 'Próxima',
+  'quiz.matchHint': 'Escolha uma palavra e depois a imagem que combina com ela.',
+  'quiz.pictureAlt': 'Imagem do quiz',
+  'quiz.check': 'Verificar',
+  'quiz.needWords': 'Salve pelo menos {count} palavras para montar um quiz.',
+  'quiz.complete': 'Quiz concluído',
+  'quiz.missedMoved': 'As palavras erradas subiram na sua fila de revisão:',
+  'quiz.newQuiz': 'Novo quiz',
+  'quiz.end': 'Encerrar quiz',
+  'story.reveal': 'Revelar',
+  'story.test': 'Me teste',
+  'story.revealHint': 'Clique nas lacunas sublinhadas para revelar as palavras.',
+  'story.score': '{score} / {total} corretas',
+  'story.missedMoved': 'As palavras erradas subiram na sua fila de revisão.',
+  'story.tryAgain': 'Tentar de novo',
+  'story.check': 'Verificar respostas',
+  'reader.placeholder': 'Cole um artigo ou trecho que você está lendo...',
+  'reader.read': 'Ler',
+  'reader.status': '{count} palavras novas · passe o mouse para ver uma glosa, clique para selecionar',
+  'reader.withImages': 'Com imagens',
+  'reader.clear': 'Limpar',
+  'reader.selectAll': 'Selecionar tudo',
+  'reader.save': 'Salvar no vocabulário',
+  'reader.saveCount': 'Salvar {count} no vocabulário',
+  'reader.another': 'Ler outro trecho',
+  'reader.queued': 'Palavras na fila para o seu vocabulário: {count}',
+  'export.title': 'Exportar vocabulário',
+  'export.layout': 'Layout do cartão',
+  'export.front': 'Frente',
+  'export.back': 'Verso',
+  'export.off': 'Não',
+  'export.imagesAnkiOnly': 'As imagens só são incluídas em pacotes do Anki.',
+  'export.failed': 'Falha ao exportar. Tente novamente.',
+  'export.download': 'Baixar',
+  'exportField.word': 'Palavra',
+  'exportField.phonetic': 'Fonética',
+  'exportField.grammar': 'Gramática',
+  'exportField.definition': 'Definição',
+  'exportField.examples': 'Exemplos',
+  'exportField.image': 'Imagem',
+  'import.title': 'Importar palavras',
+  'import.subtitle': 'Uma palavra por linha, CSV ou JSON.',
+  'import.chooseFile': 'Escolher arquivo',
+  'import.withImages': 'Gerar imagens',
+  'import.summary': '{found} encontradas · {fresh} novas · {skipped} já salvas ou na fila',
+  'import.parseError': 'Não foi possível ler esse JSON. Verifique o formato e tente novamente.',
+  'import.submit': 'Importar palavras',
+  'import.submitCount': 'Importar {count} palavras',
+  'import.progress': 'Progresso {done}/{total}',
+  'import.retryFailed': 'Repetir as que falharam',
+  'import.clearFinished': 'Limpar concluídas',
+  'import.retry': 'Repetir',
+  'import.pending': 'Pendente',
+  'import.running': 'Em andamento',
+  'import.done': 'Concluída',
+  'import.failed': 'Falhou',
+  'storage.used': '{used} de {quota} usados',
+  'storage.wordList': 'Lista de palavras: {size} no localStorage',
+
+  'export.count': '{count} palavras',
+  'export.deckCount': '{deck} · {count} palavras',
+
+  'imageEditor.findingSoundAlike': 'Procurando uma palavra em {language} com som parecido...',
+  'imageEditor.soundAlike': 'Soa como: {keyword}',
+  'imageEditor.sceneFailed': 'Não foi possível encontrar uma palavra parecida. Tente outro estilo ou escreva o prompt você mesmo.',
+
+  'storage.wordbookFull': 'Não foi possível salvar seu vocabulário: o armazenamento do navegador está cheio.',
+  'storage.imageFull': 'Não foi possível salvar a imagem: o armazenamento do navegador pode estar cheio.',
+  'chat.stopped': 'Interrompido.',
+  'chat.failed': 'Não consegui responder a isso agora.',
+
+  'grammar.article': 'Artigo',
+  'grammar.gender': 'Gênero',
+  'grammar.measureWord': 'Classificador',
+  'grammar.reading': 'Leitura',
+  'grammar.romanization': 'Romanização',
+};
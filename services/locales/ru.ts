@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const ru: Messages = {
+  'nav.reader': 'Чтение',
+  'nav.review': 'Повторение',
+  'nav.wordbook': 'Словарь',
+  'header.iSpeak': 'Я говорю на',
+  'header.explainIn': 'Объяснять на',
+
+  'hero.title': 'Слова,',
+  'hero.titleAccent': 'по-новому.',
+  'hero.subtitle': 'Введите слово, чтобы получить наглядное объяснение на вашем языке.',
+
+  'search.modeWord': 'Слово',
+  'search.modeSentence': 'Фраза',
+  'search.placeholderWord': 'Найти слово...',
+  'search.placeholderSentence': 'Вставьте фразу или идиому...',
+  'search.submitWord': 'Найти',
+  'search.submitSentence': 'Разобрать',
+  'search.recent': 'Недавние запросы',
+  'search.clear': 'Очистить',
+  'search.sourceSaved': 'Словарь',
+  'search.sourceRecent': 'Недавнее',
+  'search.didYouMean': '«{term}» не похоже на слово. Возможно, вы имели в виду:',
+  'search.searchAnyway': 'Всё равно искать «{term}»',
+
+  'word.pronounce': 'Произношение',
+  'word.voice': 'Голос',
+  'word.slow': 'Медленно',
+  'word.slowTitle': 'Воспроизводить медленно',
+  'word.refresh': 'Обновить',
+  'word.cachedRefresh': 'Из кэша · Обновить',
+  'word.refreshTitle': 'Создать новое определение и изображение',
+  'word.definition': 'Определение ({language})',
+  'word.illustrateSense': 'Проиллюстрировать это значение',
+  'word.originalDefinition': 'Определение на языке оригинала',
+  'word.vibeCheck': 'Тон и контекст',
+  'word.usageExamples': 'Примеры употребления',
+  'word.forms': 'Формы',
+  'word.showForms': 'Показать формы',
+  'word.formsHint': 'Спряжение, множественное число и степени сравнения для «{word}».',
+  'word.speakingPractice': 'Практика произношения',
+  'word.origin': 'Происхождение и история',
+  'word.visualization': 'ИИ-визуализация',
+  'word.saved': 'Сохранено',
+  'word.saveSense': 'Сохранить значение {n}',
+  'word.save': 'Сохранить в словарь',
+  'word.generatingArt': 'Создаём изображение...',
+  'word.aiGenerated': 'Создано ИИ',
+  'word.noImage': 'Изображение недоступно',
+  'word.feedback': 'Оценка',
+  'word.generateVariation': 'Создать вариант',
+
+  'gems.title': 'Скрытые жемчужины',
+  'gems.subtitle': 'Любопытные факты, сленг и культурные тонкости.',
+  'gems.reveal': 'Раскрыть секреты',
+  'gems.loading': 'Ищем...',
+
+  'chat.ask': 'Спросить ИИ',
+  'chat.title': 'Чат с репетитором',
+  'chat.pastConversations': 'Прошлые беседы',
+  'chat.discussing': 'Обсуждаем «{word}»',
+  'chat.noThreads': 'Сохранённых бесед пока нет.',
+  'chat.messageCount': 'Сообщений: {count}',
+  'chat.deleteThread': 'Удалить беседу',
+  'chat.empty': 'Что ещё вы хотели бы узнать?',
+  'chat.promptQuiz': 'Устрой мне тест.',
+  'chat.promptFormal': 'Это слово формальное?',
+  'chat.promptTranslate': 'Переведи предложение.',
+  'chat.regenerate': 'Повторить',
+  'chat.saveNote': 'Сохранить как заметку',
+  'chat.noteAdded': 'Добавлено в заметки',
+  'chat.noteTitle': 'Прикрепить этот ответ к слову в вашем словаре',
+  'chat.noteTitleUnsaved': 'Сначала сохраните слово в словарь',
+  'chat.placeholder': 'Введите сообщение...',
+  'chat.stop': 'Остановить',
+
+  'wordbook.title': 'Мой словарь',
+  'wordbook.count': 'Сохранено слов: {count}',
+  'wordbook.import': 'Импорт',
+  'wordbook.importing': 'Импорт {progress}',
+  'wordbook.export': 'Экспорт',
+  'wordbook.reviewDue': 'Повторить ({count})',
+  'wordbook.quiz': 'Тест',
+  'wordbook.story': 'Практика с ИИ-рассказом',
+  'wordbook.empty': 'Сохранённых слов пока нет.',
+  'wordbook.startSearching': 'Начните поиск',
+  'wordbook.or': 'или',
+  'wordbook.importList': 'импортируйте список слов',
+  'wordbook.remove': 'Удалить из словаря',
+  'wordbook.open': 'Открыть слово и чат',
+
+  'review.title': 'Повторение',
+  'review.due': 'Карточек к повторению: {count}',
+  'reader.title': 'Чтение',
+  'reader.subtitle': 'Вставьте текст; слова, которых нет в вашем словаре, будут выделены',
+  'reader.saving': 'Сохраняем слова {progress}',
+  'quiz.title': 'Тест',
+  'quiz.subtitle': 'Составлен из ваших сохранённых слов ({count})',
+
+  'sentence.literal': 'Дословно',
+  'sentence.natural': 'Естественно',
+  'sentence.wordByWord': 'Пословно',
+  'sentence.open': 'Открыть «{word}»',
+
+  'practice.example': 'Пример {n}',
+  'practice.record': 'Записать',
+  'practice.recordAgain': 'Записать снова',
+  'practice.stop': 'Стоп',
+  'practice.assess': 'Оценить',
+  'practice.heard': 'Распознано:',
+  'practice.unsupported': 'Этот браузер не поддерживает запись.',
+  'practice.micError': 'Нет доступа к микрофону. Проверьте разрешения браузера.',
+  'practice.assessError': 'Не удалось оценить запись. Попробуйте ещё раз.',
+
+  'forms.conjugation': 'Спряжение',
+  'forms.declension': 'Склонение',
+  'forms.comparison': 'Степени сравнения',
+  'forms.none': 'Неизменяемое',
+  'forms.invariable': 'Это слово не изменяется.',
+
+  'speak.listen': 'Прослушать',
+
+  'wordbook.allDecks': 'Все слова',
+  'wordbook.edit': 'Изменить колоду, теги и заметки',
+  'editor.title': 'Колода, теги и заметки',
+  'editor.deck': 'Колода',
+  'editor.deckPlaceholder': 'напр. Путешествия',
+  'editor.tags': 'Теги',
+  'editor.tagsPlaceholder': 'еда, глаголы, глава 3',
+  'editor.notes': 'Заметки',
+  'editor.save': 'Сохранить',
+  'editor.cancel': 'Отмена',
+
+  'filter.search': 'Поиск по словам, определениям и заметкам...',
+  'filter.allLanguages': 'Все языки',
+  'filter.anyTime': 'За всё время',
+  'filter.pastWeek': 'За неделю',
+  'filter.pastMonth': 'За месяц',
+  'filter.pastYear': 'За год',
+  'filter.allStatuses': 'Любой статус',
+  'filter.statusNew': 'Новые',
+  'filter.statusDue': 'К повторению',
+  'filter.statusLearning': 'Изучаются',
+  'filter.statusMastered': 'Выучены',
+  'sort.newest': 'Сначала новые',
+  'sort.oldest': 'Сначала старые',
+  'sort.alphabetical': 'По алфавиту',
+  'sort.weakest': 'Хуже всего запомнены',
+  'filter.clear': 'Сбросить фильтры',
+  'filter.noMatches': 'Нет слов, подходящих под эти фильтры.',
+  'filter.showing': '{count} из {total}',
+
+  'nav.progress': 'Прогресс',
+  'stats.title': 'Прогресс',
+  'stats.subtitle': 'Ваши занятия за последние 30 дней',
+  'stats.empty': 'Найдите и сохраните несколько слов, чтобы начать отслеживать прогресс.',
+  'stats.wordsSaved': 'Сохранено слов',
+  'stats.currentStreak': 'Текущая серия',
+  'stats.longestStreak': 'Самая длинная серия',
+  'stats.days': '{count} дн.',
+  'stats.accuracy': 'Точность повторений',
+  'stats.savedPerDay': 'Сохранено слов за день',
+  'stats.lookups': '{count} запросов за последние 30 дней',
+  'stats.accuracyPerDay': 'Точность повторений по дням',
+  'stats.noReviews': 'Нет повторений за последние 30 дней.',
+  'stats.byLanguage': 'По языкам',
+  'stats.byPartOfSpeech': 'По частям речи',
+  'stats.unspecified': 'Не указано',
+  'stats.mostMissed': 'Чаще всего ошибки в тестах',
+  'stats.noMisses': 'Ошибок пока нет. Пройдите тест или историю, чтобы увидеть их здесь.',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': 'Ваши стили',
+  'imageStyle.minimal': 'Минимализм',
+  'imageStyle.abstract': 'Абстракция',
+  'imageStyle.scenario': 'Жизненная сцена',
+
+  'imageStyle.photo': 'Фото',
+  'imageStyle.watercolor': 'Акварель',
+  'imageStyle.comic': 'Комикс',
+  'imageStyle.mnemonic': 'Мнемоническая сцена',
+  'word.customizeImage': 'Настроить изображение',
+  'imageEditor.title': 'Выберите стиль и отредактируйте запрос перед созданием',
+  'imageEditor.style': 'Стиль',
+  'imageEditor.basedOn': 'На основе',
+  'imageEditor.wordOnly': 'Само слово',
+  'imageEditor.prompt': 'Запрос',
+  'imageEditor.reset': 'Собрать запрос заново',
+  'imageEditor.edited': 'Изменено вручную. Текст будет отправлен как есть.',
+  'imageEditor.generate': 'Создать изображение',
+
+  'common.backToWordbook': 'Назад к словарю',
+  'review.complete': 'Сессия завершена — повторений: {count}.',
+  'review.nothingDue': 'Сейчас нечего повторять.',
+  'review.remaining': 'Осталось: {count}',
+  'review.reviewed': 'Повторено: {count}',
+  'review.showDefinition': 'Показать определение',
+  'grade.again': 'Снова',
+  'grade.hard': 'Трудно',
+  'grade.good': 'Хорошо',
+  'grade.easy': 'Легко',
+  'exercise.definition': 'Выбери слово',
+  'exercise.synonym': 'Выбери синоним',
+  'exercise.example': 'Дополни предложение',
+  'exercise.match': 'Сопоставь картинки',
+  'quiz.askDefinition': 'Какое слово подходит к этому определению?',
+  'quiz.askSynonym': 'Какое слово ближе всего по смыслу к «{word}»?',
+  'quiz.askExample': 'Какое слово дополняет предложение?',
+  'quiz.correct': 'Верно!',
+  'quiz.answerWas': 'Правильный ответ: «{answer}».',
+  'quiz.next': 'Далее',
+  'quiz.matchHint': 'Выберите слово, затем подходящую к нему картинку.',
+  'quiz.pictureAlt': 'Картинка теста',
+  'quiz.check': 'Проверить',
+  'quiz.needWords': 'Сохраните хотя бы {count} слов, чтобы составить тест.',
+  'quiz.complete': 'Тест завершён',
+  'quiz.missedMoved': 'Слова с ошибками подняты в очереди повторения:',
+  'quiz.newQuiz': 'Новый тест',
+  'quiz.end': 'Завершить тест',
+  'story.reveal': 'Показать',
+  'story.test': 'Проверь меня',
+  'story.revealHint': 'Нажмите на подчёркнутые пропуски, чтобы увидеть слова.',
+  'story.score': 'Верно: {score} / {total}',
+  'story.missedMoved': 'Слова с ошибками подняты в очереди повторения.',
+  'story.tryAgain': 'Ещё раз',
+  'story.check': 'Проверить ответы',
+  'reader.placeholder': 'Вставьте статью или отрывок, который вы читаете...',
+  'reader.read': 'Читать',
+  'reader.status': 'Новых слов: {count} · наведите для перевода, нажмите для выбора',
+  'reader.withImages': 'С картинками',
+  'reader.clear': 'Очистить',
+  'reader.selectAll': 'Выбрать все',
+  'reader.save': 'Сохранить в словарь',
+  'reader.saveCount': 'Сохранить в словарь: {count}',
+  'reader.another': 'Читать другой отрывок',
+  'reader.queued': 'Слов в очереди для словаря: {count}',
+  'export.title': 'Экспорт словаря',
+  'export.layout': 'Макет карточки',
+  'export.front': 'Лицо',
+  'export.back': 'Оборот',
+  'export.off': 'Нет',
+  'export.imagesAnkiOnly': 'Картинки включаются только в пакеты Anki.',
+  'export.failed': 'Не удалось экспортировать. Попробуйте ещё раз.',
+  'export.download': 'Скачать',
+  'exportField.word': 'Слово',
+  'exportField.phonetic': 'Произношение',
+  'exportField.grammar': 'Грамматика',
+  'exportField.definition': 'Определение',
+  'exportField.examples': 'Примеры',
+  'exportField.image': 'Картинка',
+  'import.title': 'Импорт слов',
+  'import.subtitle': 'По одному слову в строке, CSV или JSON.',
+  'import.chooseFile': 'Выбрать файл',
+  'import.withImages': 'Создавать картинки',
+  'import.summary': 'Найдено: {found} · новых: {fresh} · уже сохранено или в очереди: {skipped}',
+  'import.parseError': 'Не удалось прочитать этот JSON. Проверьте формат и попробуйте ещё раз.',
+  'import.submit': 'Импортировать слова',
+  'import.submitCount': 'Импортировать слов: {count}',
+  'import.progress': 'Прогресс {done}/{total}',
+  'import.retryFailed': 'Повторить неудачные',
+  'import.clearFinished': 'Убрать завершённые',
+  'import.retry': 'Повторить',
+  'import.pending': 'Ожидает',
+  'import.running': 'Выполняется',
+  'import.done': 'Готово',
+  'import.failed': 'Ошибка',
+  'storage.used': 'Использовано {used} из {quota}',
+  'storage.wordList': 'Список слов: {size} в localStorage',
+
+  'export.count': 'Слов: {count}',
+  'export.deckCount': '{deck} · слов: {count}',
+
+  'imageEditor.findingSoundAlike': 'Ищем созвучное слово на языке: {language}...',
+  'imageEditor.soundAlike': 'Созвучно: {keyword}',
+  'imageEditor.sceneFailed': 'Не удалось найти созвучное слово. Выберите другой стиль или напишите запрос сами.',
+
+  'storage.wordbookFull': 'Не удалось сохранить словарь: хранилище браузера заполнено.',
+  'storage.imageFull': 'Не удалось сохранить картинку: возможно, хранилище браузера заполнено.',
+  'chat.stopped': 'Остановлено.',
+  'chat.failed': 'Сейчас не могу ответить на это.',
+
+  'grammar.article': 'Артикль',
+  'grammar.gender': 'Род',
+  'grammar.measureWord': 'Счётное слово',
+  'grammar.reading': 'Чтение',
+  'grammar.romanization': 'Латинизация',
+};
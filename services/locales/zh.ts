@@ -0,0 +1,288 @@
+import { Messages } from "./en";
+
+export const zh: Messages = {
+  'nav.reader': '阅读',
+  'nav.review': '复习',
+  'nav.wordbook': '单词本',
+  'header.iSpeak': '我的语言',
+  'header.explainIn': '解释语言',
+
+  'hero.title': '词语，',
+  'hero.titleAccent': '焕然一新。',
+  'hero.subtitle': '输入一个词，获取用你的语言呈现的图文详解。',
+
+  'search.modeWord': '单词',
+  'search.modeSentence': '句子',
+  'search.placeholderWord': '搜索单词...',
+  'search.placeholderSentence': '粘贴句子或习语...',
+  'search.submitWord': '搜索',
+  'search.submitSentence': '分析',
+  'search.recent': '最近搜索',
+  'search.clear': '清除',
+  'search.sourceSaved': '单词本',
+  'search.sourceRecent': '最近',
+  'search.didYouMean': '“{term}”看起来不像一个词。你是不是要找：',
+  'search.searchAnyway': '仍然搜索“{term}”',
+
+  'word.pronounce': '发音',
+  'word.voice': '声音',
+  'word.slow': '慢速',
+  'word.slowTitle': '慢速播放',
+  'word.refresh': '刷新',
+  'word.cachedRefresh': '已缓存 · 刷新',
+  'word.refreshTitle': '重新生成释义和图片',
+  'word.definition': '释义（{language}）',
+  'word.illustrateSense': '为此义项配图',
+  'word.originalDefinition': '原语言释义',
+  'word.vibeCheck': '语气与语境',
+  'word.usageExamples': '用法示例',
+  'word.forms': '词形',
+  'word.showForms': '显示词形',
+  'word.formsHint': '“{word}”的变位、复数和比较级。',
+  'word.speakingPractice': '口语练习',
+  'word.origin': '词源与历史',
+  'word.visualization': 'AI 图解',
+  'word.saved': '已保存',
+  'word.saveSense': '保存义项 {n}',
+  'word.save': '保存到单词本',
+  'word.generatingArt': '正在生成图片...',
+  'word.aiGenerated': 'AI 生成',
+  'word.noImage': '暂无图片',
+  'word.feedback': '反馈',
+  'word.generateVariation': '生成变体',
+
+  'gems.title': '隐藏宝藏',
+  'gems.subtitle': '趣闻、俚语和文化秘密。',
+  'gems.reveal': '揭开秘密',
+  'gems.loading': '挖掘中...',
+
+  'chat.ask': '问 AI',
+  'chat.title': '导师对话',
+  'chat.pastConversations': '历史对话',
+  'chat.discussing': '正在讨论“{word}”',
+  'chat.noThreads': '还没有保存的对话。',
+  'chat.messageCount': '{count} 条消息',
+  'chat.deleteThread': '删除对话',
+  'chat.empty': '你还想了解什么？',
+  'chat.promptQuiz': '给我出个小测验。',
+  'chat.promptFormal': '这个词正式吗？',
+  'chat.promptTranslate': '翻译一个句子。',
+  'chat.regenerate': '重新生成',
+  'chat.saveNote': '存为笔记',
+  'chat.noteAdded': '已添加到笔记',
+  'chat.noteTitle': '将此回答附加到单词本中的这个词',
+  'chat.noteTitleUnsaved': '请先将这个词保存到单词本',
+  'chat.placeholder': '输入消息...',
+  'chat.stop': '停止生成',
+
+  'wordbook.title': '我的单词本',
+  'wordbook.count': '已保存 {count} 个词',
+  'wordbook.import': '导入',
+  'wordbook.importing': '正在导入 {progress}',
+  'wordbook.export': '导出',
+  'wordbook.reviewDue': '复习 {count} 个到期词',
+  'wordbook.quiz': '测验',
+  'wordbook.story': '用 AI 故事练习',
+  'wordbook.empty': '还没有保存任何单词。',
+  'wordbook.startSearching': '开始搜索',
+  'wordbook.or': '或',
+  'wordbook.importList': '导入单词列表',
+  'wordbook.remove': '从单词本中移除',
+  'wordbook.open': '打开单词及其对话',
+
+  'review.title': '复习',
+  'review.due': '{count} 张卡片到期',
+  'reader.title': '阅读',
+  'reader.subtitle': '粘贴一段文字；不在单词本中的词会被高亮',
+  'reader.saving': '正在保存单词 {progress}',
+  'quiz.title': '测验',
+  'quiz.subtitle': '根据你保存的 {count} 个单词生成',
+
+  'sentence.literal': '直译',
+  'sentence.natural': '意译',
+  'sentence.wordByWord': '逐词解析',
+  'sentence.open': '打开“{word}”',
+
+  'practice.example': '例句 {n}',
+  'practice.record': '录音',
+  'practice.recordAgain': '重新录音',
+  'practice.stop': '停止',
+  'practice.assess': '评估',
+  'practice.heard': '识别结果：',
+  'practice.unsupported': '此浏览器不支持录音。',
+  'practice.micError': '无法访问麦克风，请检查浏览器权限。',
+  'practice.assessError': '无法评估此录音，请重试。',
+
+  'forms.conjugation': '动词变位',
+  'forms.declension': '名词变格',
+  'forms.comparison': '比较级',
+  'forms.none': '无词形变化',
+  'forms.invariable': '这个词没有词形变化。',
+
+  'speak.listen': '收听',
+
+  'wordbook.allDecks': '全部单词',
+  'wordbook.edit': '编辑卡组、标签和笔记',
+  'editor.title': '卡组、标签和笔记',
+  'editor.deck': '卡组',
+  'editor.deckPlaceholder': '例如：旅行',
+  'editor.tags': '标签',
+  'editor.tagsPlaceholder': '食物, 动词, 第三章',
+  'editor.notes': '笔记',
+  'editor.save': '保存',
+  'editor.cancel': '取消',
+
+  'filter.search': '搜索单词、释义和笔记...',
+  'filter.allLanguages': '所有语言',
+  'filter.anyTime': '任何时间',
+  'filter.pastWeek': '过去一周',
+  'filter.pastMonth': '过去一个月',
+  'filter.pastYear': '过去一年',
+  'filter.allStatuses': '所有状态',
+  'filter.statusNew': '新词',
+  'filter.statusDue': '待复习',
+  'filter.statusLearning': '学习中',
+  'filter.statusMastered': '已掌握',
+  'sort.newest': '最新',
+  'sort.oldest': '最早',
+  'sort.alphabetical': '按字母',
+  'sort.weakest': '记忆最弱',
+  'filter.clear': '清除筛选',
+  'filter.noMatches': '没有符合筛选条件的单词。',
+  'filter.showing': '{count} / {total}',
+
+  'nav.progress': '进度',
+  'stats.title': '学习进度',
+  'stats.subtitle': '过去 30 天的学习情况',
+  'stats.empty': '查询并收藏一些单词，即可开始追踪进度。',
+  'stats.wordsSaved': '已收藏单词',
+  'stats.currentStreak': '当前连续天数',
+  'stats.longestStreak': '最长连续天数',
+  'stats.days': '{count} 天',
+  'stats.accuracy': '复习正确率',
+  'stats.savedPerDay': '每日收藏单词',
+  'stats.lookups': '过去 30 天查询 {count} 次',
+  'stats.accuracyPerDay': '每日复习正确率',
+  'stats.noReviews': '过去 30 天没有复习记录。',
+  'stats.byLanguage': '按语言',
+  'stats.byPartOfSpeech': '按词性',
+  'stats.unspecified': '未指定',
+  'stats.mostMissed': '测验中最常出错',
+  'stats.noMisses': '还没有出错的单词。做一次测验或故事练习后会显示在这里。',
+  'stats.misses': '{count}×',
+
+  'image.styleHistory': '你的风格',
+  'imageStyle.minimal': '极简',
+  'imageStyle.abstract': '抽象',
+  'imageStyle.scenario': '真实场景',
+
+  'imageStyle.photo': '照片',
+  'imageStyle.watercolor': '水彩',
+  'imageStyle.comic': '漫画',
+  'imageStyle.mnemonic': '谐音记忆场景',
+  'word.customizeImage': '自定义图片',
+  'imageEditor.title': '生成前选择风格并编辑提示词',
+  'imageEditor.style': '风格',
+  'imageEditor.basedOn': '依据',
+  'imageEditor.wordOnly': '单词本身',
+  'imageEditor.prompt': '提示词',
+  'imageEditor.reset': '重新生成提示词',
+  'imageEditor.edited': '已手动编辑，将按原文发送。',
+  'imageEditor.generate': '生成图片',
+
+  'common.backToWordbook': '返回单词本',
+  'review.complete': '本轮完成，共复习 {count} 次。',
+  'review.nothingDue': '现在没有需要复习的内容。',
+  'review.remaining': '剩余 {count}',
+  'review.reviewed': '已复习 {count}',
+  'review.showDefinition': '显示释义',
+  'grade.again': '重来',
+  'grade.hard': '困难',
+  'grade.good': '良好',
+  'grade.easy': '简单',
+  'exercise.definition': '选出单词',
+  'exercise.synonym': '选择近义词',
+  'exercise.example': '补全句子',
+  'exercise.match': '图片配对',
+  'quiz.askDefinition': '哪个单词符合这个释义？',
+  'quiz.askSynonym': '哪个单词与“{word}”的意思最接近？',
+  'quiz.askExample': '哪个单词能补全这个句子？',
+  'quiz.correct': '正确！',
+  'quiz.answerWas': '答案是“{answer}”。',
+  'quiz.next': '下一题',
+  'quiz.matchHint': '先选一个单词，再选它对应的图片。',
+  'quiz.pictureAlt': '测验图片',
+  'quiz.check': '检查',
+  'quiz.needWords': '至少保存 {count} 个单词才能生成测验。',
+  'quiz.complete': '测验完成',
+  'quiz.missedMoved': '答错的单词已在复习队列中提前：',
+  'quiz.newQuiz': '新测验',
+  'quiz.end': '结束测验',
+  'story.reveal': '显示',
+  'story.test': '测试我',
+  'story.revealHint': '点击带下划线的空格来显示单词。',
+  'story.score': '答对 {score} / {total}',
+  'story.missedMoved': '答错的单词已在复习队列中提前。',
+  'story.tryAgain': '再试一次',
+  'story.check': '检查答案',
+  'reader.placeholder': '粘贴你正在阅读的文章或段落...',
+  'reader.read': '阅读',
+  'reader.status': '{count} 个生词 · 悬停查看释义，点击选择',
+  'reader.withImages': '附带图片',
+  'reader.clear': '清除',
+  'reader.selectAll': '全选',
+  'reader.save': '保存到单词本',
+  'reader.saveCount': '保存 {count} 个到单词本',
+  'reader.another': '阅读另一段',
+  'reader.queued': '已加入单词本队列的单词：{count}',
+  'export.title': '导出单词本',
+  'export.layout': '卡片布局',
+  'export.front': '正面',
+  'export.back': '背面',
+  'export.off': '不用',
+  'export.imagesAnkiOnly': '只有 Anki 包会包含图片。',
+  'export.failed': '导出失败，请重试。',
+  'export.download': '下载',
+  'exportField.word': '单词',
+  'exportField.phonetic': '音标',
+  'exportField.grammar': '语法',
+  'exportField.definition': '释义',
+  'exportField.examples': '例句',
+  'exportField.image': '图片',
+  'import.title': '导入单词',
+  'import.subtitle': '每行一个单词，或 CSV、JSON。',
+  'import.chooseFile': '选择文件',
+  'import.withImages': '生成图片',
+  'import.summary': '找到 {found} 个 · 新词 {fresh} 个 · {skipped} 个已保存或在队列中',
+  'import.parseError': '无法读取该 JSON。请检查格式后重试。',
+  'import.submit': '导入单词',
+  'import.submitCount': '导入 {count} 个单词',
+  'import.progress': '进度 {done}/{total}',
+  'import.retryFailed': '重试失败项',
+  'import.clearFinished': '清除已完成',
+  'import.retry': '重试',
+  'import.pending': '等待中',
+  'import.running': '进行中',
+  'import.done': '完成',
+  'import.failed': '失败',
+  'storage.used': '已用 {used} / {quota}',
+  'storage.wordList': '单词列表：localStorage 中 {size}',
+
+  'export.count': '{count} 个单词',
+  'export.deckCount': '{deck} · {count} 个单词',
+
+  'imageEditor.findingSoundAlike': '正在寻找发音相近的{language}词...',
+  'imageEditor.soundAlike': '谐音：{keyword}',
+  'imageEditor.sceneFailed': '没有找到谐音词。请换一种风格，或自己编写提示词。',
+
+  'storage.wordbookFull': '无法保存单词本：浏览器存储空间已满。',
+  'storage.imageFull': '无法保存图片：浏览器存储空间可能已满。',
+  'chat.stopped': '已停止。',
+  'chat.failed': '我暂时无法回答这个问题。',
+
+  'grammar.article': '冠词',
+  'grammar.gender': '性',
+  'grammar.measureWord': '量词',
+  'grammar.reading': '读音',
+  'grammar.romanization': '罗马字转写',
+};
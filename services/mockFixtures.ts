@@ -0,0 +1,85 @@
+import { WordDefinition, AdditionalMeaning } from "../types";
+
+// Hand-written entries so demos of common words look realistic offline.
+// Keyed by lowercase word; anything else falls back to generated placeholder data.
+export const WORD_FIXTURES: Record<string, WordDefinition> = {
+  serendipity: {
+    word: "serendipity",
+    phonetic: "/ˌsɛr.ənˈdɪp.ɪ.ti/",
+    partOfSpeech: "noun",
+    definition: "The happy accident of finding something good without looking for it.",
+    originalDefinition: "The occurrence and development of events by chance in a happy or beneficial way.",
+    examples: [
+      "Meeting my best friend on a delayed train was pure serendipity. (Conocer a mi mejor amigo en un tren retrasado fue pura casualidad.)",
+      "Many scientific discoveries owe something to serendipity. (Muchos descubrimientos científicos deben algo a la casualidad.)",
+      "By serendipity, the bookshop had the exact edition she wanted. (Por casualidad, la librería tenía la edición exacta que quería.)",
+    ],
+    synonyms: ["chance", "fluke", "luck", "fortune", "happy accident"],
+    etymology: "Coined in 1754 by Horace Walpole after the Persian fairy tale \"The Three Princes of Serendip\".",
+    vibes: ["Warm, slightly literary tone.", "Common when telling stories about lucky coincidences."],
+  },
+  gato: {
+    word: "gato",
+    phonetic: "/ˈɡa.to/",
+    partOfSpeech: "noun (masculine)",
+    definition: "A small domesticated feline kept as a pet; a cat.",
+    originalDefinition: "Mamífero felino doméstico, de cabeza redonda, patas cortas y pelaje suave.",
+    examples: [
+      "El gato duerme en el sofá. (The cat is sleeping on the sofa.)",
+      "Tengo dos gatos y un perro. (I have two cats and a dog.)",
+      "Cuatro gatos vinieron a la fiesta. (Hardly anyone came to the party.)",
+    ],
+    synonyms: ["minino", "felino", "michi", "micho", "morrongo"],
+    grammar: { gender: "masculine", article: "el" },
+    etymology: "From Late Latin \"cattus\", of uncertain, possibly North African, origin.",
+    vibes: ["Everyday, neutral word.", "Appears in many idioms, e.g. \"cuatro gatos\" for a tiny crowd."],
+  },
+  bank: {
+    word: "bank",
+    phonetic: "/bæŋk/",
+    partOfSpeech: "noun",
+    definition: "An institution that keeps money for customers and lends it out.",
+    originalDefinition: "A financial establishment that invests money deposited by customers and pays it out when required.",
+    examples: [
+      "I need to go to the bank before it closes. (Necesito ir al banco antes de que cierre.)",
+      "They had a picnic on the river bank. (Hicieron un picnic en la orilla del río.)",
+      "You can bank on her to finish on time. (Puedes contar con que ella termine a tiempo.)",
+    ],
+    synonyms: ["lender", "treasury", "shore", "embankment", "reserve"],
+    etymology: "From Italian \"banca\", the bench used by money changers.",
+    vibes: ["Neutral in finance.", "\"Bank on\" is casual and confident."],
+    senses: [
+      {
+        partOfSpeech: "noun",
+        definition: "An institution that keeps money for customers and lends it out.",
+        examples: ["I need to go to the bank before it closes. (Necesito ir al banco antes de que cierre.)"],
+        register: "neutral",
+      },
+      {
+        partOfSpeech: "noun",
+        definition: "The sloping land alongside a river or lake.",
+        examples: ["They had a picnic on the river bank. (Hicieron un picnic en la orilla del río.)"],
+        register: "neutral",
+      },
+      {
+        partOfSpeech: "verb",
+        definition: "To rely on something happening (\"bank on\").",
+        examples: ["You can bank on her to finish on time. (Puedes contar con que ella termine a tiempo.)"],
+        register: "informal",
+      },
+    ],
+  },
+};
+
+export const MEANING_FIXTURES: Record<string, AdditionalMeaning[]> = {
+  serendipity: [
+    { context: "History", definition: "Walpole coined it in a letter, describing princes who kept discovering things they were not seeking." },
+    { context: "Culture", definition: "Often voted one of the most beautiful words in English." },
+    { context: "Science", definition: "Penicillin and the microwave oven are classic serendipitous discoveries." },
+  ],
+  gato: [
+    { context: "Idiom", definition: "\"Dar gato por liebre\" means to swindle someone by passing off something inferior." },
+    { context: "Slang", definition: "In Madrid, \"gato\" is a nickname for people born and raised in the city." },
+    { context: "Tool", definition: "\"Gato\" is also a car jack in Spanish." },
+  ],
+};
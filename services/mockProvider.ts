@@ -0,0 +1,262 @@
+import { WordDefinition, SupportedLanguage, AdditionalMeaning, StoryQuiz, SpellingCheck, SentenceAnalysis, WordGloss, PronunciationAssessment, Inflections, ImagePromptOptions, MnemonicScene } from "../types";
+import type { AIProvider, ChatHistoryEntry } from "./ai";
+import { PCM_SAMPLE_RATE } from "./audio";
+import { WORD_FIXTURES, MEANING_FIXTURES } from "./mockFixtures";
+import { editDistance } from "./storyQuiz";
+import { stableHash } from "./hash";
+
+const MOCK_LATENCY_MS = 250; // Enough to see loading states during demos
+
+const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+const normalize = (word: string) => word.trim().toLowerCase();
+
+const placeholderDefinition = (word: string, targetLanguage: SupportedLanguage, nativeLanguage: SupportedLanguage): WordDefinition => ({
+  word: word.trim(),
+  phonetic: `/${normalize(word)}/`,
+  partOfSpeech: "noun",
+  definition: `Offline demo definition of "${word.trim()}" (explained in ${targetLanguage}).`,
+  originalDefinition: `Offline demo definition of "${word.trim()}" in its original language.`,
+  examples: [1, 2, 3].map(n => `Example sentence ${n} using "${word.trim()}". (Translation in ${nativeLanguage}.)`),
+  synonyms: ["alpha", "beta", "gamma", "delta", "epsilon"].map(s => `${s}-${normalize(word)}`),
+  etymology: "Mock provider: no etymology available offline.",
+  vibes: ["Demo data generated without a network connection."],
+});
+
+// Deterministic abstract artwork as an SVG data URL; no text, like the real prompt demands
+const mockImage = (word: string, promptContext?: string) => {
+  const seed = stableHash(`${normalize(word)}|${promptContext ?? ''}`);
+  const hue = seed % 360;
+  const shapes = Array.from({ length: 3 + (seed % 4) }, (_, i) => {
+    const s = stableHash(`${seed}-${i}`);
+    return `<circle cx="${s % 400}" cy="${(s >> 8) % 300}" r="${30 + (s >> 16) % 90}" fill="hsl(${(hue + i * 40) % 360},70%,60%)" fill-opacity="0.7"/>`;
+  }).join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300"><rect width="400" height="300" fill="hsl(${hue},45%,92%)"/>${shapes}</svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// A short two-note chime standing in for speech
+const mockSpeech = (text: string) => {
+  const seconds = 0.5;
+  const frames = Math.floor(PCM_SAMPLE_RATE * seconds);
+  const base = 300 + (stableHash(text) % 300);
+  const samples = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    const t = i / PCM_SAMPLE_RATE;
+    const freq = i < frames / 2 ? base : base * 1.25;
+    const envelope = Math.sin(Math.PI * (i / frames));
+    samples[i] = Math.round(Math.sin(2 * Math.PI * freq * t) * envelope * 8000);
+  }
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const createMockProvider = (): AIProvider => {
+  // Near-misses of a fixture word (e.g. "serendipty") get a suggestion; everything else passes
+  const checkSpelling = async (word: string, _nativeLanguage: SupportedLanguage): Promise<SpellingCheck> => {
+    await delay();
+    const input = normalize(word);
+    if (WORD_FIXTURES[input]) return { isValid: true, suggestions: [] };
+    const suggestions = Object.keys(WORD_FIXTURES)
+      .map(candidate => ({ candidate, distance: editDistance(input, candidate) }))
+      .filter(({ distance }) => distance > 0 && distance <= 2)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ candidate }) => candidate);
+    return { isValid: suggestions.length === 0, suggestions };
+  };
+
+  const getWordDetails = async (word: string, targetLanguage: SupportedLanguage, nativeLanguage: SupportedLanguage) => {
+    await delay();
+    return WORD_FIXTURES[normalize(word)] ?? placeholderDefinition(word, targetLanguage, nativeLanguage);
+  };
+
+  const getAdditionalMeanings = async (word: string, targetLanguage: SupportedLanguage): Promise<AdditionalMeaning[]> => {
+    await delay();
+    return MEANING_FIXTURES[normalize(word)] ?? [
+      { context: "Idiom", definition: `A made-up idiom featuring "${word}" (${targetLanguage}).` },
+      { context: "History", definition: `An invented origin story for "${word}".` },
+      { context: "Slang", definition: `How "${word}" might be used casually, per the offline mock.` },
+    ];
+  };
+
+  // Naive English-style forms keyed off the part of speech; enough to exercise every table layout
+  const getInflections = async (
+    word: string,
+    partOfSpeech: string,
+    _targetLanguage: SupportedLanguage
+  ): Promise<Inflections> => {
+    await delay();
+    const base = normalize(word);
+    const pos = partOfSpeech.toLowerCase();
+
+    if (pos.includes('verb') && !pos.includes('adverb')) {
+      const persons = ['I', 'you', 'he/she', 'we', 'you (pl.)', 'they'];
+      return {
+        kind: 'conjugation',
+        tables: [
+          { title: 'Present', columns: ['Form'], rows: persons.map((p, i) => ({ label: p, cells: [i === 2 ? `${base}s` : base] })) },
+          { title: 'Past', columns: ['Form'], rows: persons.map(p => ({ label: p, cells: [`${base}ed`] })) },
+        ],
+        note: 'Mock provider: regular forms only.',
+      };
+    }
+    if (pos.includes('noun')) {
+      return {
+        kind: 'declension',
+        tables: [{ title: 'Number', columns: ['Singular', 'Plural'], rows: [{ label: 'Nominative', cells: [base, `${base}s`] }] }],
+      };
+    }
+    if (pos.includes('adjective') || pos.includes('adverb')) {
+      return {
+        kind: 'comparison',
+        tables: [{
+          title: 'Degrees',
+          columns: ['Form'],
+          rows: [
+            { label: 'Positive', cells: [base] },
+            { label: 'Comparative', cells: [`more ${base}`] },
+            { label: 'Superlative', cells: [`most ${base}`] },
+          ],
+        }],
+      };
+    }
+    return { kind: 'none', tables: [] };
+  };
+
+  // Splits on spaces; fixture words get their real gloss, the rest a placeholder
+  const analyzeSentence = async (
+    sentence: string,
+    _targetLanguage: SupportedLanguage,
+    nativeLanguage: SupportedLanguage
+  ): Promise<SentenceAnalysis> => {
+    await delay();
+    const words = sentence.split(/\s+/).map(w => w.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')).filter(Boolean);
+    return {
+      sentence: sentence.trim(),
+      literalTranslation: `[literal ${nativeLanguage}] ${words.map(w => normalize(w)).join(' ')}`,
+      naturalTranslation: `[natural ${nativeLanguage}] ${sentence.trim()}`,
+      tokens: words.map((text, i) => {
+        const fixture = WORD_FIXTURES[normalize(text)];
+        return {
+          text,
+          lemma: normalize(text),
+          gloss: fixture ? fixture.synonyms[0] : `${normalize(text)} (gloss)`,
+          role: fixture ? fixture.partOfSpeech : i === 0 ? 'subject' : 'word',
+        };
+      }),
+      notes: 'Offline mock: translations and roles are placeholders.',
+    };
+  };
+
+  const glossWords = async (words: string[], _passage: string, targetLanguage: SupportedLanguage): Promise<WordGloss[]> => {
+    await delay();
+    return words.map(word => ({
+      word,
+      lemma: normalize(word),
+      gloss: WORD_FIXTURES[normalize(word)]?.definition ?? `"${word}" (${targetLanguage} gloss)`,
+    }));
+  };
+
+  const getMnemonicScene = async (word: string, nativeLanguage: SupportedLanguage, meaning?: string): Promise<MnemonicScene> => {
+    await delay();
+    const keyword = `${normalize(word).slice(0, 3)}-${nativeLanguage.slice(0, 2).toLowerCase()}`;
+    return {
+      keyword,
+      scene: `A giant "${keyword}" acting out ${meaning ? `"${meaning}"` : `the meaning of "${word.trim()}"`} in a busy town square`,
+    };
+  };
+
+  const generateWordImage = async (word: string, promptContext?: string, options: ImagePromptOptions = {}) => {
+    await delay();
+    return mockImage(word, options.prompt?.trim() || [promptContext, options.style].filter(Boolean).join('|'));
+  };
+
+  const generateStoryFromWords = async (words: string[], targetLanguage: SupportedLanguage): Promise<StoryQuiz> => {
+    await delay();
+    const subset = words.slice(0, 8);
+    const sentences = subset.map((w, i) =>
+      i === 0 ? `Once upon a time there was a {{${w}}}.` : `Later that day, everyone talked about the {{${w}}}.`
+    );
+    return {
+      title: `A Tale of ${subset.length} Words`,
+      content: `${sentences.join(' ')} The end.`,
+      wordsUsed: subset,
+    };
+  };
+
+  // Streams a canned Markdown reply word by word so streaming, cancel and rendering can be demoed
+  const streamChatAboutWord = async function* (
+    history: ChatHistoryEntry[],
+    message: string,
+    currentWord: string,
+    targetLanguage: string,
+    _nativeLanguage: string,
+    signal?: AbortSignal
+  ) {
+    await delay();
+    const reply = [
+      `**Offline tutor** (reply ${history.filter(h => h.role === 'model').length + 1}) about *${currentWord}*.`,
+      '',
+      `You asked: "${message}"`,
+      '',
+      `- A real answer in ${targetLanguage} needs the Gemini provider.`,
+      '- This mock streams word by word.',
+      '',
+      '| Form | Example |',
+      '| --- | --- |',
+      `| base | ${currentWord} |`,
+    ].join('\n');
+
+    for (const piece of reply.split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, 30));
+      yield piece;
+    }
+  };
+
+  const synthesizeSpeech = async (text: string, voice = '') => {
+    await delay();
+    return mockSpeech(`${voice}|${text}`);
+  };
+
+  // Score derived from the recording itself, so re-recording changes the result
+  const assessPronunciation = async (
+    audioBase64: string,
+    _mimeType: string,
+    expectedText: string,
+    targetLanguage: SupportedLanguage
+  ): Promise<PronunciationAssessment> => {
+    await delay();
+    const score = 55 + (stableHash(`${audioBase64.length}|${expectedText}`) % 41);
+    const firstLetter = expectedText.trim().charAt(0) || '?';
+    return {
+      score,
+      transcript: expectedText.trim(),
+      summary: `Offline mock assessment (${targetLanguage}): connect Gemini for real feedback.`,
+      issues: score >= 90 ? [] : [
+        { sound: `/${firstLetter.toLowerCase()}/`, feedback: 'Mock feedback: make the first sound crisper.' },
+        { sound: 'stress', feedback: 'Mock feedback: put more weight on the stressed syllable.' },
+      ],
+    };
+  };
+
+  return {
+    name: 'mock',
+    checkSpelling,
+    getWordDetails,
+    getAdditionalMeanings,
+    getInflections,
+    analyzeSentence,
+    glossWords,
+    getMnemonicScene,
+    generateWordImage,
+    generateStoryFromWords,
+    streamChatAboutWord,
+    synthesizeSpeech,
+    assessPronunciation,
+  };
+};
@@ -0,0 +1,141 @@
+import { SavedItem } from "../types";
+import { exampleSentence } from "./wordbook";
+
+export type ExerciseKind = 'definition' | 'synonym' | 'example' | 'match';
+
+export interface ChoiceExercise {
+  id: string;
+  kind: Exclude<ExerciseKind, 'match'>;
+  itemId: string;
+  word: string;
+  prompt: string;
+  choices: string[];
+  answer: string;
+}
+
+// Pair each picture with its word
+export interface MatchExercise {
+  id: string;
+  kind: 'match';
+  pairs: { itemId: string; word: string; imageId: string }[];
+}
+
+export type Exercise = ChoiceExercise | MatchExercise;
+
+export interface ExerciseResult {
+  exerciseId: string;
+  kind: ExerciseKind;
+  correct: boolean;
+  missedWords: string[];
+}
+
+const CHOICE_COUNT = 4;
+const MATCH_SIZE = 4;
+const BLANK = '_____';
+
+export const MIN_QUIZ_ITEMS = 2; // Below this there is nothing to draw distractors from
+
+const shuffle = <T>(list: T[], random: () => number): T[] => {
+  const copy = [...list];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const uniqueBy = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(v => {
+    const key = v.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Answer plus up to three distractors, in random order
+const withDistractors = (answer: string, pool: string[], random: () => number) => {
+  const distractors = shuffle(
+    uniqueBy(pool).filter(p => p.toLowerCase() !== answer.toLowerCase()),
+    random
+  ).slice(0, CHOICE_COUNT - 1);
+  return distractors.length > 0 ? shuffle([answer, ...distractors], random) : null;
+};
+
+// Scripts written without spaces can't use word boundaries
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+// Blank the word out of one of its example sentences (inflected endings included), dropping the translation in parentheses
+const blankExample = (item: SavedItem, random: () => number) => {
+  const word = escapeRegExp(item.word);
+  const source = UNSPACED_SCRIPT.test(item.word) ? word : `(?<![\\p{L}\\p{M}])${word}[\\p{L}\\p{M}]*`;
+  const candidates = (item.examples ?? [])
+    .map(exampleSentence)
+    .filter(example => new RegExp(source, 'iu').test(example));
+  if (candidates.length === 0) return null;
+  return shuffle(candidates, random)[0].replace(new RegExp(source, 'giu'), BLANK);
+};
+
+const buildChoiceExercise = (
+  kind: ChoiceExercise['kind'],
+  item: SavedItem,
+  others: SavedItem[],
+  random: () => number
+): ChoiceExercise | null => {
+  const otherWords = others.map(o => o.word);
+  const base = { id: `${kind}-${item.id}`, kind, itemId: item.id, word: item.word };
+
+  if (kind === 'definition') {
+    const choices = withDistractors(item.word, otherWords, random);
+    return choices && item.definition ? { ...base, prompt: item.definition, choices, answer: item.word } : null;
+  }
+
+  if (kind === 'synonym') {
+    if (!item.synonyms?.length) return null;
+    const answer = shuffle(item.synonyms, random)[0];
+    const own = new Set(item.synonyms.map(s => s.toLowerCase()));
+    const pool = others.flatMap(o => [o.word, ...(o.synonyms ?? [])]).filter(s => !own.has(s.toLowerCase()));
+    const choices = withDistractors(answer, pool, random);
+    return choices ? { ...base, prompt: item.word, choices, answer } : null;
+  }
+
+  const sentence = blankExample(item, random);
+  const choices = sentence ? withDistractors(item.word, otherWords, random) : null;
+  return sentence && choices ? { ...base, prompt: sentence, choices, answer: item.word } : null;
+};
+
+// Build a mixed session from the Wordbook; distractors always come from the user's other saved words
+export const buildQuizSession = (items: SavedItem[], size = 10, random: () => number = Math.random): Exercise[] => {
+  if (items.length < MIN_QUIZ_ITEMS) return [];
+
+  const exercises: Exercise[] = [];
+  const kinds: ChoiceExercise['kind'][] = ['definition', 'synonym', 'example'];
+
+  const withImages = shuffle(items.filter(item => item.imageId), random)
+    .filter((item, i, list) => list.findIndex(other => other.word.toLowerCase() === item.word.toLowerCase()) === i);
+  if (withImages.length >= 3) {
+    exercises.push({
+      id: 'match',
+      kind: 'match',
+      pairs: withImages.slice(0, MATCH_SIZE).map(item => ({ itemId: item.id, word: item.word, imageId: item.imageId })),
+    });
+  }
+
+  shuffle(items, random).forEach((item, i) => {
+    if (exercises.length >= size) return;
+    const others = items.filter(other => other.id !== item.id && other.word.toLowerCase() !== item.word.toLowerCase());
+    // Rotate through kinds, falling back to whichever this word has the data for
+    for (let k = 0; k < kinds.length; k++) {
+      const exercise = buildChoiceExercise(kinds[(i + k) % kinds.length], item, others, random);
+      if (exercise) {
+        exercises.push(exercise);
+        break;
+      }
+    }
+  });
+
+  return shuffle(exercises, random);
+};
@@ -0,0 +1,68 @@
+import { SavedItem } from "../types";
+
+export interface ReaderToken {
+  text: string;
+  isWord: boolean;
+  sentenceIndex: number;
+}
+
+export interface ReaderPassage {
+  sentences: string[];
+  tokens: ReaderToken[];
+}
+
+const MAX_GLOSS_WORDS = 150; // Keep one gloss request to a sane prompt size
+
+// Intl.Segmenter handles languages without spaces (Chinese, Japanese, Thai); the regex split is a fallback
+const segmentWords = (sentence: string): { text: string; isWord: boolean }[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+    return Array.from(segmenter.segment(sentence), s => ({ text: s.segment, isWord: !!s.isWordLike }));
+  }
+  return sentence
+    .split(/([\p{L}\p{M}\p{N}'’-]+)/u)
+    .filter(Boolean)
+    .map(text => ({ text, isWord: /[\p{L}]/u.test(text) }));
+};
+
+const splitSentences = (text: string): string[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text), s => s.segment);
+  }
+  return text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) ?? [text];
+};
+
+export const tokenizePassage = (text: string): ReaderPassage => {
+  const sentences = splitSentences(text);
+  const tokens = sentences.flatMap((sentence, sentenceIndex) =>
+    segmentWords(sentence).map(segment => ({
+      ...segment,
+      // Numbers count as word-like for the segmenter but aren't vocabulary
+      isWord: segment.isWord && /\p{L}/u.test(segment.text),
+      sentenceIndex,
+    }))
+  );
+  return { sentences: sentences.map(s => s.trim()), tokens };
+};
+
+export const wordKey = (word: string) => word.trim().toLowerCase();
+
+// A word is known once it (or its dictionary form) is in the Wordbook
+export const isKnownWord = (word: string, savedItems: SavedItem[], lemma?: string) => {
+  const keys = new Set([wordKey(word), lemma ? wordKey(lemma) : '']);
+  return savedItems.some(item => keys.has(wordKey(item.word)));
+};
+
+// Unique unknown words in reading order, capped for the gloss request
+export const collectUnknownWords = (passage: ReaderPassage, savedItems: SavedItem[]) => {
+  const seen = new Set<string>();
+  const words: string[] = [];
+  for (const token of passage.tokens) {
+    const key = wordKey(token.text);
+    if (!token.isWord || seen.has(key) || isKnownWord(token.text, savedItems)) continue;
+    seen.add(key);
+    words.push(token.text);
+  }
+  return words.slice(0, MAX_GLOSS_WORDS);
+};
@@ -0,0 +1,54 @@
+export interface Recording {
+  blob: Blob;
+  url: string; // Object URL for playback; revoke with discardRecording
+}
+
+export interface ActiveRecorder {
+  stop: () => Promise<Recording>;
+  cancel: () => void;
+}
+
+export const isRecordingSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+// Ask for the microphone and start recording; the caller stops it to get the clip
+export const startRecording = async (): Promise<ActiveRecorder> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: () =>
+      new Promise<Recording>((resolve) => {
+        recorder.onstop = () => {
+          release();
+          const blob = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+          resolve({ blob, url: URL.createObjectURL(blob) });
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+};
+
+export const discardRecording = (recording: Recording | null) => {
+  if (recording) URL.revokeObjectURL(recording.url);
+};
+
+// Base64 payload without the data: prefix, for sending to the model
+export const recordingToBase64 = (recording: Recording) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(recording.blob);
+  });
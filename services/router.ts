@@ -0,0 +1,111 @@
+import { StoryQuiz, SupportedLanguage } from "../types";
+
+// URL routes:
+//   /                                   search
+//   /word/:lang/:word[/chat]?from=:lang  lookup (explanation language, word, native language), optionally with the tutor chat open
+//   /wordbook[/story]                   Wordbook, optionally with the practice story open
+//   /review, /quiz, /reader, /stats
+export type Route =
+  | { name: 'search' }
+  | { name: 'word'; word: string; targetLanguage: SupportedLanguage; nativeLanguage: SupportedLanguage; panel?: 'chat' }
+  | { name: 'wordbook'; panel?: 'story' }
+  | { name: 'review' }
+  | { name: 'quiz' }
+  | { name: 'reader' }
+  | { name: 'stats' };
+
+// Extra data kept in the history entry; the generated story can't be rebuilt from the URL
+export interface RouteState {
+  story?: StoryQuiz;
+  panelOpened?: boolean; // Entry was pushed by opening a panel in-app, so closing it can step back
+}
+
+export const LANGUAGE_CODES: Record<SupportedLanguage, string> = {
+  [SupportedLanguage.ENGLISH]: 'en',
+  [SupportedLanguage.SPANISH]: 'es',
+  [SupportedLanguage.FRENCH]: 'fr',
+  [SupportedLanguage.GERMAN]: 'de',
+  [SupportedLanguage.CHINESE]: 'zh',
+  [SupportedLanguage.JAPANESE]: 'ja',
+  [SupportedLanguage.KOREAN]: 'ko',
+  [SupportedLanguage.HINDI]: 'hi',
+  [SupportedLanguage.ARABIC]: 'ar',
+  [SupportedLanguage.PORTUGUESE]: 'pt',
+  [SupportedLanguage.RUSSIAN]: 'ru',
+  [SupportedLanguage.ITALIAN]: 'it',
+};
+
+export const languageFromCode = (code: string | null | undefined): SupportedLanguage | null => {
+  const match = Object.entries(LANGUAGE_CODES).find(([, c]) => c === code?.toLowerCase());
+  return match ? (match[0] as SupportedLanguage) : null;
+};
+
+const decode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+// Unknown languages fall back to the given defaults so a mangled link still opens the word
+export const parseRoute = (
+  pathname: string,
+  search: string,
+  defaults: { targetLanguage: SupportedLanguage; nativeLanguage: SupportedLanguage }
+): Route => {
+  const [section, ...rest] = pathname.split('/').filter(Boolean);
+
+  switch (section) {
+    case 'word': {
+      const [lang, word, panel] = rest;
+      if (!word || !decode(word).trim()) return { name: 'search' };
+      return {
+        name: 'word',
+        word: decode(word),
+        targetLanguage: languageFromCode(lang) ?? defaults.targetLanguage,
+        nativeLanguage: languageFromCode(new URLSearchParams(search).get('from')) ?? defaults.nativeLanguage,
+        panel: panel === 'chat' ? 'chat' : undefined,
+      };
+    }
+    case 'wordbook':
+      return { name: 'wordbook', panel: rest[0] === 'story' ? 'story' : undefined };
+    case 'review':
+      return { name: 'review' };
+    case 'quiz':
+      return { name: 'quiz' };
+    case 'reader':
+      return { name: 'reader' };
+    case 'stats':
+      return { name: 'stats' };
+    default:
+      return { name: 'search' };
+  }
+};
+
+export const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'word': {
+      const path = `/word/${LANGUAGE_CODES[route.targetLanguage]}/${encodeURIComponent(route.word.trim())}`;
+      return `${path}${route.panel ? `/${route.panel}` : ''}?from=${LANGUAGE_CODES[route.nativeLanguage]}`;
+    }
+    case 'wordbook':
+      return route.panel ? '/wordbook/story' : '/wordbook';
+    case 'review':
+      return '/review';
+    case 'quiz':
+      return '/quiz';
+    case 'reader':
+      return '/reader';
+    case 'stats':
+      return '/stats';
+    default:
+      return '/';
+  }
+};
+
+export const pushRoute = (route: Route, state: RouteState = {}) =>
+  window.history.pushState(state, '', formatRoute(route));
+
+export const replaceRoute = (route: Route, state: RouteState = {}) =>
+  window.history.replaceState(state, '', formatRoute(route));
@@ -0,0 +1,69 @@
+import { SavedItem, SupportedLanguage } from "../types";
+
+const STORAGE_KEY = 'leximind_search_history';
+const MAX_ENTRIES = 50;
+
+export interface SearchHistoryEntry {
+  term: string;
+  targetLanguage: SupportedLanguage;
+  nativeLanguage: SupportedLanguage;
+  searchedAt: number;
+}
+
+export interface SearchSuggestion {
+  term: string;
+  source: 'history' | 'saved';
+}
+
+export const loadSearchHistory = (): SearchHistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as SearchHistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistSearchHistory = (history: SearchHistoryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.warn("Failed to persist search history", error);
+  }
+};
+
+// Newest first; searching a term again moves it to the top instead of duplicating it
+export const recordSearch = (history: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] => [
+  entry,
+  ...history.filter(h => h.term.toLowerCase() !== entry.term.toLowerCase()),
+].slice(0, MAX_ENTRIES);
+
+// Prefix matches from recent searches first, then from the Wordbook. An empty prefix lists recent searches.
+export const getSuggestions = (
+  prefix: string,
+  history: SearchHistoryEntry[],
+  savedItems: SavedItem[],
+  limit = 8
+): SearchSuggestion[] => {
+  const needle = prefix.trim().toLowerCase();
+  const seen = new Set<string>();
+  const suggestions: SearchSuggestion[] = [];
+
+  const add = (term: string, source: SearchSuggestion['source']) => {
+    const key = term.toLowerCase();
+    if (seen.has(key) || (needle && (!key.startsWith(needle) || key === needle))) return;
+    seen.add(key);
+    suggestions.push({ term, source });
+  };
+
+  history.forEach(h => add(h.term, 'history'));
+  if (needle) savedItems.forEach(item => add(item.word, 'saved'));
+
+  return suggestions.slice(0, limit);
+};
+
+// Terms the user has already seen a definition for don't need a spelling check
+export const isKnownTerm = (term: string, history: SearchHistoryEntry[], savedItems: SavedItem[]) => {
+  const key = term.trim().toLowerCase();
+  return history.some(h => h.term.toLowerCase() === key) || savedItems.some(item => item.word.toLowerCase() === key);
+};
@@ -0,0 +1,102 @@
+import { ReviewGrade, ReviewState, SavedItem } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // Forgotten cards come back in 10 minutes
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+// Fresh scheduling state for a newly saved word (due immediately)
+export const createReviewState = (now: number = Date.now()): ReviewState => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  dueDate: now,
+  lapses: 0,
+  repetitions: 0,
+});
+
+// Items saved before review mode existed have no scheduling state yet
+export const withReviewState = (item: SavedItem): SavedItem =>
+  item.review ? item : { ...item, review: createReviewState(item.timestamp) };
+
+// SM-2 style scheduling: compute the next state after grading a recall
+export const scheduleReview = (state: ReviewState, grade: ReviewGrade, now: number = Date.now()): ReviewState => {
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, state.ease - 0.2),
+      interval: 0,
+      dueDate: now + RELEARN_DELAY_MS,
+      lapses: state.repetitions > 0 ? state.lapses + 1 : state.lapses,
+      repetitions: 0,
+      lastReviewed: now,
+    };
+  }
+
+  let ease = state.ease;
+  let interval: number;
+
+  if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    interval = Math.max(1, Math.round(state.interval * 1.2));
+  } else if (state.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (state.repetitions === 1) {
+    interval = grade === 'easy' ? 6 : 3;
+  } else {
+    interval = Math.round(state.interval * ease * (grade === 'easy' ? 1.3 : 1));
+  }
+
+  if (grade === 'easy') {
+    ease += 0.15;
+  }
+
+  // Always move forward by at least one day over the previous interval
+  interval = Math.max(interval, state.repetitions > 0 ? state.interval + (grade === 'hard' ? 0 : 1) : 1);
+
+  return {
+    ease,
+    interval,
+    dueDate: now + interval * DAY_MS,
+    lapses: state.lapses,
+    repetitions: state.repetitions + 1,
+    lastReviewed: now,
+  };
+};
+
+// A miss outside a review session (e.g. in a story quiz): bring the card due now without resetting its progress
+export const prioritizeReview = (state: ReviewState, now: number = Date.now()): ReviewState => ({
+  ...state,
+  ease: Math.max(MIN_EASE, state.ease - 0.15),
+  dueDate: Math.min(state.dueDate, now),
+});
+
+export const isDue = (item: SavedItem, now: number = Date.now()) => item.review.dueDate <= now;
+
+export type ReviewStatus = 'new' | 'due' | 'learning' | 'mastered';
+
+const MASTERED_INTERVAL_DAYS = 21; // The usual "mature card" threshold
+
+export const getReviewStatus = (item: SavedItem, now: number = Date.now()): ReviewStatus => {
+  if (item.review.lastReviewed === undefined) return 'new';
+  if (isDue(item, now)) return 'due';
+  return item.review.interval >= MASTERED_INTERVAL_DAYS ? 'mastered' : 'learning';
+};
+
+// Rough recall strength for sorting: long intervals and high ease are strong, lapses are weak
+export const recallStrength = (state: ReviewState) =>
+  (state.ease * Math.log2(state.interval + 2)) / (1 + state.lapses);
+
+// Due cards, most overdue first
+export const getDueItems = (items: SavedItem[], now: number = Date.now()): SavedItem[] =>
+  items
+    .filter(item => isDue(item, now))
+    .sort((a, b) => a.review.dueDate - b.review.dueDate);
+
+// Human readable label for the interval a grade would produce, e.g. "10m", "3d"
+export const formatInterval = (state: ReviewState, now: number = Date.now()) => {
+  const ms = state.dueDate - now;
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -0,0 +1,134 @@
+import { SavedItem } from "../types";
+import { ActivityEvent } from "./activityLog";
+import { languagePairKey } from "./wordbookFilter";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyCount {
+  day: number; // Local midnight (ms)
+  count: number;
+}
+
+export interface DailyAccuracy {
+  day: number;
+  reviewed: number;
+  correct: number;
+}
+
+export interface Streaks {
+  current: number; // Consecutive active days ending today (or yesterday, if today is still open)
+  longest: number;
+}
+
+export interface BreakdownRow {
+  key: string;
+  count: number;
+}
+
+export interface MissedWord {
+  word: string;
+  misses: number;
+}
+
+export const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Local midnights for the last `days` days, oldest first. Date arithmetic rather than DAY_MS steps survives DST changes.
+const recentDays = (days: number, now: number) => {
+  const today = new Date(startOfDay(now));
+  return Array.from({ length: days }, (_, i) => {
+    const day = new Date(today);
+    day.setDate(today.getDate() - (days - 1 - i));
+    return day.getTime();
+  });
+};
+
+const countBy = <T>(values: T[], keyOf: (value: T) => number) => {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(keyOf(value), (counts.get(keyOf(value)) ?? 0) + 1));
+  return counts;
+};
+
+export const savedPerDay = (items: SavedItem[], days = 30, now: number = Date.now()): DailyCount[] => {
+  const counts = countBy(items, item => startOfDay(item.timestamp));
+  return recentDays(days, now).map(day => ({ day, count: counts.get(day) ?? 0 }));
+};
+
+// "Again" is the only failed recall; hard, good and easy all count as remembered
+export const reviewAccuracyPerDay = (events: ActivityEvent[], days = 30, now: number = Date.now()): DailyAccuracy[] => {
+  const byDay = new Map<number, { reviewed: number; correct: number }>();
+  events.forEach(event => {
+    if (event.type !== 'review') return;
+    const day = startOfDay(event.at);
+    const entry = byDay.get(day) ?? { reviewed: 0, correct: 0 };
+    entry.reviewed += 1;
+    if (event.grade !== 'again') entry.correct += 1;
+    byDay.set(day, entry);
+  });
+  return recentDays(days, now).map(day => ({ day, ...(byDay.get(day) ?? { reviewed: 0, correct: 0 }) }));
+};
+
+export const overallAccuracy = (events: ActivityEvent[]) => {
+  const grades = events.flatMap(event => (event.type === 'review' ? [event.grade] : []));
+  if (grades.length === 0) return null;
+  return grades.filter(grade => grade !== 'again').length / grades.length;
+};
+
+// A day counts once anything was looked up, saved, reviewed or quizzed
+export const getStreaks = (events: ActivityEvent[], items: SavedItem[], now: number = Date.now()): Streaks => {
+  const active = new Set([...events.map(e => startOfDay(e.at)), ...items.map(item => startOfDay(item.timestamp))]);
+  const sorted = Array.from(active).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    // Rounding absorbs the 23- and 25-hour days around DST changes
+    run = i > 0 && Math.round((day - sorted[i - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const today = startOfDay(now);
+  const yesterday = startOfDay(today - DAY_MS / 2);
+  let current = 0;
+  let cursor = active.has(today) ? today : yesterday;
+  while (active.has(cursor)) {
+    current += 1;
+    cursor = startOfDay(cursor - DAY_MS / 2);
+  }
+  return { current, longest };
+};
+
+const breakdown = (items: SavedItem[], keyOf: (item: SavedItem) => string | null): BreakdownRow[] => {
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    const key = keyOf(item) ?? '';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Array.from(counts, ([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+};
+
+// Keys are languagePairKey values; '' collects older items saved without a pair
+export const languageBreakdown = (items: SavedItem[]) => breakdown(items, languagePairKey);
+
+// Parts of speech are written in the explanation language, so they're only comparable within one pair.
+// `pairKey` is a languagePairKey, or '' for items saved before pairs were recorded.
+export const partOfSpeechBreakdown = (items: SavedItem[], pairKey: string) =>
+  breakdown(
+    items.filter(item => (languagePairKey(item) ?? '') === pairKey),
+    item => item.partOfSpeech?.trim().toLowerCase() || null
+  );
+
+export const mostMissedWords = (events: ActivityEvent[], limit = 10): MissedWord[] => {
+  const misses = new Map<string, MissedWord>();
+  events.forEach(event => {
+    if (event.type !== 'missed') return;
+    const key = event.word.toLowerCase();
+    const entry = misses.get(key) ?? { word: event.word, misses: 0 };
+    entry.misses += 1;
+    misses.set(key, entry);
+  });
+  return Array.from(misses.values()).sort((a, b) => b.misses - a.misses).slice(0, limit);
+};
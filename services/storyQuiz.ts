@@ -0,0 +1,110 @@
+export type StorySegment =
+  | { type: 'text'; text: string }
+  | { type: 'blank'; index: number; form: string; word: string };
+
+// Lowercase, strip accents and surrounding punctuation so "Café!" grades the same as "cafe"
+export const normalizeAnswer = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Levenshtein distance; also used by the mock provider's spelling check
+export const editDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const sharedPrefix = (a: string, b: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
+// The story wraps inflected forms ("{{cats}}"); work out which requested word each blank stands for
+export const matchSourceWord = (form: string, words: string[]) => {
+  const target = normalizeAnswer(form);
+  const exact = words.find(w => normalizeAnswer(w) === target);
+  if (exact) return exact;
+
+  let best = form;
+  let bestScore = 0;
+  for (const word of words) {
+    const candidate = normalizeAnswer(word);
+    const prefix = sharedPrefix(candidate, target);
+    // Most inflections keep the stem: require all but the last couple of letters to line up
+    if (prefix >= Math.max(2, Math.min(candidate.length, target.length) - 2) && prefix > bestScore) {
+      best = word;
+      bestScore = prefix;
+    }
+  }
+  if (bestScore > 0) return best;
+
+  // Irregular forms ("ran" for "run"): fall back to the closest spelling if it is reasonably close
+  let bestDistance = Infinity;
+  for (const word of words) {
+    const candidate = normalizeAnswer(word);
+    const distance = editDistance(candidate, target);
+    if (distance <= Math.ceil(Math.max(candidate.length, target.length) / 2) && distance < bestDistance) {
+      best = word;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+export const parseStory = (content: string, wordsUsed: string[]): StorySegment[] => {
+  let index = 0;
+  return content
+    .split(/(\{\{.*?\}\})/g)
+    .filter(Boolean)
+    .map((part): StorySegment => {
+      if (part.startsWith('{{') && part.endsWith('}}')) {
+        const form = part.slice(2, -2);
+        return { type: 'blank', index: index++, form, word: matchSourceWord(form, wordsUsed) };
+      }
+      return { type: 'text', text: part };
+    });
+};
+
+// Accept the exact form used in the story or the dictionary form, allowing one slip in longer words
+export const gradeAnswer = (answer: string, blank: { form: string; word: string }) => {
+  const given = normalizeAnswer(answer);
+  if (!given) return false;
+  return [blank.form, blank.word].some(expected => {
+    const target = normalizeAnswer(expected);
+    return given === target || (target.length >= 6 && editDistance(given, target) <= 1);
+  });
+};
+
+// Group segments into paragraphs at blank lines in the story text
+export const splitParagraphs = (segments: StorySegment[]): StorySegment[][] => {
+  const paragraphs: StorySegment[][] = [[]];
+  segments.forEach(segment => {
+    if (segment.type === 'blank') {
+      paragraphs[paragraphs.length - 1].push(segment);
+      return;
+    }
+    segment.text.split(/\n\s*\n/).forEach((part, i) => {
+      if (i > 0) paragraphs.push([]);
+      if (part) paragraphs[paragraphs.length - 1].push({ type: 'text', text: part });
+    });
+  });
+  return paragraphs.filter(paragraph => paragraph.length > 0);
+};
+
+// Paragraph as plain text with the blanks filled in, for read-aloud
+export const paragraphText = (paragraph: StorySegment[]) =>
+  paragraph.map(segment => (segment.type === 'blank' ? segment.form : segment.text)).join('').trim();
@@ -0,0 +1,96 @@
+import { GrammarInfo, SavedItem, SupportedLanguage, WordDefinition, WordSense } from "../types";
+import { createReviewState } from "./srs";
+
+// Senses of a lookup, treating older single-definition results as one sense
+export const getSenses = (data: WordDefinition): WordSense[] =>
+  data.senses?.length
+    ? data.senses
+    : [{ partOfSpeech: data.partOfSpeech, definition: data.definition, examples: data.examples }];
+
+// Build a Wordbook entry from a lookup result, for one of its senses (the primary one by default)
+export const createSavedItem = (
+  data: WordDefinition,
+  imageId: string,
+  targetLanguage: SupportedLanguage,
+  nativeLanguage: SupportedLanguage,
+  sense: WordSense = getSenses(data)[0]
+): SavedItem => {
+  const now = Date.now();
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    word: data.word,
+    definition: sense.definition,
+    phonetic: data.phonetic,
+    grammar: data.grammar,
+    partOfSpeech: sense.partOfSpeech,
+    register: sense.register,
+    examples: sense.examples.length ? sense.examples : data.examples,
+    synonyms: data.synonyms,
+    imageId,
+    targetLanguage,
+    nativeLanguage,
+    timestamp: now,
+    review: createReviewState(now),
+  };
+};
+
+export interface GrammarEntry {
+  field: keyof GrammarInfo;
+  label: string; // English, for exports; the UI translates `field`
+  value: string;
+}
+
+// Labelled grammar facts in display order, skipping the ones that don't apply
+export const grammarEntries = (grammar?: GrammarInfo): GrammarEntry[] =>
+  ([
+    { field: 'article', label: 'Article', value: grammar?.article },
+    { field: 'gender', label: 'Gender', value: grammar?.gender },
+    { field: 'measureWord', label: 'Measure word', value: grammar?.measureWord },
+    { field: 'reading', label: 'Reading', value: grammar?.reading },
+    { field: 'romanization', label: 'Romanization', value: grammar?.romanization },
+  ] as Partial<GrammarEntry>[]).filter((entry): entry is GrammarEntry => !!entry.value?.trim());
+
+// One-line summary for exports, e.g. "Article: der · Gender: masculine"
+export const formatGrammar = (grammar?: GrammarInfo) =>
+  grammarEntries(grammar).map(({ label, value }) => `${label}: ${value}`).join(' · ');
+
+// Examples come as "Sentence. (Translation.)"; this is the sentence alone
+export const exampleSentence = (example: string) => example.replace(/\s*\([^)]*\)\s*$/, '').trim();
+
+// Deck names in use, alphabetically
+export const getDecks = (items: SavedItem[]) =>
+  Array.from(new Set(items.map(item => item.deck?.trim()).filter((deck): deck is string => !!deck)))
+    .sort((a, b) => a.localeCompare(b));
+
+// A null deck means the whole Wordbook
+export const itemsInDeck = (items: SavedItem[], deck: string | null) =>
+  deck === null ? items : items.filter(item => item.deck === deck);
+
+// "travel, food, Travel" -> ["travel", "food"]
+export const parseTags = (input: string) => {
+  const seen = new Set<string>();
+  return input.split(',').map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export interface LanguagePairOf {
+  targetLanguage: SupportedLanguage;
+  nativeLanguage: SupportedLanguage;
+}
+
+// Items saved before language pairs were recorded match any pair
+export const isInLanguagePair = (entry: Partial<LanguagePairOf>, pair?: LanguagePairOf) =>
+  !pair || !entry.targetLanguage || (entry.targetLanguage === pair.targetLanguage && entry.nativeLanguage === pair.nativeLanguage);
+
+const isSameEntry = (item: SavedItem, word: string, pair?: LanguagePairOf) =>
+  item.word.toLowerCase() === word.toLowerCase() && isInLanguagePair(item, pair);
+
+export const savedEntriesFor = (items: SavedItem[], word: string, pair?: LanguagePairOf) =>
+  items.filter(item => isSameEntry(item, word, pair));
+
+export const hasSavedWord = (items: SavedItem[], word: string, pair?: LanguagePairOf) =>
+  items.some(item => isSameEntry(item, word, pair));
@@ -0,0 +1,74 @@
+import { SavedItem, SupportedLanguage } from "../types";
+import { getReviewStatus, recallStrength, ReviewStatus } from "./srs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WordbookSort = 'newest' | 'oldest' | 'alphabetical' | 'weakest';
+export type SavedWithin = 'any' | 'week' | 'month' | 'year';
+
+export interface WordbookFilter {
+  text: string;
+  languagePair: string | null; // From languagePairKey; null = any
+  savedWithin: SavedWithin;
+  status: ReviewStatus | null;
+  sort: WordbookSort;
+}
+
+export const DEFAULT_WORDBOOK_FILTER: WordbookFilter = {
+  text: '',
+  languagePair: null,
+  savedWithin: 'any',
+  status: null,
+  sort: 'newest',
+};
+
+const SAVED_WITHIN_DAYS: Record<Exclude<SavedWithin, 'any'>, number> = { week: 7, month: 30, year: 365 };
+
+export interface LanguagePair {
+  key: string;
+  nativeLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+}
+
+export const languagePairKey = (item: SavedItem) =>
+  item.nativeLanguage && item.targetLanguage ? `${item.nativeLanguage}|${item.targetLanguage}` : null;
+
+// Language pairs present in the Wordbook; items saved before pairs were recorded have none
+export const getLanguagePairs = (items: SavedItem[]): LanguagePair[] => {
+  const pairs = new Map<string, LanguagePair>();
+  items.forEach(item => {
+    const key = languagePairKey(item);
+    if (key && !pairs.has(key)) {
+      pairs.set(key, { key, nativeLanguage: item.nativeLanguage!, targetLanguage: item.targetLanguage! });
+    }
+  });
+  return Array.from(pairs.values());
+};
+
+// Case- and accent-insensitive, so "cafe" finds "café"
+const fold = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const matchesText = (item: SavedItem, needle: string) =>
+  [item.word, item.definition, item.notes ?? '', ...(item.tags ?? [])].some(field => fold(field).includes(needle));
+
+export const isFiltered = (filter: WordbookFilter) =>
+  !!filter.text.trim() || filter.languagePair !== null || filter.savedWithin !== 'any' || filter.status !== null;
+
+export const applyWordbookFilter = (items: SavedItem[], filter: WordbookFilter, now: number = Date.now()): SavedItem[] => {
+  const needle = fold(filter.text.trim());
+  const since = filter.savedWithin === 'any' ? 0 : now - SAVED_WITHIN_DAYS[filter.savedWithin] * DAY_MS;
+
+  const matching = items.filter(item =>
+    (!needle || matchesText(item, needle)) &&
+    (filter.languagePair === null || languagePairKey(item) === filter.languagePair) &&
+    item.timestamp >= since &&
+    (filter.status === null || getReviewStatus(item, now) === filter.status)
+  );
+
+  switch (filter.sort) {
+    case 'newest': return matching.sort((a, b) => b.timestamp - a.timestamp);
+    case 'oldest': return matching.sort((a, b) => a.timestamp - b.timestamp);
+    case 'alphabetical': return matching.sort((a, b) => a.word.localeCompare(b.word));
+    case 'weakest': return matching.sort((a, b) => recallStrength(a.review) - recallStrength(b.review));
+  }
+};
@@ -1,14 +1,106 @@
 
+// One distinct meaning of a word ("bank" the institution vs. "bank" of a river)
+export interface WordSense {
+  partOfSpeech: string;
+  definition: string;
+  examples: string[];
+  register?: string; // e.g. "formal", "slang", "technical"
+}
+
+// Language-specific grammar and script aids; only the fields that apply to the word's language are set
+export interface GrammarInfo {
+  gender?: string;       // e.g. "masculine", "neuter"
+  article?: string;      // Definite article, e.g. "der", "la"
+  measureWord?: string;  // Chinese classifier, e.g. "只 (zhī)"
+  reading?: string;      // Pinyin for Chinese, kana (furigana) for Japanese
+  romanization?: string; // Latin transliteration for non-Latin scripts (Arabic, Hindi, Russian, Korean)
+}
+
 export interface WordDefinition {
   word: string;
   phonetic: string;
-  partOfSpeech: string;
-  definition: string;
+  partOfSpeech: string; // Of the primary (first) sense
+  definition: string;   // Of the primary (first) sense
   originalDefinition: string;
   examples: string[];
   synonyms: string[];
   etymology: string;
   vibes: string[];
+  senses?: WordSense[]; // Missing on lookups cached before senses existed
+  grammar?: GrammarInfo;
+}
+
+export interface SentenceToken {
+  text: string;   // As written in the sentence
+  lemma: string;  // Dictionary form, used to open the word's full card
+  gloss: string;  // Short word-by-word translation
+  role: string;   // Grammatical role, e.g. "subject", "verb (past tense)"
+}
+
+export interface SentenceAnalysis {
+  sentence: string;
+  literalTranslation: string;
+  naturalTranslation: string;
+  tokens: SentenceToken[];
+  notes?: string; // Idiom or grammar remarks, if any
+}
+
+// Short in-context meaning for the reading assistant
+export interface WordGloss {
+  word: string;   // As written in the passage
+  lemma: string;  // Dictionary form
+  gloss: string;
+}
+
+export type InflectionKind = 'conjugation' | 'declension' | 'comparison' | 'none';
+
+export interface InflectionRow {
+  label: string;   // Person, case or degree, e.g. "1st sg." or "Genitive"
+  cells: string[]; // One form per column
+}
+
+export interface InflectionTable {
+  title: string;     // e.g. "Present indicative"
+  columns: string[]; // e.g. ["Singular", "Plural"]; a single column for conjugations
+  rows: InflectionRow[];
+}
+
+export interface Inflections {
+  kind: InflectionKind;
+  tables: InflectionTable[];
+  note?: string; // Irregularities or usage hints
+}
+
+export interface PronunciationIssue {
+  sound: string;    // The sound or syllable, e.g. "/r/" or "-tion"
+  feedback: string; // What was off and how to fix it
+}
+
+export interface PronunciationAssessment {
+  score: number;      // 0-100
+  transcript: string; // What the model heard
+  summary: string;
+  issues: PronunciationIssue[];
+}
+
+// Steers generateWordImage towards what the learner has rated well
+export interface ImagePromptOptions {
+  style?: string;      // Visual style; a minimalist look when unset
+  liked?: string[];    // Styles the learner rated up
+  disliked?: string[]; // Styles the learner rated down
+  prompt?: string;     // Full prompt edited by the learner; sent as-is instead of the built one
+}
+
+// Keyword-method memory aid, written by the text model so Imagen only has to draw it
+export interface MnemonicScene {
+  keyword: string; // A word in the learner's native language that sounds like the looked-up word
+  scene: string;   // Concrete picture joining the keyword to the meaning, described in English
+}
+
+// Cheap pre-check before a full lookup
+export interface SpellingCheck {
+  isValid: boolean;       // The input is a real word or phrase as typed
+  suggestions: string[];  // Likely intended words, best first (empty when valid)
 }
 
 export interface AdditionalMeaning {
@@ -20,14 +112,39 @@ export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
+  status?: 'stopped' | 'failed'; // A reply that ended empty; shown as a translated notice instead of text
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewState {
+  ease: number;       // SM-2 ease factor, starts at 2.5
+  interval: number;   // Days until the next review
+  dueDate: number;    // Timestamp (ms) when the card is next due
+  lapses: number;     // Times the card was forgotten after being learned
+  repetitions: number; // Consecutive successful recalls
+  lastReviewed?: number;
 }
 
 export interface SavedItem {
   id: string;
   word: string;
-  imageUrl: string;
+  imageId: string;    // Key into the IndexedDB image store ('' when there is no image)
+  imageUrl?: string;  // Legacy inline base64 image, migrated into the image store on load
   definition: string;
+  phonetic?: string;
+  grammar?: GrammarInfo;
+  partOfSpeech?: string;
+  register?: string;
+  examples?: string[];
+  synonyms?: string[];
+  notes?: string;     // Free text; tutor answers can be appended from the chat
+  deck?: string;      // User-defined deck, e.g. "Travel"; unset items are in no deck
+  tags?: string[];
+  targetLanguage?: SupportedLanguage; // Language pair the word was looked up with (missing on older items)
+  nativeLanguage?: SupportedLanguage;
   timestamp: number;
+  review: ReviewState;
 }
 
 export interface StoryQuiz {